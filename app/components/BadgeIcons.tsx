@@ -0,0 +1,87 @@
+import { format, parseISO } from "date-fns";
+import { Award, CheckCircle2, Flame, Link2, Medal, Star, TrendingUp, Trophy, Zap } from "lucide-react";
+import { cn } from "~/lib/utils";
+import type { BadgeSummary } from "~/lib/badges";
+
+// Keyed by badges.icon
+const BADGE_ICONS: Record<string, typeof Award> = {
+  check: CheckCircle2,
+  flame: Flame,
+  zap: Zap,
+  star: Star,
+  "trending-up": TrendingUp,
+  link: Link2,
+  medal: Medal,
+  trophy: Trophy,
+};
+
+function badgeTitle({ badge, count }: BadgeSummary) {
+  return `${badge.name}${count > 1 ? ` ×${count}` : ""}: ${badge.description}`;
+}
+
+/**
+ * Small badge icons shown after a username
+ */
+export function UsernameBadges({ badges, max = 3 }: { badges?: BadgeSummary[]; max?: number }) {
+  if (!badges || badges.length === 0) return null;
+
+  // Rarest (highest sort order) first
+  const shown = [...badges].sort((a, b) => b.badge.sort_order - a.badge.sort_order).slice(0, max);
+
+  return (
+    <span className="inline-flex items-center gap-0.5 align-middle">
+      {shown.map((summary) => {
+        const Icon = BADGE_ICONS[summary.badge.icon] ?? Award;
+        return (
+          <span key={summary.badge.id} title={badgeTitle(summary)}>
+            <Icon className="h-3 w-3 text-amber-500" />
+          </span>
+        );
+      })}
+      {badges.length > max && (
+        <span className="text-[10px] text-muted-foreground">+{badges.length - max}</span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Every badge in the catalog, earned ones highlighted with a count and date
+ */
+export function BadgeShelf({ badges }: { badges: BadgeSummary[] }) {
+  return (
+    <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+      {badges.map((summary) => {
+        const { badge, count, lastEarnedOn } = summary;
+        const Icon = BADGE_ICONS[badge.icon] ?? Award;
+        const earned = count > 0;
+
+        return (
+          <div
+            key={badge.id}
+            title={badge.description}
+            className={cn(
+              "flex items-start gap-3 rounded-lg border p-3",
+              earned
+                ? "border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30"
+                : "border-slate-200 opacity-50 dark:border-slate-800"
+            )}
+          >
+            <Icon className={cn("h-5 w-5 shrink-0", earned ? "text-amber-500" : "text-slate-400")} />
+            <div className="min-w-0">
+              <p className="text-sm font-semibold">
+                {badge.name}
+                {count > 1 && <span className="ml-1 text-xs text-muted-foreground">×{count}</span>}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {earned && lastEarnedOn
+                  ? `${badge.repeatable && count > 1 ? "Last earned" : "Earned"} ${format(parseISO(lastEarnedOn), "MMM d, yyyy")}`
+                  : badge.description}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { formatUnits } from "~/lib/stakes";
+import { cn } from "~/lib/utils";
+
+export interface BankrollStats {
+  graded_picks: number;
+  units_staked: number | string;
+  units_net: number | string;
+  roi: number | string | null;
+}
+
+export interface BankrollPoint {
+  day: string;
+  units: number | string;
+  cumulative_units: number | string;
+}
+
+/**
+ * Running bankroll in units, starting from 0 before the first graded day
+ * The dashed line marks break-even.
+ */
+export function BankrollChart({
+  history,
+  height = 120,
+  className,
+}: {
+  history: BankrollPoint[];
+  height?: number;
+  className?: string;
+}) {
+  const values = [0, ...history.map((point) => Number(point.cumulative_units))];
+
+  if (values.length < 2) return null;
+
+  const width = 300;
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+  const pad = 4;
+
+  const toY = (value: number) => pad + ((max - value) / range) * (height - pad * 2);
+  const coords = values.map((value, i) => {
+    const x = pad + (i / (values.length - 1)) * (width - pad * 2);
+    return `${x.toFixed(1)},${toY(value).toFixed(1)}`;
+  });
+
+  const [lastX, lastY] = coords[coords.length - 1].split(",");
+  const zeroY = toY(0).toFixed(1);
+  const isUp = values[values.length - 1] >= 0;
+
+  return (
+    <svg
+      width="100%"
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className={cn(isUp ? "text-green-600" : "text-red-600", className)}
+      aria-hidden="true"
+    >
+      <line
+        x1={pad}
+        x2={width - pad}
+        y1={zeroY}
+        y2={zeroY}
+        className="text-slate-300 dark:text-slate-700"
+        stroke="currentColor"
+        strokeDasharray="4 4"
+        vectorEffect="non-scaling-stroke"
+      />
+      <polyline
+        points={coords.join(" ")}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+        vectorEffect="non-scaling-stroke"
+      />
+      <circle cx={lastX} cy={lastY} r={3} fill="currentColor" />
+    </svg>
+  );
+}
+
+/**
+ * Season bankroll summary (net units, staked, ROI) with the chart
+ * Used on /metrics and /mypicks.
+ */
+export function BankrollCard({
+  stats,
+  history,
+  className,
+}: {
+  stats: BankrollStats | null;
+  history: BankrollPoint[];
+  className?: string;
+}) {
+  if (!stats || stats.graded_picks === 0) return null;
+
+  const net = Number(stats.units_net);
+  const first = history[0];
+  const last = history[history.length - 1];
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Bankroll</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-6 text-sm">
+          <div className="flex flex-col">
+            <span className="text-gray-600 dark:text-gray-400">Net</span>
+            <span
+              className={cn(
+                "text-2xl font-bold tabular-nums",
+                net >= 0 ? "text-green-600" : "text-red-600"
+              )}
+            >
+              {formatUnits(net)}
+            </span>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-gray-600 dark:text-gray-400">Staked</span>
+            <span className="text-2xl font-bold tabular-nums">
+              {Number(stats.units_staked).toFixed(1)}u
+            </span>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-gray-600 dark:text-gray-400">Season ROI</span>
+            <span
+              className={cn(
+                "text-2xl font-bold tabular-nums",
+                Number(stats.roi || 0) >= 0 ? "text-green-600" : "text-red-600"
+              )}
+            >
+              {stats.roi || "0"}%
+            </span>
+          </div>
+        </div>
+
+        {history.length > 0 && (
+          <div>
+            <BankrollChart history={history} />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{format(parseISO(first.day), "MMM d")}</span>
+              <span>{format(parseISO(last.day), "MMM d")}</span>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {stats.graded_picks} graded picks. Spread and totals pay at -110, moneyline at the
+          odds you locked in; pushes and voided picks return the stake.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Badge } from "~/components/ui/badge";
+import { cn } from "~/lib/utils";
+import {
+  CONSENSUS_SOURCE,
+  formatLine,
+  signedLineFor,
+  type BookmakerLine,
+} from "~/lib/line-movement";
+
+interface Team {
+  id: string;
+  short_name: string;
+}
+
+interface BookmakerLinesTableProps {
+  lines: BookmakerLine[];
+  homeTeam: Team;
+  awayTeam: Team;
+  /** Source of the official line on the game row (games.line_source) */
+  officialSource?: string | null;
+}
+
+function formatOdds(odds: number | null) {
+  if (odds === null) return "—";
+  return odds > 0 ? `+${odds}` : `${odds}`;
+}
+
+/**
+ * Per-book comparison for GameDetailsDialog, consensus first, official line highlighted
+ */
+export function BookmakerLinesTable({
+  lines,
+  homeTeam,
+  awayTeam,
+  officialSource,
+}: BookmakerLinesTableProps) {
+  if (lines.length === 0) return null;
+
+  const sorted = [...lines].sort((a, b) => {
+    if (a.bookmaker === CONSENSUS_SOURCE) return -1;
+    if (b.bookmaker === CONSENSUS_SOURCE) return 1;
+    return a.bookmaker.localeCompare(b.bookmaker);
+  });
+
+  const lineFor = (teamId: string, line: BookmakerLine) => {
+    const signed = signedLineFor(teamId, line.spread, line.favorite_team_id);
+    return signed === null ? "—" : formatLine(signed);
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="text-sm font-semibold">Lines by Book</div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Book</TableHead>
+            <TableHead className="text-right">{awayTeam.short_name}</TableHead>
+            <TableHead className="text-right">{homeTeam.short_name}</TableHead>
+            <TableHead className="text-right">O/U</TableHead>
+            <TableHead className="text-right">ML</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map((line) => {
+            const isOfficial = line.bookmaker === officialSource;
+            return (
+              <TableRow
+                key={line.bookmaker}
+                className={cn(isOfficial && "bg-blue-50 dark:bg-blue-950/30")}
+              >
+                <TableCell className="font-medium">
+                  <span className={cn(line.bookmaker === CONSENSUS_SOURCE && "italic")}>
+                    {line.bookmaker}
+                  </span>
+                  {isOfficial && (
+                    <Badge variant="secondary" className="ml-2 text-[10px] px-1 py-0">
+                      Official
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {lineFor(awayTeam.id, line)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {lineFor(homeTeam.id, line)}
+                </TableCell>
+                <TableCell className="text-right font-mono">{line.total ?? "—"}</TableCell>
+                <TableCell className="text-right font-mono text-xs">
+                  {formatOdds(line.away_moneyline)} / {formatOdds(line.home_moneyline)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
-import { useTeamStats, getCurrentSeason } from '../hooks/useTeamStats'
+import { useTeamStats } from '../hooks/useTeamStats'
 import { TeamAnalytics } from './TeamAnalytics'
 
 interface Game {
   id: string
   home_team_id: string
   away_team_id: string
+  /** Neither team is at home; the Home/Away labels become Neutral */
+  neutral_site?: boolean
   home_team?: {
     id: string
     name: string
@@ -31,7 +33,7 @@ interface GameAnalyticsProps {
  */
 export function GameAnalytics({
   game,
-  season = getCurrentSeason(),
+  season,
   source = 'all',
   showComparison = true
 }: GameAnalyticsProps) {
@@ -40,6 +42,8 @@ export function GameAnalytics({
 
   const homeTeamName = game.home_team?.name || 'Home Team'
   const awayTeamName = game.away_team?.name || 'Away Team'
+  const homeSite = game.neutral_site ? 'Neutral' : 'Home'
+  const awaySite = game.neutral_site ? 'Neutral' : 'Away'
 
   return (
     <div className="space-y-6">
@@ -60,7 +64,7 @@ export function GameAnalytics({
           <div className="mb-4 pb-2 border-b">
             <div className="flex items-center gap-2">
               <h3 className="text-lg font-semibold">{awayTeamName}</h3>
-              <span className="text-xs bg-gray-100 px-2 py-1 rounded">Away</span>
+              <span className="text-xs bg-gray-100 px-2 py-1 rounded">{awaySite}</span>
             </div>
           </div>
           <TeamAnalytics
@@ -77,7 +81,7 @@ export function GameAnalytics({
           <div className="mb-4 pb-2 border-b">
             <div className="flex items-center gap-2">
               <h3 className="text-lg font-semibold">{homeTeamName}</h3>
-              <span className="text-xs bg-gray-100 px-2 py-1 rounded">Home</span>
+              <span className="text-xs bg-gray-100 px-2 py-1 rounded">{homeSite}</span>
             </div>
           </div>
           <TeamAnalytics
@@ -327,14 +331,9 @@ function ComparisonRow({
  * Compact version for use in game cards
  */
 export function GameAnalyticsCompact({ game }: { game: Game }) {
-  const homeStats = useTeamStats(game.home_team_id, {
-    season: getCurrentSeason(),
-    source: 'all'
-  })
-  const awayStats = useTeamStats(game.away_team_id, {
-    season: getCurrentSeason(),
-    source: 'all'
-  })
+  // The stats API defaults to the current season
+  const homeStats = useTeamStats(game.home_team_id, { source: 'all' })
+  const awayStats = useTeamStats(game.away_team_id, { source: 'all' })
 
   // Show loading state
   if (homeStats.loading || awayStats.loading) {
@@ -1,14 +1,29 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useFetcher, Link } from "react-router";
 import { Card, CardContent } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
-import { format, isPast } from "date-fns";
+import { isPast } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
 import { cn } from "~/lib/utils";
+import { toast } from "sonner";
+import { DEFAULT_STAKE } from "~/lib/stakes";
+import { DEFAULT_TIMEZONE } from "~/lib/timezones";
+import { getCoverStatus, type CoverStatus } from "~/lib/live-scores";
 import { Loader2, Star, AlertCircle, Trophy } from "lucide-react";
 import { OthersPicksPopover } from "~/components/OthersPicksPopover";
+import { PickWriteupDialog } from "~/components/PickWriteupDialog";
 import { GameDetailsDialogCompact } from "~/components/GameDetailsDialog";
 import { ShareButton } from "~/components/ShareButton";
 import { ShareModal } from "~/components/ShareModal";
+import { LineMovementIndicator } from "~/components/LineMovement";
+import {
+  formatLine,
+  getLineMovement,
+  type BookmakerLine,
+  type LineSnapshot,
+} from "~/lib/line-movement";
+import type { PickRevision } from "~/lib/pick-revisions";
+import type { BadgeSummary } from "~/lib/badges";
 
 interface Team {
   id: string;
@@ -27,12 +42,20 @@ interface Pick {
   id: string;
   picked_team_id: string;
   spread_at_pick_time: number;
-  result: "won" | "lost" | "push" | "pending" | null;
+  result: "won" | "lost" | "push" | "pending" | "void" | null;
   locked_at: string | null;
   is_pick_of_day: boolean;
   user_id: string;
+  updated_at?: string;
+  pick_type?: "spread" | "total" | "moneyline";
+  total_side?: "over" | "under" | null;
+  total_at_pick_time?: number | null;
+  odds_at_pick_time?: number | null;
+  stake?: number;
+  writeup?: { body: string } | null;
   profiles?: {
     username: string;
+    badges?: BadgeSummary[];
   };
 }
 
@@ -63,16 +86,27 @@ interface Game {
   away_team_id: string;
   tournament_round: string | null;
   tournament_metadata: { seed_home?: number; seed_away?: number; region?: string } | null;
+  venue?: string | null;
+  neutral_site?: boolean;
   home_team: Team;
   away_team: Team;
   home_score: number | null;
   away_score: number | null;
   spread: number | null;
   favorite_team_id: string | null;
+  total?: number | null;
+  home_moneyline?: number | null;
+  away_moneyline?: number | null;
   status: "scheduled" | "in_progress" | "completed" | "postponed" | "cancelled";
   conference: Conference;
   tournament?: Tournament | null;
   picks?: Pick[];
+  /** Other users' picks on the game, including ones hidden until it locks */
+  other_pick_count?: number;
+  line_snapshots?: LineSnapshot[];
+  bookmaker_lines?: BookmakerLine[];
+  line_source?: string | null;
+  pick_revisions?: PickRevision[];
   matchup_analysis?: MatchupAnalysisData | null;
   home_team_injury_count?: number;
   away_team_injury_count?: number;
@@ -82,31 +116,97 @@ interface Game {
   away_team_net_eff?: number;
 }
 
+// Get result badge color
+function getResultColor(result: Pick["result"]) {
+  switch (result) {
+    case "won":
+      return "bg-green-500 text-white";
+    case "lost":
+      return "bg-red-500 text-white";
+    case "push":
+      return "bg-gray-500 text-white";
+    case "void":
+      return "bg-amber-100 text-amber-800 border border-amber-400 dark:bg-amber-950 dark:text-amber-300";
+    default:
+      return "bg-blue-500 text-white";
+  }
+}
+
+const COVER_BADGES: Record<CoverStatus, { label: string; className: string }> = {
+  covering: {
+    label: "Covering",
+    className: "border-green-500 text-green-700 bg-green-50 dark:text-green-400 dark:bg-green-950/30",
+  },
+  not_covering: {
+    label: "Not covering",
+    className: "border-red-500 text-red-700 bg-red-50 dark:text-red-400 dark:bg-red-950/30",
+  },
+  push: {
+    label: "Push",
+    className: "border-slate-400 text-slate-600 bg-slate-50 dark:text-slate-300 dark:bg-slate-800/30",
+  },
+};
+
+// Format American odds ("+150", "-180")
+/**
+ * Toasts a failed pick save, e.g. when the database rejects a pick because the game just locked
+ */
+function usePickErrorToast(state: string, data: { error?: string } | undefined) {
+  useEffect(() => {
+    if (state === "idle" && data?.error) {
+      toast.error(data.error);
+    }
+  }, [state, data]);
+}
+
+function formatOdds(odds: number) {
+  return odds > 0 ? `+${odds}` : `${odds}`;
+}
+
 interface GameCardProps {
   game: Game;
   userPick?: Pick;
+  userTotalPick?: Pick;
+  userMoneylinePick?: Pick;
   otherPicks: Pick[];
   userId: string;
   potdGameId: string | null;
   isSwingGame?: boolean;
   homeTeamPickers?: Pick[];
   awayTeamPickers?: Pick[];
+  /** Units to stake on new or changed picks; defaults to each pick's current stake */
+  stake?: number;
+  /** The viewer's timezone for the tip time */
+  timezone?: string;
 }
 
 export function GameCard({
   game,
   userPick,
+  userTotalPick,
+  userMoneylinePick,
   otherPicks,
   userId: _userId,
   potdGameId,
   isSwingGame = false,
   homeTeamPickers = [],
   awayTeamPickers = [],
+  stake,
+  timezone = DEFAULT_TIMEZONE,
 }: GameCardProps) {
-  const fetcher = useFetcher();
+  const fetcher = useFetcher<{ error?: string }>();
+  usePickErrorToast(fetcher.state, fetcher.data);
   const gameDate = new Date(game.game_date);
   const isLocked = game.status !== "scheduled" || isPast(gameDate);
   const isCompleted = game.status === "completed";
+  const isLive = game.status === "in_progress";
+  const showScores = isCompleted || isLive;
+
+  // Cover status at the current score, until the pick is graded
+  const liveCoverStatus =
+    userPick && (isLive || (isCompleted && userPick.result === "pending"))
+      ? getCoverStatus(userPick, game)
+      : null;
   const [showOtherPick, setShowOtherPick] = useState(false);
   const [shareModalOpen, setShareModalOpen] = useState(false);
 
@@ -125,12 +225,28 @@ export function GameCard({
   const thisGameIsPotd = potdGameId === game.id;
   const canTogglePotd = !isLocked && (!hasPotdToday || thisGameIsPotd) && userPick;
 
+  // Totals and moneylines show the number the user locked in, else the current market
+  const displayTotal = userTotalPick?.total_at_pick_time ?? game.total;
+  const moneylineOddsFor = (teamId: string, current: number | null | undefined) =>
+    userMoneylinePick?.picked_team_id === teamId
+      ? userMoneylinePick.odds_at_pick_time
+      : current;
+  const awayMoneyline = moneylineOddsFor(game.away_team.id, game.away_moneyline);
+  const homeMoneyline = moneylineOddsFor(game.home_team.id, game.home_moneyline);
+
+  // Opening line -> current line from the scrape history
+  const lineMovement = getLineMovement(game.line_snapshots, game.home_team.id);
+
   // Determine which team is the favorite
   const homeIsFavorite = game.favorite_team_id === game.home_team.id;
   const awayIsFavorite = game.favorite_team_id === game.away_team.id;
 
   // Format spread display
+  // The picked side shows the signed line locked in with the pick, which may differ from the current market
   const getSpreadDisplay = (teamId: string) => {
+    if (userPick?.picked_team_id === teamId && !(isSubmitting && optimisticPickedTeamId)) {
+      return formatLine(Number(userPick.spread_at_pick_time));
+    }
     if (!game.spread) return null;
 
     if (teamId === game.favorite_team_id) {
@@ -155,20 +271,6 @@ export function GameCard({
     return otherPicks.some(pick => pick.picked_team_id === teamId);
   };
 
-  // Get result badge color
-  const getResultColor = (result: Pick["result"]) => {
-    switch (result) {
-      case "won":
-        return "bg-green-500 text-white";
-      case "lost":
-        return "bg-red-500 text-white";
-      case "push":
-        return "bg-gray-500 text-white";
-      default:
-        return "bg-blue-500 text-white";
-    }
-  };
-
   // Determine picked team for share modal
   const pickedTeam = userPick?.picked_team_id === game.home_team.id
     ? game.home_team
@@ -189,7 +291,7 @@ export function GameCard({
   };
 
   return (
-    <Card className="hover:shadow-lg transition-all duration-300 bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 overflow-hidden flex flex-col h-[200px] pb-0">
+    <Card className="hover:shadow-lg transition-all duration-300 bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 overflow-hidden flex flex-col h-[256px] pb-0">
       <div className="relative">
         {/* Pick of the Day Star - Top Right Corner */}
         {userPick && (
@@ -198,8 +300,8 @@ export function GameCard({
               <fetcher.Form method="post">
                 <input type="hidden" name="gameId" value={game.id} />
                 <input type="hidden" name="pickedTeamId" value={userPick.picked_team_id} />
-                <input type="hidden" name="spread" value={game.spread || ""} />
                 <input type="hidden" name="isPotd" value={(!optimisticIsPotd).toString()} />
+                <input type="hidden" name="stake" value={userPick.stake ?? DEFAULT_STAKE} />
                 <button
                   type="submit"
                   disabled={!canTogglePotd}
@@ -280,12 +382,12 @@ export function GameCard({
               name="pickedTeamId"
               value={game.away_team.id}
             />
-            <input type="hidden" name="spread" value={game.spread || ""} />
             <input
               type="hidden"
               name="isPotd"
               value={optimisticIsPotd ? "true" : "false"}
             />
+            <input type="hidden" name="stake" value={stake ?? userPick?.stake ?? DEFAULT_STAKE} />
 
             <div className="text-center space-y-1 w-full">
               {/* Line 1: Team Name + Ranking + Seed + Injury Icon */}
@@ -314,7 +416,7 @@ export function GameCard({
               </div>
 
               {/* Line 2: Score (if completed) or Spread */}
-              {isCompleted && game.away_score !== null ? (
+              {showScores && game.away_score !== null ? (
                 <div className="text-2xl font-bold tabular-nums text-slate-900 dark:text-slate-100">
                   {game.away_score}
                 </div>
@@ -344,6 +446,20 @@ export function GameCard({
 
           {/* Center Column: Result & Status */}
           <div className="flex flex-col items-center justify-center px-1 space-y-1.5 min-w-[40px] h-full">
+            {!isLive && (
+              <span
+                className="text-xs font-semibold text-slate-400 dark:text-slate-500"
+                title={game.venue || (game.neutral_site ? "Neutral site" : `at ${game.home_team.name}`)}
+              >
+                {game.neutral_site ? "N" : "@"}
+              </span>
+            )}
+            {isLive && (
+              <span className="flex items-center gap-1 text-[10px] font-bold uppercase text-red-600 dark:text-red-400">
+                <span className="h-1.5 w-1.5 rounded-full bg-red-600 animate-pulse" />
+                Live
+              </span>
+            )}
             {userPick && (
               <div className="flex flex-col items-center gap-1">
                 {userPick.result && userPick.result !== "pending" && (
@@ -356,14 +472,26 @@ export function GameCard({
                     {userPick.result.toUpperCase()}
                   </Badge>
                 )}
-                {isLocked && userPick.result === "pending" && (
+                {liveCoverStatus ? (
                   <Badge
                     variant="outline"
-                    className="text-xs border-amber-500 text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 px-1.5 py-0.5"
+                    className={cn("text-[10px] px-1.5 py-0.5 whitespace-nowrap", COVER_BADGES[liveCoverStatus].className)}
                   >
-                    Locked
+                    {COVER_BADGES[liveCoverStatus].label}
                   </Badge>
+                ) : (
+                  isLocked && userPick.result === "pending" && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs border-amber-500 text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 px-1.5 py-0.5"
+                    >
+                      Locked
+                    </Badge>
+                  )
                 )}
+                <span className="text-[10px] font-semibold tabular-nums text-slate-500 dark:text-slate-400">
+                  {userPick.stake ?? DEFAULT_STAKE}u
+                </span>
               </div>
             )}
           </div>
@@ -407,12 +535,12 @@ export function GameCard({
               name="pickedTeamId"
               value={game.home_team.id}
             />
-            <input type="hidden" name="spread" value={game.spread || ""} />
             <input
               type="hidden"
               name="isPotd"
               value={optimisticIsPotd ? "true" : "false"}
             />
+            <input type="hidden" name="stake" value={stake ?? userPick?.stake ?? DEFAULT_STAKE} />
 
             <div className="text-center space-y-1 w-full">
               {/* Line 1: Team Name + Ranking + Seed + Injury Icon */}
@@ -441,7 +569,7 @@ export function GameCard({
               </div>
 
               {/* Line 2: Score (if completed) or Spread */}
-              {isCompleted && game.home_score !== null ? (
+              {showScores && game.home_score !== null ? (
                 <div className="text-2xl font-bold tabular-nums text-slate-900 dark:text-slate-100">
                   {game.home_score}
                 </div>
@@ -471,6 +599,48 @@ export function GameCard({
         </div>
       </CardContent>
 
+      {/* Over/Under and Moneyline */}
+      <div className="px-2 pb-1.5 space-y-1">
+        <MarketPickRow
+          label="O/U"
+          gameId={game.id}
+          pickType="total"
+          field="totalSide"
+          options={
+            displayTotal != null
+              ? [
+                  { value: "over", label: `O ${displayTotal}` },
+                  { value: "under", label: `U ${displayTotal}` },
+                ]
+              : null
+          }
+          selectedValue={userTotalPick?.total_side}
+          result={userTotalPick?.result}
+          stake={stake ?? userTotalPick?.stake ?? DEFAULT_STAKE}
+          isLocked={isLocked}
+          emptyText="No total posted"
+        />
+        <MarketPickRow
+          label="ML"
+          gameId={game.id}
+          pickType="moneyline"
+          field="pickedTeamId"
+          options={
+            awayMoneyline != null && homeMoneyline != null
+              ? [
+                  { value: game.away_team.id, label: `${game.away_team.short_name} ${formatOdds(awayMoneyline)}` },
+                  { value: game.home_team.id, label: `${game.home_team.short_name} ${formatOdds(homeMoneyline)}` },
+                ]
+              : null
+          }
+          selectedValue={userMoneylinePick?.picked_team_id}
+          result={userMoneylinePick?.result}
+          stake={stake ?? userMoneylinePick?.stake ?? DEFAULT_STAKE}
+          isLocked={isLocked}
+          emptyText="No moneyline posted"
+        />
+      </div>
+
       {/* Footer with Conference and Time */}
       <div className="px-2 pb-2 pt-1 border-t border-slate-200 dark:border-slate-800 bg-gradient-to-br from-slate-50 to-white dark:from-slate-900 dark:to-slate-900/50">
         <div className="flex items-center justify-between">
@@ -507,6 +677,11 @@ export function GameCard({
                 FINAL
               </Badge>
             )}
+            {(game.status === "postponed" || game.status === "cancelled") && (
+              <Badge className="bg-amber-500 text-white border-0 text-xs px-1.5 py-0.5">
+                {game.status.toUpperCase()}
+              </Badge>
+            )}
             {isSwingGame && (
               <Badge className="bg-gradient-to-r from-purple-600 to-pink-600 text-white border-0 text-xs px-1.5 py-0.5 shadow-md font-bold">
                 ⚔️ SWING
@@ -514,6 +689,7 @@ export function GameCard({
             )}
             <OthersPicksPopover
               otherPicks={otherPicks}
+              pickCount={game.other_pick_count ?? otherPicks.length}
               homeTeam={game.home_team}
               awayTeam={game.away_team}
               showOtherPick={showOtherPick}
@@ -521,6 +697,20 @@ export function GameCard({
             />
           </div>
           <div className="flex items-center gap-2">
+            {lineMovement && !isCompleted && (
+              <LineMovementIndicator
+                movement={lineMovement}
+                homeTeam={game.home_team}
+                awayTeam={game.away_team}
+              />
+            )}
+            {userPick && (
+              <PickWriteupDialog
+                pickId={userPick.id}
+                body={userPick.writeup?.body ?? null}
+                isLocked={isLocked}
+              />
+            )}
             {/* Share button - only show for POTD picks */}
             {userPick?.is_pick_of_day && (
               <ShareButton
@@ -536,11 +726,8 @@ export function GameCard({
               potdGameId={potdGameId}
               enablePicking={true}
             />
-            <span
-              className="text-xs font-semibold text-slate-600 dark:text-slate-400"
-              suppressHydrationWarning
-            >
-              {format(gameDate, "h:mm a")}
+            <span className="text-xs font-semibold text-slate-600 dark:text-slate-400">
+              {formatInTimeZone(gameDate, timezone, "h:mm a")}
             </span>
           </div>
         </div>
@@ -575,3 +762,84 @@ export function GameCard({
     </Card>
   );
 }
+
+interface MarketPickRowProps {
+  label: string;
+  gameId: string;
+  pickType: "total" | "moneyline";
+  field: "totalSide" | "pickedTeamId";
+  options: { value: string; label: string }[] | null;
+  selectedValue?: string | null;
+  result?: Pick["result"];
+  stake: number;
+  isLocked: boolean;
+  emptyText: string;
+}
+
+/**
+ * One-line picker for the secondary markets (totals, moneyline)
+ * Each row has its own fetcher so saving one market doesn't flash the spread pick's optimistic state.
+ */
+function MarketPickRow({
+  label,
+  gameId,
+  pickType,
+  field,
+  options,
+  selectedValue,
+  result,
+  stake,
+  isLocked,
+  emptyText,
+}: MarketPickRowProps) {
+  const fetcher = useFetcher<{ error?: string }>();
+  usePickErrorToast(fetcher.state, fetcher.data);
+  const isSubmitting = fetcher.state === "submitting";
+  const selected = isSubmitting
+    ? (fetcher.formData?.get(field) as string | undefined)
+    : selectedValue;
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs">
+      <span className="font-semibold text-slate-500 dark:text-slate-400 w-8">{label}</span>
+      {options ? (
+        options.map((option) => (
+          <fetcher.Form method="post" key={option.value} className="flex-1 min-w-0">
+            <input type="hidden" name="gameId" value={gameId} />
+            <input type="hidden" name="pickType" value={pickType} />
+            <input type="hidden" name={field} value={option.value} />
+            <input type="hidden" name="stake" value={stake} />
+            <button
+              type="submit"
+              disabled={isLocked || isSubmitting}
+              className={cn(
+                "w-full truncate rounded-md py-0.5 font-mono font-semibold transition-all duration-200",
+                selected === option.value
+                  ? "ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-950/30 text-blue-700 dark:text-blue-300"
+                  : "border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/30 text-slate-600 dark:text-slate-400",
+                !isLocked && "hover:border-slate-300 dark:hover:border-slate-600 cursor-pointer",
+                isLocked && "opacity-60 cursor-not-allowed"
+              )}
+            >
+              {option.label}
+            </button>
+          </fetcher.Form>
+        ))
+      ) : (
+        <span className="flex-1 text-slate-400 dark:text-slate-600">{emptyText}</span>
+      )}
+      <div className="w-12 flex justify-end">
+        {isSubmitting ? (
+          <Loader2 className="h-3 w-3 animate-spin text-slate-500" />
+        ) : (
+          result &&
+          result !== "pending" && (
+            <Badge className={cn(getResultColor(result), "font-bold text-[10px] px-1 py-0")}>
+              {result.toUpperCase()}
+            </Badge>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,9 +10,13 @@ import {
 import { Button } from '~/components/ui/button'
 import { GameAnalytics } from './GameAnalytics'
 import { MatchupAnalysis } from './MatchupAnalysis'
-import { BarChart3, TrendingUp, Sparkles, Loader2 } from 'lucide-react'
+import { BarChart3, TrendingUp, Sparkles, Loader2, History } from 'lucide-react'
 import { format, isPast } from 'date-fns'
 import { cn } from '~/lib/utils'
+import { LineMovementPanel } from './LineMovement'
+import { getLineMovement, type BookmakerLine, type LineSnapshot } from '~/lib/line-movement'
+import { BookmakerLinesTable } from '~/components/BookmakerLines'
+import { describePickRevision, type PickRevision } from '~/lib/pick-revisions'
 
 interface Team {
   id: string
@@ -31,10 +35,11 @@ interface Pick {
   id: string
   picked_team_id: string
   spread_at_pick_time: number
-  result: "won" | "lost" | "push" | "pending" | null
+  result: "won" | "lost" | "push" | "pending" | "void" | null
   locked_at: string | null
   is_pick_of_day: boolean
   user_id: string
+  updated_at?: string
 }
 
 interface MatchupAnalysisData {
@@ -55,6 +60,8 @@ interface Game {
   game_date: string
   home_team_id: string
   away_team_id: string
+  venue?: string | null
+  neutral_site?: boolean
   home_team: Team
   away_team: Team
   home_score: number | null
@@ -66,6 +73,11 @@ interface Game {
   home_team_injury_count?: number
   away_team_injury_count?: number
   matchup_analysis?: MatchupAnalysisData | null
+  line_snapshots?: LineSnapshot[]
+  bookmaker_lines?: BookmakerLine[]
+  line_source?: string | null
+  /** The current user's revisions to their picks on this game */
+  pick_revisions?: PickRevision[]
 }
 
 interface GameDetailsDialogProps {
@@ -104,6 +116,10 @@ export function GameDetailsDialog({
   const homeIsFavorite = game.favorite_team_id === game.home_team.id
   const awayIsFavorite = game.favorite_team_id === game.away_team.id
 
+  const lineMovement = getLineMovement(game.line_snapshots, game.home_team.id)
+  // spread_at_pick_time is already the signed line for the picked side
+  const pickLine = userPick ? Number(userPick.spread_at_pick_time) : null
+
   const getSpreadDisplay = (teamId: string) => {
     if (!game.spread) return null
     if (teamId === game.favorite_team_id) {
@@ -135,7 +151,7 @@ export function GameDetailsDialog({
       <DialogContent className="!w-[95vw] sm:!max-w-[95vw] lg:!max-w-[1600px] !max-h-[90vh] overflow-y-auto p-4 sm:p-6">
         <DialogHeader>
           <DialogTitle className="text-2xl">
-            {game.away_team.name} @ {game.home_team.name}
+            {game.away_team.name} {game.neutral_site ? 'vs' : '@'} {game.home_team.name}
           </DialogTitle>
           <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm text-gray-600">
             <span>{formattedDate} at {formattedTime}</span>
@@ -152,6 +168,15 @@ export function GameDetailsDialog({
                 </span>
               </>
             )}
+            {game.venue && (
+              <>
+                <span className="hidden sm:inline">•</span>
+                <span>
+                  {game.venue}
+                  {game.neutral_site && ' (neutral site)'}
+                </span>
+              </>
+            )}
           </div>
         </DialogHeader>
 
@@ -177,7 +202,6 @@ export function GameDetailsDialog({
             >
               <input type="hidden" name="gameId" value={game.id} />
               <input type="hidden" name="pickedTeamId" value={game.away_team.id} />
-              <input type="hidden" name="spread" value={game.spread || ""} />
               <input type="hidden" name="isPotd" value={userPick?.is_pick_of_day ? "true" : "false"} />
 
               <div className={cn(
@@ -258,7 +282,6 @@ export function GameDetailsDialog({
             >
               <input type="hidden" name="gameId" value={game.id} />
               <input type="hidden" name="pickedTeamId" value={game.home_team.id} />
-              <input type="hidden" name="spread" value={game.spread || ""} />
               <input type="hidden" name="isPotd" value={userPick?.is_pick_of_day ? "true" : "false"} />
 
               <div className={cn(
@@ -308,6 +331,46 @@ export function GameDetailsDialog({
           )}
         </div>
 
+        {lineMovement && (
+          <LineMovementPanel
+            movement={lineMovement}
+            homeTeam={game.home_team}
+            awayTeam={game.away_team}
+            pickedTeamId={userPick?.picked_team_id}
+            pickLine={pickLine}
+          />
+        )}
+
+        {game.pick_revisions && game.pick_revisions.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <History className="h-4 w-4" />
+              <span>Your Pick History</span>
+            </div>
+            <ol className="space-y-1 text-sm">
+              {[...game.pick_revisions]
+                .sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime())
+                .map((revision) => (
+                  <li key={revision.id} className="flex items-baseline justify-between gap-4">
+                    <span>{describePickRevision(revision, [game.away_team, game.home_team])}</span>
+                    <span className="text-xs text-gray-500 shrink-0" suppressHydrationWarning>
+                      {format(new Date(revision.changed_at), 'MMM d, h:mm:ss a')}
+                    </span>
+                  </li>
+                ))}
+            </ol>
+          </div>
+        )}
+
+        {game.bookmaker_lines && game.bookmaker_lines.length > 0 && (
+          <BookmakerLinesTable
+            lines={game.bookmaker_lines}
+            homeTeam={game.home_team}
+            awayTeam={game.away_team}
+            officialSource={game.line_source}
+          />
+        )}
+
         {/* AI Matchup Analysis Section */}
         <div className="space-y-4">
           <div className="flex items-center gap-2 text-sm font-semibold text-gray-700">
@@ -0,0 +1,60 @@
+import { useFetcher } from "react-router";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Users } from "lucide-react";
+import { cn } from "~/lib/utils";
+
+const GLOBAL_POOL = "__everyone__";
+
+interface LeagueSwitcherProps {
+  leagues: { id: string; name: string }[];
+  activeLeagueId: string | null;
+  className?: string;
+}
+
+/**
+ * Dropdown for switching the active league
+ * Posts to /leagues so every loader revalidates against the new scope
+ */
+export function LeagueSwitcher({ leagues, activeLeagueId, className }: LeagueSwitcherProps) {
+  const fetcher = useFetcher();
+
+  if (leagues.length === 0) return null;
+
+  const pendingLeagueId = fetcher.formData?.get("leagueId") as string | undefined;
+  const value = fetcher.state !== "idle" && pendingLeagueId !== undefined
+    ? pendingLeagueId || GLOBAL_POOL
+    : activeLeagueId || GLOBAL_POOL;
+
+  return (
+    <Select
+      value={value}
+      onValueChange={(next) => {
+        fetcher.submit(
+          { intent: "set-active", leagueId: next === GLOBAL_POOL ? "" : next },
+          { method: "post", action: "/leagues" }
+        );
+      }}
+    >
+      <SelectTrigger size="sm" className={cn("gap-2 max-w-[180px]", className)} aria-label="Active league">
+        <Users className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={GLOBAL_POOL}>Everyone</SelectItem>
+        <SelectSeparator />
+        {leagues.map((league) => (
+          <SelectItem key={league.id} value={league.id}>
+            {league.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
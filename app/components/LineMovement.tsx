@@ -0,0 +1,179 @@
+import { format } from "date-fns";
+import { ArrowRight } from "lucide-react";
+import { cn } from "~/lib/utils";
+import { formatLine, type LineMovement } from "~/lib/line-movement";
+
+interface Team {
+  id: string;
+  short_name: string;
+}
+
+interface LineMovementProps {
+  movement: LineMovement;
+  homeTeam: Team;
+  awayTeam: Team;
+}
+
+/**
+ * Pick which side to describe the line from: the current favorite
+ * (home when the line is a pick'em), so numbers read like a sportsbook.
+ */
+function perspective(movement: LineMovement, homeTeam: Team, awayTeam: Team) {
+  const homeView = movement.current.homeLine <= 0;
+  return {
+    team: homeView ? homeTeam : awayTeam,
+    sign: homeView ? 1 : -1,
+  };
+}
+
+/**
+ * Small SVG sparkline of the line over time
+ * SVG y grows downward, so the chart rises as the described favorite lays more points.
+ */
+export function LineMovementChart({
+  movement,
+  homeTeam,
+  awayTeam,
+  width = 64,
+  height = 18,
+  className,
+}: LineMovementProps & { width?: number; height?: number; className?: string }) {
+  const { sign } = perspective(movement, homeTeam, awayTeam);
+  const values = movement.points.map((p) => p.homeLine * sign);
+
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const pad = 2;
+
+  const coords = values.map((value, i) => {
+    const x = pad + (i / (values.length - 1)) * (width - pad * 2);
+    const y = pad + ((value - min) / range) * (height - pad * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const [lastX, lastY] = coords[coords.length - 1].split(",");
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn("text-purple-600 dark:text-purple-400", className)}
+      aria-hidden="true"
+    >
+      <polyline
+        points={coords.join(" ")}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={lastX} cy={lastY} r={2} fill="currentColor" />
+    </svg>
+  );
+}
+
+/**
+ * Compact "open → current" indicator for GameCard
+ */
+export function LineMovementIndicator({ movement, homeTeam, awayTeam }: LineMovementProps) {
+  if (movement.points.length < 2 || movement.delta === 0) return null;
+
+  const { team, sign } = perspective(movement, homeTeam, awayTeam);
+  const open = movement.open.homeLine * sign;
+  const current = movement.current.homeLine * sign;
+
+  return (
+    <div
+      className="flex items-center gap-1 text-[10px] font-mono text-slate-500 dark:text-slate-400"
+      title={`${team.short_name} opened ${formatLine(open)}, now ${formatLine(current)}`}
+    >
+      <span>{formatLine(open)}</span>
+      <ArrowRight className="h-2.5 w-2.5" />
+      <span className="font-semibold text-slate-700 dark:text-slate-300">{formatLine(current)}</span>
+      <LineMovementChart
+        movement={movement}
+        homeTeam={homeTeam}
+        awayTeam={awayTeam}
+        width={36}
+        height={12}
+      />
+    </div>
+  );
+}
+
+/**
+ * Full line-movement panel for GameDetailsDialog
+ * Shows open/current, the chart, and how the user's line compares to the market.
+ */
+export function LineMovementPanel({
+  movement,
+  homeTeam,
+  awayTeam,
+  pickedTeamId,
+  pickLine,
+}: LineMovementProps & { pickedTeamId?: string; pickLine?: number | null }) {
+  const { team, sign } = perspective(movement, homeTeam, awayTeam);
+  const open = movement.open.homeLine * sign;
+  const current = movement.current.homeLine * sign;
+
+  // Positive = the user's side now gets fewer points than when they picked (they beat the market)
+  const pickedTeam = pickedTeamId === homeTeam.id ? homeTeam : pickedTeamId === awayTeam.id ? awayTeam : null;
+  const currentPickedLine = pickedTeam
+    ? movement.current.homeLine * (pickedTeam.id === homeTeam.id ? 1 : -1)
+    : null;
+  const edge = pickLine != null && currentPickedLine != null ? pickLine - currentPickedLine : null;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold">Line Movement</span>
+        <span className="text-xs text-muted-foreground">
+          {movement.points.length} snapshot{movement.points.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+      <div className="flex items-center gap-4">
+        <div className="text-sm font-mono">
+          <span className="text-muted-foreground">{team.short_name} </span>
+          <span>{formatLine(open)}</span>
+          <ArrowRight className="inline h-3 w-3 mx-1" />
+          <span className="font-semibold">{formatLine(current)}</span>
+        </div>
+        <LineMovementChart
+          movement={movement}
+          homeTeam={homeTeam}
+          awayTeam={awayTeam}
+          width={160}
+          height={40}
+        />
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span suppressHydrationWarning>
+          Open {format(new Date(movement.open.capturedAt), "MMM d h:mm a")}
+        </span>
+        <span suppressHydrationWarning>
+          Latest {format(new Date(movement.current.capturedAt), "MMM d h:mm a")}
+        </span>
+      </div>
+      {pickedTeam && pickLine != null && edge !== null && (
+        <div
+          className={cn(
+            "text-xs font-medium",
+            edge > 0 && "text-green-600 dark:text-green-400",
+            edge < 0 && "text-red-600 dark:text-red-400",
+            edge === 0 && "text-muted-foreground"
+          )}
+        >
+          Your pick: {pickedTeam.short_name} {formatLine(pickLine)} vs market{" "}
+          {formatLine(currentPickedLine!)}
+          {edge > 0 && ` — beat the market by ${edge}`}
+          {edge < 0 && ` — current line is ${Math.abs(edge)} better`}
+        </div>
+      )}
+    </div>
+  );
+}
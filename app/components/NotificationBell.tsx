@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Link, useFetcher } from "react-router";
+import { Award, Bell, CheckCheck, Flame, Medal, Star, Trophy, TrendingUp } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Popover, PopoverContent, PopoverTrigger } from "~/components/ui/popover";
+import { Button } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+import type { AppNotification, NotificationType } from "~/lib/notifications";
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  pick_graded: CheckCheck,
+  potd_result: Star,
+  streak_milestone: Flame,
+  ranking_published: TrendingUp,
+  bracket_busted: Trophy,
+  badge_earned: Award,
+};
+
+/**
+ * One inbox row, shared by the bell and the /notifications page
+ * Opening a notification marks it read.
+ */
+export function NotificationItem({
+  notification,
+  onOpen,
+}: {
+  notification: AppNotification;
+  onOpen?: () => void;
+}) {
+  const fetcher = useFetcher();
+  const Icon = TYPE_ICONS[notification.type] ?? Medal;
+  const unread = !notification.read_at && fetcher.state === "idle" && !fetcher.data;
+
+  const markRead = () => {
+    if (!notification.read_at) {
+      fetcher.submit(
+        { intent: "mark-read", notificationId: notification.id },
+        { method: "post", action: "/notifications" }
+      );
+    }
+    onOpen?.();
+  };
+
+  const content = (
+    <div className={cn("flex gap-3 px-4 py-3", unread && "bg-blue-50/60 dark:bg-blue-950/30")}>
+      <Icon className={cn("h-4 w-4 mt-0.5 shrink-0", unread ? "text-blue-600" : "text-slate-400")} />
+      <div className="min-w-0 flex-1">
+        <p className={cn("text-sm", unread ? "font-semibold" : "font-medium text-slate-700 dark:text-slate-300")}>
+          {notification.title}
+        </p>
+        {notification.body && (
+          <p className="text-xs text-muted-foreground mt-0.5 truncate">{notification.body}</p>
+        )}
+        <p className="text-xs text-muted-foreground mt-1" suppressHydrationWarning>
+          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+        </p>
+      </div>
+      {unread && <span className="h-2 w-2 mt-1.5 rounded-full bg-blue-600 shrink-0" />}
+    </div>
+  );
+
+  if (notification.link) {
+    return (
+      <Link to={notification.link} onClick={markRead} className="block hover:bg-slate-50 dark:hover:bg-slate-800">
+        {content}
+      </Link>
+    );
+  }
+
+  return (
+    <button type="button" onClick={markRead} className="block w-full text-left hover:bg-slate-50 dark:hover:bg-slate-800">
+      {content}
+    </button>
+  );
+}
+
+interface NotificationBellProps {
+  notifications: AppNotification[];
+  unreadCount: number;
+  className?: string;
+}
+
+/**
+ * Nav bell with an unread badge and the latest notifications
+ */
+export function NotificationBell({ notifications, unreadCount, className }: NotificationBellProps) {
+  const fetcher = useFetcher();
+  const [open, setOpen] = useState(false);
+  const allRead = fetcher.formData?.get("intent") === "mark-all-read";
+  const badgeCount = allRead ? 0 : unreadCount;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={cn("relative", className)} title="Notifications">
+          <Bell className="h-4 w-4" />
+          {badgeCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] font-bold leading-4 text-white">
+              {badgeCount > 9 ? "9+" : badgeCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          {badgeCount > 0 && (
+            <fetcher.Form method="post" action="/notifications">
+              <input type="hidden" name="intent" value="mark-all-read" />
+              <button type="submit" className="text-xs text-blue-600 hover:underline dark:text-blue-400">
+                Mark all read
+              </button>
+            </fetcher.Form>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <NotificationItem
+                  notification={allRead ? { ...notification, read_at: notification.read_at ?? "now" } : notification}
+                  onOpen={() => setOpen(false)}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+        <Link
+          to="/notifications"
+          onClick={() => setOpen(false)}
+          className="block border-t px-4 py-2 text-center text-xs font-medium text-blue-600 hover:underline dark:text-blue-400"
+        >
+          See all
+        </Link>
+      </PopoverContent>
+    </Popover>
+  );
+}
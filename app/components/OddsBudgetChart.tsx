@@ -0,0 +1,102 @@
+import { format, getDaysInMonth, parseISO } from "date-fns";
+import { cn } from "~/lib/utils";
+
+export interface OddsBudgetPoint {
+  day: string;
+  remaining: number;
+}
+
+/**
+ * Burn-down of this month's Odds API credits
+ * The x axis spans the whole month: the solid line is the remaining balance so far,
+ * the dashed line runs from today to the projected month-end balance.
+ */
+export function OddsBudgetChart({
+  quota,
+  history,
+  projectedMonthEnd,
+  height = 160,
+  className,
+}: {
+  quota: number;
+  history: OddsBudgetPoint[];
+  projectedMonthEnd: number;
+  height?: number;
+  className?: string;
+}) {
+  if (history.length === 0) return null;
+
+  const monthStart = parseISO(history[0].day);
+  const days = getDaysInMonth(monthStart);
+
+  const width = 300;
+  const pad = 4;
+  const min = Math.min(0, projectedMonthEnd);
+  const max = Math.max(quota, ...history.map((point) => point.remaining));
+  const range = max - min || 1;
+
+  // Day n's balance is plotted at the end of that day
+  const toX = (dayIndex: number) => pad + (dayIndex / days) * (width - pad * 2);
+  const toY = (value: number) => pad + ((max - value) / range) * (height - pad * 2);
+
+  const coords = [
+    `${toX(0).toFixed(1)},${toY(quota).toFixed(1)}`,
+    ...history.map((point, i) => `${toX(i + 1).toFixed(1)},${toY(point.remaining).toFixed(1)}`),
+  ];
+  const last = history[history.length - 1];
+  const lastX = toX(history.length);
+  const lastY = toY(last.remaining);
+  const zeroY = toY(0).toFixed(1);
+  const onTrack = projectedMonthEnd >= 0;
+
+  return (
+    <div className={className}>
+      <svg
+        width="100%"
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="text-blue-600"
+        aria-label={`Odds API credits: ${last.remaining} left, ${projectedMonthEnd} projected at month end`}
+      >
+        <line
+          x1={pad}
+          x2={width - pad}
+          y1={zeroY}
+          y2={zeroY}
+          className="text-slate-300 dark:text-slate-700"
+          stroke="currentColor"
+          strokeDasharray="4 4"
+          vectorEffect="non-scaling-stroke"
+        />
+        <polyline
+          points={coords.join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+          vectorEffect="non-scaling-stroke"
+        />
+        <line
+          x1={lastX}
+          y1={lastY}
+          x2={toX(days)}
+          y2={toY(projectedMonthEnd)}
+          className={onTrack ? "text-slate-400" : "text-red-600"}
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          vectorEffect="non-scaling-stroke"
+        />
+        <circle cx={lastX} cy={lastY} r={3} fill="currentColor" />
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{format(monthStart, "MMM d")}</span>
+        <span className={cn(!onTrack && "text-red-600")}>
+          Projected month end: {projectedMonthEnd}
+        </span>
+      </div>
+    </div>
+  );
+}
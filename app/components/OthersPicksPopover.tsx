@@ -1,17 +1,22 @@
+import { Link } from "react-router";
 import { Popover, PopoverContent, PopoverTrigger } from "~/components/ui/popover";
 import { Badge } from "~/components/ui/badge";
-import { Eye, EyeOff, Star } from "lucide-react";
+import { Eye, EyeOff, Lock, MessageSquare, Star } from "lucide-react";
 import { cn } from "~/lib/utils";
+import { UsernameBadges } from "~/components/BadgeIcons";
+import type { BadgeSummary } from "~/lib/badges";
 
 interface Pick {
   id: string;
   picked_team_id: string;
   spread_at_pick_time: number;
-  result: "won" | "lost" | "push" | "pending" | null;
+  result: "won" | "lost" | "push" | "pending" | "void" | null;
   is_pick_of_day: boolean;
   user_id: string;
+  writeup?: { body: string } | null;
   profiles?: {
     username: string;
+    badges?: BadgeSummary[];
   };
 }
 
@@ -23,6 +28,8 @@ interface Team {
 
 interface OthersPicksPopoverProps {
   otherPicks: Pick[];
+  /** Total picks by others; sides are only loaded once the game locks */
+  pickCount: number;
   homeTeam: Team;
   awayTeam: Team;
   showOtherPick: boolean;
@@ -31,12 +38,28 @@ interface OthersPicksPopoverProps {
 
 export function OthersPicksPopover({
   otherPicks,
+  pickCount,
   homeTeam,
   awayTeam,
   showOtherPick,
   onToggle,
 }: OthersPicksPopoverProps) {
-  if (otherPicks.length === 0) return null;
+  if (otherPicks.length === 0) {
+    if (pickCount === 0) return null;
+
+    // Before tip-off only the count is known
+    return (
+      <span
+        className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400"
+        title="Picks are revealed when the game starts"
+      >
+        <Lock className="h-3 w-3" />
+        <span className="font-medium">
+          {pickCount} pick{pickCount !== 1 ? "s" : ""}
+        </span>
+      </span>
+    );
+  }
 
   const getResultColor = (result: Pick["result"]) => {
     switch (result) {
@@ -46,6 +69,8 @@ export function OthersPicksPopover({
         return "bg-red-500 text-white";
       case "push":
         return "bg-gray-500 text-white";
+      case "void":
+        return "bg-amber-100 text-amber-800 border border-amber-400 dark:bg-amber-950 dark:text-amber-300";
       default:
         return "bg-blue-500 text-white";
     }
@@ -87,8 +112,9 @@ export function OthersPicksPopover({
                   className="border-b pb-2 last:border-b-0 space-y-1"
                 >
                   <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">
+                    <span className="flex items-center gap-1 text-sm font-medium">
                       @{pick.profiles?.username || 'Unknown'}
+                      <UsernameBadges badges={pick.profiles?.badges} />
                     </span>
                     {pick.is_pick_of_day && (
                       <Badge className="bg-yellow-500 text-white text-xs px-1.5 py-0.5">
@@ -107,6 +133,15 @@ export function OthersPicksPopover({
                       </Badge>
                     )}
                   </div>
+                  {pick.writeup && (
+                    <Link
+                      to={`/feed/${pick.id}`}
+                      className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      <MessageSquare className="h-3 w-3" />
+                      Read write-up
+                    </Link>
+                  )}
                 </div>
               );
             })}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Link, useFetcher } from "react-router";
+import { MessageSquare, PenLine } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { WRITEUP_MAX_LENGTH } from "~/lib/writeups";
+import { cn } from "~/lib/utils";
+
+interface PickWriteupDialogProps {
+  pickId: string;
+  body: string | null;
+  isLocked: boolean;
+}
+
+/**
+ * Lets the user explain their pick before tip-off
+ * Once the game locks the write-up can't change, so this becomes a link to its feed page.
+ */
+export function PickWriteupDialog({ pickId, body, isLocked }: PickWriteupDialogProps) {
+  const fetcher = useFetcher<{ error?: string; message?: string }>();
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    if (fetcher.data.error) {
+      toast.error(fetcher.data.error);
+    } else if (fetcher.data.message) {
+      toast.success(fetcher.data.message);
+      setOpen(false);
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  if (isLocked) {
+    if (!body) return null;
+    return (
+      <Link
+        to={`/feed/${pickId}`}
+        className="p-1 text-slate-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400"
+        title="View write-up"
+      >
+        <MessageSquare className="h-3.5 w-3.5" />
+      </Link>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "p-1 transition-colors hover:text-blue-600 dark:hover:text-blue-400",
+            body ? "text-blue-600 dark:text-blue-400" : "text-slate-500 dark:text-slate-400"
+          )}
+          title={body ? "Edit write-up" : "Add a write-up"}
+        >
+          <PenLine className="h-3.5 w-3.5" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Why this pick?</DialogTitle>
+          <DialogDescription>
+            Others can read it once the game tips off. You can edit it until then.
+          </DialogDescription>
+        </DialogHeader>
+        <fetcher.Form method="post" action="/feed" className="space-y-4">
+          <input type="hidden" name="intent" value="save-writeup" />
+          <input type="hidden" name="pickId" value={pickId} />
+          <textarea
+            name="body"
+            defaultValue={body ?? ""}
+            maxLength={WRITEUP_MAX_LENGTH}
+            rows={5}
+            placeholder="Injuries, matchups, a hunch..."
+            className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <DialogFooter>
+            <Button type="submit" disabled={fetcher.state !== "idle"}>
+              Save
+            </Button>
+          </DialogFooter>
+        </fetcher.Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
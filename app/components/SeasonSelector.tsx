@@ -0,0 +1,57 @@
+import { useSearchParams } from "react-router";
+import { CalendarRange } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { cn } from "~/lib/utils";
+import type { Season } from "~/lib/seasons";
+
+interface SeasonSelectorProps {
+  seasons: Season[];
+  selectedSeasonId: number | null;
+  currentSeasonId: number | null;
+  className?: string;
+}
+
+/**
+ * Switches a season-aware page between seasons with ?season=; the current
+ * season is the default, so it clears the param
+ */
+export function SeasonSelector({ seasons, selectedSeasonId, currentSeasonId, className }: SeasonSelectorProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  if (seasons.length === 0) return null;
+
+  const handleChange = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (Number(value) === currentSeasonId) {
+      params.delete("season");
+    } else {
+      params.set("season", value);
+    }
+    setSearchParams(params);
+  };
+
+  return (
+    <Select value={selectedSeasonId ? String(selectedSeasonId) : undefined} onValueChange={handleChange}>
+      <SelectTrigger className={cn("w-40", className)} aria-label="Season">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="h-4 w-4 text-slate-500" />
+          <SelectValue placeholder="Season" />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {seasons.map((season) => (
+          <SelectItem key={season.id} value={String(season.id)}>
+            {season.name}
+            {season.id === currentSeasonId ? " (current)" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
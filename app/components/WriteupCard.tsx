@@ -0,0 +1,120 @@
+import { Link, useFetcher } from "react-router";
+import { format, isPast } from "date-fns";
+import { Card, CardContent } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Lock, MessageSquare } from "lucide-react";
+import { formatLine } from "~/lib/line-movement";
+import { cn } from "~/lib/utils";
+import { WRITEUP_REACTIONS } from "~/lib/writeups";
+import type { PickWriteup, WriteupPick } from "~/lib/writeups.server";
+
+/**
+ * "DUKE -3.5", "Over 148.5", "UNC ML +120"
+ */
+export function describeWriteupPick(pick: WriteupPick) {
+  const { home_team, away_team } = pick.game;
+  const team = pick.picked_team_id === home_team.id ? home_team : away_team;
+
+  if (pick.pick_type === "total") {
+    return `${pick.total_side === "over" ? "Over" : "Under"} ${pick.total_at_pick_time ?? ""}`.trim();
+  }
+  if (pick.pick_type === "moneyline") {
+    const odds = pick.odds_at_pick_time;
+    return `${team.short_name} ML${odds != null ? ` ${odds > 0 ? `+${odds}` : odds}` : ""}`;
+  }
+  return `${team.short_name} ${formatLine(Number(pick.spread_at_pick_time ?? 0))}`;
+}
+
+const RESULT_STYLES: Record<string, string> = {
+  won: "bg-green-500 text-white",
+  lost: "bg-red-500 text-white",
+  push: "bg-gray-500 text-white",
+  void: "bg-amber-100 text-amber-800 border border-amber-400 dark:bg-amber-950 dark:text-amber-300",
+};
+
+/**
+ * A pick's write-up with its reactions
+ * Reactions post to the /feed action so the card works on the feed and the detail page.
+ */
+export function WriteupCard({
+  writeup,
+  userId,
+  linkToReplies = true,
+}: {
+  writeup: PickWriteup;
+  userId: string;
+  linkToReplies?: boolean;
+}) {
+  const fetcher = useFetcher();
+  const { pick } = writeup;
+  const locked = pick.game.status !== "scheduled" || isPast(new Date(pick.game.game_date));
+
+  return (
+    <Card>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold">@{writeup.username}</span>
+            <Badge variant="outline" className="font-mono">
+              {describeWriteupPick(pick)}
+            </Badge>
+            {pick.result && RESULT_STYLES[pick.result] && (
+              <Badge className={cn(RESULT_STYLES[pick.result], "text-xs px-1.5 py-0.5")}>
+                {pick.result.toUpperCase()}
+              </Badge>
+            )}
+          </div>
+          <span className="text-xs text-muted-foreground" suppressHydrationWarning>
+            {pick.game.away_team.short_name} @ {pick.game.home_team.short_name} ·{" "}
+            {format(new Date(pick.game.game_date), "MMM d, h:mm a")}
+          </span>
+        </div>
+
+        <p className="text-sm whitespace-pre-line">{writeup.body}</p>
+
+        {!locked ? (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Lock className="h-3 w-3" />
+            Only you can see this until tip-off
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-1">
+            {WRITEUP_REACTIONS.map((emoji) => {
+              const count = writeup.reactions.filter((r) => r.emoji === emoji).length;
+              const mine = writeup.reactions.some((r) => r.emoji === emoji && r.user_id === userId);
+              return (
+                <fetcher.Form method="post" action="/feed" key={emoji}>
+                  <input type="hidden" name="intent" value="react" />
+                  <input type="hidden" name="pickId" value={writeup.pick_id} />
+                  <input type="hidden" name="emoji" value={emoji} />
+                  <button
+                    type="submit"
+                    disabled={fetcher.state !== "idle"}
+                    className={cn(
+                      "rounded-full border px-2 py-0.5 text-sm transition-colors",
+                      mine
+                        ? "border-blue-500 bg-blue-50 dark:bg-blue-950/30"
+                        : "border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+                    )}
+                  >
+                    {emoji}
+                    {count > 0 && <span className="ml-1 text-xs tabular-nums">{count}</span>}
+                  </button>
+                </fetcher.Form>
+              );
+            })}
+            {linkToReplies && (
+              <Link
+                to={`/feed/${writeup.pick_id}`}
+                className="ml-auto flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <MessageSquare className="h-3.5 w-3.5" />
+                {writeup.reply_count} {writeup.reply_count === 1 ? "reply" : "replies"}
+              </Link>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+// SeasonLeaderboard Component - Puzzles solved per player in a season
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '~/components/ui/table'
+import { SeasonSelector } from '~/components/SeasonSelector'
+import { cn } from '~/lib/utils'
+import type { Season } from '~/lib/seasons'
+
+export type LeaderboardEntry = {
+  user_id: string
+  username: string
+  played: number
+  solved: number
+  perfect: number
+  avg_mistakes: number
+}
+
+type SeasonLeaderboardProps = {
+  entries: LeaderboardEntry[]
+  currentUserId: string
+  seasons: Season[]
+  selectedSeasonId: number | null
+  currentSeasonId: number | null
+}
+
+export function SeasonLeaderboard({
+  entries,
+  currentUserId,
+  seasons,
+  selectedSeasonId,
+  currentSeasonId,
+}: SeasonLeaderboardProps) {
+  const selectedSeason = seasons.find((season) => season.id === selectedSeasonId)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Season Leaderboard</CardTitle>
+          <CardDescription>
+            {selectedSeason ? `${selectedSeason.name} puzzles solved` : 'Puzzles solved'}
+          </CardDescription>
+        </div>
+        <SeasonSelector
+          seasons={seasons}
+          selectedSeasonId={selectedSeasonId}
+          currentSeasonId={currentSeasonId}
+        />
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No finished puzzles this season yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-right">Solved</TableHead>
+                <TableHead className="text-right">Perfect</TableHead>
+                <TableHead className="text-right">Avg Mistakes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry, index) => (
+                <TableRow
+                  key={entry.user_id}
+                  className={cn(entry.user_id === currentUserId && 'bg-muted/50 font-medium')}
+                >
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>@{entry.username}</TableCell>
+                  <TableCell className="text-right">
+                    {entry.solved}/{entry.played}
+                  </TableCell>
+                  <TableCell className="text-right">{entry.perfect}</TableCell>
+                  <TableCell className="text-right">{Number(entry.avg_mistakes).toFixed(1)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
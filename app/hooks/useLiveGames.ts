@@ -0,0 +1,71 @@
+import { useEffect, useMemo, useState } from "react";
+import { useRouteLoaderData } from "react-router";
+import type { loader as rootLoader } from "~/root";
+import { createSupabaseClient } from "~/lib/supabase.client";
+import type { LiveGameFields } from "~/lib/live-scores";
+
+const FINAL_STATUSES = ["completed", "postponed", "cancelled"];
+
+// Realtime rejects an `in` filter with more than 100 values
+const MAX_FILTER_VALUES = 100;
+
+/**
+ * Keeps a slate's scores and statuses current over Supabase Realtime
+ * Subscribes to updates on the games that haven't finished, one channel per
+ * MAX_FILTER_VALUES games, and overlays them on the loader's games; a fresh loader
+ * result replaces the overlay.
+ *
+ * @returns The games with live scores and statuses
+ *
+ * @example
+ * ```tsx
+ * const liveGames = useLiveGames(games);
+ * ```
+ */
+export function useLiveGames<T extends LiveGameFields>(games: T[]): T[] {
+  const rootData = useRouteLoaderData<typeof rootLoader>("root");
+  const [updates, setUpdates] = useState<Record<string, LiveGameFields>>({});
+
+  // Loader data is at least as fresh as anything we've received
+  useEffect(() => {
+    setUpdates({});
+  }, [games]);
+
+  const watchedIds = games
+    .filter((game) => !FINAL_STATUSES.includes(game.status))
+    .map((game) => game.id)
+    .join(",");
+
+  useEffect(() => {
+    if (!watchedIds || !rootData?.supabaseEnv) return;
+
+    const supabase = createSupabaseClient(rootData.supabaseEnv.url, rootData.supabaseEnv.anonKey);
+    const ids = watchedIds.split(",");
+    const chunks = Array.from({ length: Math.ceil(ids.length / MAX_FILTER_VALUES) }, (_, i) =>
+      ids.slice(i * MAX_FILTER_VALUES, (i + 1) * MAX_FILTER_VALUES).join(",")
+    );
+
+    const channels = chunks.map((chunk) =>
+      supabase
+        .channel(`live-games:${chunk}`)
+        .on(
+          "postgres_changes",
+          { event: "UPDATE", schema: "public", table: "games", filter: `id=in.(${chunk})` },
+          (payload) => {
+            const { id, home_score, away_score, status } = payload.new as LiveGameFields;
+            setUpdates((current) => ({ ...current, [id]: { id, home_score, away_score, status } }));
+          }
+        )
+        .subscribe()
+    );
+
+    return () => {
+      channels.forEach((channel) => supabase.removeChannel(channel));
+    };
+  }, [watchedIds, rootData?.supabaseEnv]);
+
+  return useMemo(
+    () => games.map((game) => (updates[game.id] ? { ...game, ...updates[game.id] } : game)),
+    [games, updates]
+  );
+}
@@ -125,17 +125,3 @@ export function useMultipleTeamStats(
 
   return results
 }
-
-/**
- * Get current college basketball season
- * Season runs Nov-Apr, so use year of spring semester
- */
-export function getCurrentSeason(): number {
-  const now = new Date()
-  const month = now.getMonth() + 1 // 1-12
-  const year = now.getFullYear()
-
-  // If it's Aug-Dec, we're in fall of next season
-  // If it's Jan-Jul, we're in spring of current season
-  return month >= 8 ? year + 1 : year
-}
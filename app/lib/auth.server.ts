@@ -16,6 +16,22 @@ export async function requireAuth(request: Request) {
   return { user, supabase, headers }
 }
 
+export async function requireAdmin(request: Request) {
+  const auth = await requireAuth(request)
+
+  const { data: profile } = await auth.supabase
+    .from('profiles')
+    .select('is_admin')
+    .eq('id', auth.user.id)
+    .single()
+
+  if (!profile?.is_admin) {
+    throw new Response('Forbidden', { status: 403, headers: auth.headers })
+  }
+
+  return auth
+}
+
 export async function signUp(
   request: Request,
   email: string,
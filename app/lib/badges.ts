@@ -0,0 +1,67 @@
+/**
+ * Badge helpers shared by /metrics and the username badges in OthersPicksPopover
+ *
+ * Badges are awarded in the database by award_badges() (see 20251121000019_create_badges).
+ * Repeatable badges get one user_badges row per streak, week or month.
+ */
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  repeatable: boolean;
+  sort_order: number;
+}
+
+export interface EarnedBadge {
+  user_id: string;
+  badge_id: string;
+  period: string;
+  earned_on: string;
+}
+
+export interface BadgeSummary {
+  badge: BadgeDefinition;
+  count: number;
+  lastEarnedOn: string | null;
+}
+
+/**
+ * One entry per catalog badge with how many times it was earned, in catalog order
+ */
+export function summarizeBadges(badges: BadgeDefinition[], earned: EarnedBadge[]): BadgeSummary[] {
+  return [...badges]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((badge) => {
+      const rows = earned.filter((row) => row.badge_id === badge.id);
+      return {
+        badge,
+        count: rows.length,
+        lastEarnedOn: rows.reduce<string | null>(
+          (latest, row) => (!latest || row.earned_on > latest ? row.earned_on : latest),
+          null
+        ),
+      };
+    });
+}
+
+/**
+ * Groups earned badges by user, keeping only the badges each user holds
+ */
+export function groupBadgesByUser(
+  badges: BadgeDefinition[],
+  earned: EarnedBadge[]
+): Map<string, BadgeSummary[]> {
+  const byUser = new Map<string, EarnedBadge[]>();
+  earned.forEach((row) => {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) ?? []), row]);
+  });
+
+  return new Map(
+    [...byUser].map(([userId, rows]) => [
+      userId,
+      summarizeBadges(badges, rows).filter((summary) => summary.count > 0),
+    ])
+  );
+}
@@ -1,15 +1,16 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { BracketPicks } from '~/components/bracket-editor';
+import { getCurrentSeasonId } from '~/lib/seasons.server';
 
 export async function getCurrentSeasonTournament(supabase: SupabaseClient) {
-  const currentYear = new Date().getFullYear();
+  // The tournament is played in March of the year the season ends
+  const seasonId = await getCurrentSeasonId(supabase);
 
-  // Look for NCAA tournament for current or next year
   const { data: tournaments, error } = await supabase
     .from('tournaments')
     .select('*')
     .eq('type', 'ncaa')
-    .gte('year', currentYear)
+    .gte('year', seasonId)
     .order('year', { ascending: true })
     .limit(1);
 
@@ -23,12 +24,12 @@ export async function getCurrentSeasonTournament(supabase: SupabaseClient) {
     const { data: newTournament, error: createError } = await supabase
       .from('tournaments')
       .insert({
-        name: `${currentYear + 1} NCAA Tournament - Pre-Season Predictions`,
+        name: `${seasonId} NCAA Tournament - Pre-Season Predictions`,
         type: 'ncaa',
-        year: currentYear + 1,
+        year: seasonId,
         status: 'upcoming',
-        start_date: `${currentYear + 1}-03-18`,
-        end_date: `${currentYear + 1}-04-08`,
+        start_date: `${seasonId}-03-18`,
+        end_date: `${seasonId}-04-08`,
         location: 'Various',
         metadata: {
           regions: ['East', 'West', 'South', 'Midwest'],
@@ -0,0 +1,253 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export interface League {
+  id: string;
+  name: string;
+  owner_id: string;
+  invite_code: string;
+  invites_open: boolean;
+  max_members: number | null;
+  created_at: string;
+}
+
+export interface LeagueWithMembers extends League {
+  members: { user_id: string; role: "owner" | "member"; username: string }[];
+}
+
+/**
+ * The league that scopes the current view, plus its member IDs.
+ * `null` means the user is in the global pool.
+ */
+export interface ActiveLeague {
+  league: League;
+  memberIds: string[];
+}
+
+/**
+ * Fetches every league the user belongs to, with each league's roster
+ * @param supabase - Supabase client instance
+ * @param userId - The user's UUID
+ * @returns Leagues the user is a member of, oldest first
+ */
+export async function getUserLeagues(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<LeagueWithMembers[]> {
+  const { data: memberships, error } = await supabase
+    .from("league_members")
+    .select("league_id")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching league memberships:", error);
+    return [];
+  }
+
+  const leagueIds = (memberships || []).map((m) => m.league_id);
+  if (leagueIds.length === 0) return [];
+
+  const [leaguesResult, rosterResult] = await Promise.all([
+    supabase
+      .from("leagues")
+      .select("id, name, owner_id, invite_code, invites_open, max_members, created_at")
+      .in("id", leagueIds)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("league_members")
+      .select("league_id, user_id, role")
+      .in("league_id", leagueIds),
+  ]);
+
+  if (leaguesResult.error) {
+    console.error("Error fetching leagues:", leaguesResult.error);
+    return [];
+  }
+
+  const roster = rosterResult.data || [];
+  const memberUserIds = [...new Set(roster.map((m) => m.user_id))];
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select("id, username")
+    .in("id", memberUserIds);
+
+  const usernames = new Map<string, string>();
+  (profiles || []).forEach((p: { id: string; username: string }) => usernames.set(p.id, p.username));
+
+  return (leaguesResult.data || []).map((league: League) => ({
+    ...league,
+    members: roster
+      .filter((m) => m.league_id === league.id)
+      .map((m) => ({
+        user_id: m.user_id,
+        role: m.role,
+        username: usernames.get(m.user_id) || "Unknown",
+      })),
+  }));
+}
+
+/**
+ * Resolves the user's active league from their profile
+ * Falls back to the global pool if the stored league no longer includes the user
+ * @param supabase - Supabase client instance
+ * @param userId - The user's UUID
+ * @returns The active league and its member IDs, or null for the global pool
+ */
+export async function getActiveLeague(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ActiveLeague | null> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("active_league_id")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching active league:", error);
+    return null;
+  }
+
+  if (!profile?.active_league_id) return null;
+
+  const [leagueResult, membersResult] = await Promise.all([
+    supabase
+      .from("leagues")
+      .select("id, name, owner_id, invite_code, invites_open, max_members, created_at")
+      .eq("id", profile.active_league_id)
+      .maybeSingle(),
+    supabase
+      .from("league_members")
+      .select("user_id")
+      .eq("league_id", profile.active_league_id),
+  ]);
+
+  // RLS hides leagues the user has left, so a missing row means "not a member"
+  if (!leagueResult.data) return null;
+
+  const memberIds = (membersResult.data || []).map((m) => m.user_id);
+  if (!memberIds.includes(userId)) return null;
+
+  return { league: leagueResult.data as League, memberIds };
+}
+
+/**
+ * Sets (or clears) the league that scopes the user's views
+ * @param leagueId - League UUID, or null to switch back to the global pool
+ */
+export async function setActiveLeague(
+  supabase: SupabaseClient,
+  userId: string,
+  leagueId: string | null
+) {
+  if (leagueId) {
+    const { data: membership } = await supabase
+      .from("league_members")
+      .select("id")
+      .eq("league_id", leagueId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (!membership) {
+      throw new Error("You are not a member of this league");
+    }
+  }
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({ active_league_id: leagueId })
+    .eq("id", userId);
+
+  if (error) {
+    throw new Error(`Failed to set active league: ${error.message}`);
+  }
+}
+
+/**
+ * Creates a league owned by the user and makes it their active league
+ * The owner membership row is added by a database trigger
+ */
+export async function createLeague(
+  supabase: SupabaseClient,
+  userId: string,
+  input: { name: string; maxMembers: number | null }
+) {
+  const { data, error } = await supabase
+    .from("leagues")
+    .insert({
+      name: input.name,
+      owner_id: userId,
+      max_members: input.maxMembers,
+    })
+    .select("id, name, owner_id, invite_code, invites_open, max_members, created_at")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create league: ${error.message}`);
+  }
+
+  await setActiveLeague(supabase, userId, data.id);
+
+  return data as League;
+}
+
+/**
+ * Joins a league by invite code and makes it the user's active league
+ * @returns The joined league's UUID
+ */
+export async function joinLeague(
+  supabase: SupabaseClient,
+  userId: string,
+  inviteCode: string
+): Promise<string> {
+  const { data: leagueId, error } = await supabase.rpc("join_league_by_code", {
+    code: inviteCode,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  await setActiveLeague(supabase, userId, leagueId);
+
+  return leagueId as string;
+}
+
+/**
+ * Removes the user from a league; owners must delete the league instead
+ */
+export async function leaveLeague(
+  supabase: SupabaseClient,
+  userId: string,
+  leagueId: string
+) {
+  const { error } = await supabase
+    .from("league_members")
+    .delete()
+    .eq("league_id", leagueId)
+    .eq("user_id", userId)
+    .neq("role", "owner");
+
+  if (error) {
+    throw new Error(`Failed to leave league: ${error.message}`);
+  }
+}
+
+/**
+ * Updates league settings (owner only, enforced by RLS)
+ */
+export async function updateLeagueSettings(
+  supabase: SupabaseClient,
+  leagueId: string,
+  settings: { name?: string; invitesOpen?: boolean; maxMembers?: number | null }
+) {
+  const update: Record<string, unknown> = {};
+  if (settings.name !== undefined) update.name = settings.name;
+  if (settings.invitesOpen !== undefined) update.invites_open = settings.invitesOpen;
+  if (settings.maxMembers !== undefined) update.max_members = settings.maxMembers;
+
+  const { error } = await supabase.from("leagues").update(update).eq("id", leagueId);
+
+  if (error) {
+    throw new Error(`Failed to update league: ${error.message}`);
+  }
+}
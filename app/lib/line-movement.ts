@@ -0,0 +1,106 @@
+/**
+ * Line movement helpers shared by GameCard and GameDetailsDialog
+ *
+ * Snapshots store the spread unsigned plus the favorite, matching games.spread.
+ * For charting we convert each snapshot to a signed line from the home team's
+ * perspective (negative = home favored), so a favorite flip shows up as a
+ * line crossing zero instead of a jump.
+ */
+
+export interface LineSnapshot {
+  captured_at: string;
+  bookmaker: string;
+  spread: number;
+  favorite_team_id: string | null;
+}
+
+export interface LinePoint {
+  capturedAt: string;
+  homeLine: number;
+}
+
+export interface LineMovement {
+  points: LinePoint[];
+  open: LinePoint;
+  current: LinePoint;
+  /** Points the line moved toward the home team (negative = moved toward away team) */
+  delta: number;
+}
+
+/**
+ * Signed line for a team given an unsigned spread and the favorite
+ * Returns null when there is no favorite (pick'em or missing data)
+ */
+export function signedLineFor(
+  teamId: string,
+  spread: number | null,
+  favoriteTeamId: string | null
+): number | null {
+  if (spread === null || spread === undefined) return null;
+  if (!favoriteTeamId) return Number(spread) === 0 ? 0 : null;
+  return teamId === favoriteTeamId ? -Number(spread) : Number(spread);
+}
+
+/**
+ * Format a signed line the way the cards do ("-3.5", "+2", "PK")
+ */
+export function formatLine(line: number): string {
+  if (line === 0) return "PK";
+  return line > 0 ? `+${line}` : `${line}`;
+}
+
+/**
+ * Build the open -> current movement for a game from its snapshots
+ * @returns null when fewer than one usable snapshot exists
+ */
+export function getLineMovement(
+  snapshots: LineSnapshot[] | null | undefined,
+  homeTeamId: string
+): LineMovement | null {
+  const points = (snapshots || [])
+    .map((snapshot) => ({
+      capturedAt: snapshot.captured_at,
+      homeLine: signedLineFor(homeTeamId, snapshot.spread, snapshot.favorite_team_id),
+    }))
+    .filter((point): point is LinePoint => point.homeLine !== null)
+    .sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime());
+
+  if (points.length === 0) return null;
+
+  const open = points[0];
+  const current = points[points.length - 1];
+
+  return {
+    points,
+    open,
+    current,
+    delta: current.homeLine - open.homeLine,
+  };
+}
+
+/**
+ * Home-perspective line in effect at a given moment (latest snapshot at or before it)
+ */
+export function homeLineAt(movement: LineMovement, at: string): number {
+  const time = new Date(at).getTime();
+  let line = movement.open.homeLine;
+  for (const point of movement.points) {
+    if (new Date(point.capturedAt).getTime() > time) break;
+    line = point.homeLine;
+  }
+  return line;
+}
+
+/**
+ * One bookmaker's current line for a game (bookmaker "consensus" is the median row)
+ */
+export interface BookmakerLine {
+  bookmaker: string;
+  spread: number | null;
+  favorite_team_id: string | null;
+  total: number | null;
+  home_moneyline: number | null;
+  away_moneyline: number | null;
+}
+
+export const CONSENSUS_SOURCE = "consensus";
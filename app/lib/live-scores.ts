@@ -0,0 +1,78 @@
+/**
+ * Live score helpers for the slate
+ *
+ * update-scores writes in-progress scores to games; the slate subscribes to those
+ * rows over Supabase Realtime (useLiveGames) and works out from the current score
+ * whether each of the viewer's picks would win if the game ended now. Grading
+ * still happens in the database (grade_pick_results()).
+ */
+
+export type LiveGameFields = {
+  id: string;
+  home_score: number | null;
+  away_score: number | null;
+  status: "scheduled" | "in_progress" | "completed" | "postponed" | "cancelled";
+};
+
+export type CoverStatus = "covering" | "not_covering" | "push";
+
+type LivePick = {
+  picked_team_id: string;
+  spread_at_pick_time: number | null;
+  pick_type?: "spread" | "total" | "moneyline";
+  total_side?: "over" | "under" | null;
+  total_at_pick_time?: number | null;
+};
+
+type LiveGame = LiveGameFields & {
+  home_team_id: string;
+};
+
+export type LiveTally = {
+  covering: number;
+  notCovering: number;
+  final: number;
+};
+
+/**
+ * Whether a pick is covering at the current score, or null before tip-off
+ * Moneylines "cover" by leading, totals by being on the right side of the number.
+ */
+export function getCoverStatus(pick: LivePick, game: LiveGame): CoverStatus | null {
+  if (game.status !== "in_progress" && game.status !== "completed") return null;
+  if (game.home_score === null || game.away_score === null) return null;
+
+  let margin: number;
+  if (pick.pick_type === "total") {
+    if (pick.total_at_pick_time == null) return null;
+    const overBy = game.home_score + game.away_score - Number(pick.total_at_pick_time);
+    margin = pick.total_side === "under" ? -overBy : overBy;
+  } else {
+    const pickedIsHome = pick.picked_team_id === game.home_team_id;
+    const lead = pickedIsHome ? game.home_score - game.away_score : game.away_score - game.home_score;
+    margin = pick.pick_type === "moneyline" ? lead : lead + Number(pick.spread_at_pick_time ?? 0);
+  }
+
+  if (margin > 0) return "covering";
+  if (margin < 0) return "not_covering";
+  return "push";
+}
+
+/**
+ * Counts the viewer's picks that are covering or not in live games, and those on finished games
+ */
+export function tallyLivePicks(entries: { pick: LivePick; game: LiveGame }[]): LiveTally {
+  const tally: LiveTally = { covering: 0, notCovering: 0, final: 0 };
+
+  for (const { pick, game } of entries) {
+    if (game.status === "completed") {
+      tally.final++;
+      continue;
+    }
+    const status = getCoverStatus(pick, game);
+    if (status === "covering") tally.covering++;
+    if (status === "not_covering") tally.notCovering++;
+  }
+
+  return tally;
+}
@@ -1,5 +1,11 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 
+export type GameSite = "home" | "away" | "neutral";
+
+// Recent games shown per team; splits use a longer window so each site has a sample
+const RECENT_GAMES_SHOWN = 10;
+const SPLIT_GAMES = 30;
+
 export type TeamMatchupData = {
   id: string;
   name: string;
@@ -37,12 +43,14 @@ export type TeamMatchupData = {
     game_date: string;
     opponent_name: string;
     opponent_short_name: string;
-    was_home: boolean;
+    site: GameSite;
     team_score: number | null;
     opponent_score: number | null;
     result: "won" | "lost" | null;
     point_differential: number | null;
   }>;
+  /** Won-lost record by site over the last SPLIT_GAMES completed games */
+  siteSplits: Record<GameSite, { wins: number; losses: number }>;
   injuries: Array<{
     player_name: string;
     status: string;
@@ -63,6 +71,8 @@ export type MatchupData = {
     spread: number | null;
     favorite_team_id: string | null;
     status: string;
+    venue: string | null;
+    neutral_site: boolean;
   };
   homeTeam: TeamMatchupData;
   awayTeam: TeamMatchupData;
@@ -85,6 +95,8 @@ export async function getMatchupData(
       spread,
       favorite_team_id,
       status,
+      venue,
+      neutral_site,
       home_team_id,
       away_team_id,
       home_team:teams!games_home_team_id_fkey(
@@ -114,8 +126,8 @@ export async function getMatchupData(
   const awayTeamStats = await getTeamStats(supabase, game.away_team_id);
 
   // 3. Get recent games for both teams
-  const homeRecentGames = await getRecentGames(supabase, game.home_team_id, 10);
-  const awayRecentGames = await getRecentGames(supabase, game.away_team_id, 10);
+  const homeRecentGames = await getRecentGames(supabase, game.home_team_id, SPLIT_GAMES);
+  const awayRecentGames = await getRecentGames(supabase, game.away_team_id, SPLIT_GAMES);
 
   // 4. Get injuries for both teams
   const homeInjuries = await getTeamInjuries(supabase, game.home_team_id);
@@ -138,6 +150,8 @@ export async function getMatchupData(
       spread: game.spread,
       favorite_team_id: game.favorite_team_id,
       status: game.status,
+      venue: game.venue,
+      neutral_site: game.neutral_site,
     },
     homeTeam: {
       id: homeTeam.id,
@@ -145,7 +159,8 @@ export async function getMatchupData(
       short_name: homeTeam.short_name,
       conference: homeConference,
       stats: homeTeamStats,
-      recentGames: homeRecentGames,
+      recentGames: homeRecentGames.slice(0, RECENT_GAMES_SHOWN),
+      siteSplits: summarizeSiteSplits(homeRecentGames),
       injuries: homeInjuries,
       recentNews: homeNews,
     },
@@ -155,7 +170,8 @@ export async function getMatchupData(
       short_name: awayTeam.short_name,
       conference: awayConference,
       stats: awayTeamStats,
-      recentGames: awayRecentGames,
+      recentGames: awayRecentGames.slice(0, RECENT_GAMES_SHOWN),
+      siteSplits: summarizeSiteSplits(awayRecentGames),
       injuries: awayInjuries,
       recentNews: awayNews,
     },
@@ -201,6 +217,7 @@ async function getRecentGames(
       away_team_id,
       home_score,
       away_score,
+      neutral_site,
       home_team:teams!games_home_team_id_fkey(name, short_name),
       away_team:teams!games_away_team_id_fkey(name, short_name)
     `
@@ -217,7 +234,7 @@ async function getRecentGames(
     return [];
   }
 
-  // Transform to indicate whether team was home/away and the result
+  // Transform to indicate where the team played and the result
   return games.map((game) => {
     const wasHome = game.home_team_id === teamId;
     const teamScore = wasHome ? game.home_score : game.away_score;
@@ -231,7 +248,7 @@ async function getRecentGames(
       game_date: game.game_date,
       opponent_name: opponent.name,
       opponent_short_name: opponent.short_name,
-      was_home: wasHome,
+      site: game.neutral_site ? ("neutral" as const) : wasHome ? ("home" as const) : ("away" as const),
       team_score: teamScore,
       opponent_score: opponentScore,
       result:
@@ -248,6 +265,26 @@ async function getRecentGames(
   });
 }
 
+/**
+ * Won-lost record at home, away and on neutral floors
+ */
+function summarizeSiteSplits(
+  games: TeamMatchupData["recentGames"]
+): TeamMatchupData["siteSplits"] {
+  const splits: TeamMatchupData["siteSplits"] = {
+    home: { wins: 0, losses: 0 },
+    away: { wins: 0, losses: 0 },
+    neutral: { wins: 0, losses: 0 },
+  };
+
+  for (const game of games) {
+    if (game.result === "won") splits[game.site].wins++;
+    if (game.result === "lost") splits[game.site].losses++;
+  }
+
+  return splits;
+}
+
 /**
  * Get active injuries for a team
  */
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NOTIFICATION_TYPES, type AppNotification, type NotificationType } from "~/lib/notifications";
+
+/**
+ * Fetches the user's most recent notifications, newest first
+ * @param supabase - Supabase client instance (RLS limits rows to the current user)
+ * @param limit - Maximum number of notifications to return
+ */
+export async function getNotifications(
+  supabase: SupabaseClient,
+  limit = 20
+): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id, type, title, body, link, read_at, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching notifications:", error);
+    return [];
+  }
+
+  return (data || []) as AppNotification[];
+}
+
+/**
+ * Counts the user's unread notifications
+ */
+export async function getUnreadNotificationCount(supabase: SupabaseClient): Promise<number> {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .is("read_at", null);
+
+  if (error) {
+    console.error("Error counting unread notifications:", error);
+    return 0;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Marks notifications read
+ * @param notificationIds - Notifications to mark, or null for all of the user's notifications
+ * @returns Number of notifications that were unread
+ */
+export async function markNotificationsRead(
+  supabase: SupabaseClient,
+  notificationIds: string[] | null
+): Promise<number> {
+  const { data, error } = await supabase.rpc("mark_notifications_read", {
+    notification_ids: notificationIds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+
+  return (data as number) ?? 0;
+}
+
+/**
+ * Fetches the notification types the user has muted
+ */
+export async function getMutedNotificationTypes(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<NotificationType[]> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("muted_notification_types")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching muted notification types:", error);
+    return [];
+  }
+
+  return (data?.muted_notification_types || []) as NotificationType[];
+}
+
+/**
+ * Saves which notification types are muted, ignoring unknown types
+ */
+export async function setMutedNotificationTypes(
+  supabase: SupabaseClient,
+  userId: string,
+  mutedTypes: string[]
+): Promise<void> {
+  const known = new Set<string>(NOTIFICATION_TYPES.map((t) => t.type));
+
+  const { error } = await supabase.from("notification_preferences").upsert(
+    {
+      user_id: userId,
+      muted_notification_types: mutedTypes.filter((type) => known.has(type)),
+    },
+    { onConflict: "user_id" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save notification settings: ${error.message}`);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Notification types shared by the inbox, the bell and the mute settings
+ * Keep in sync with the CHECK constraint on notifications.type.
+ */
+
+export const NOTIFICATION_TYPES = [
+  { type: "pick_graded", label: "Pick graded", description: "When a spread, total or moneyline pick is graded" },
+  { type: "potd_result", label: "Pick of the Day result", description: "When your Pick of the Day wins or loses" },
+  { type: "streak_milestone", label: "Streak milestones", description: "3, 5, 10... straight wins against the spread" },
+  { type: "ranking_published", label: "Rankings from people you follow", description: "When someone you follow publishes a ranking" },
+  { type: "bracket_busted", label: "Bracket busts", description: "When a bracket pick loses or your champion is knocked out" },
+  { type: "badge_earned", label: "Badges", description: "When you earn a badge for a streak, a perfect week or another milestone" },
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number]["type"];
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
@@ -0,0 +1,94 @@
+/**
+ * Pick revision helpers shared by GameDetailsDialog and the admin pick audit
+ *
+ * Revisions are written by a trigger on picks (see 20251121000016_create_pick_revisions).
+ * old_line/new_line hold whichever line the pick type uses: the signed spread, the
+ * total, or American odds for moneyline picks.
+ */
+import { formatLine } from "~/lib/line-movement";
+
+export interface PickRevision {
+  id: string;
+  pick_id: string;
+  user_id: string;
+  pick_type: "spread" | "total" | "moneyline";
+  change_type: "created" | "updated" | "deleted";
+  old_picked_team_id: string | null;
+  new_picked_team_id: string | null;
+  old_total_side: "over" | "under" | null;
+  new_total_side: "over" | "under" | null;
+  old_line: number | null;
+  new_line: number | null;
+  old_is_pick_of_day: boolean | null;
+  new_is_pick_of_day: boolean | null;
+  old_stake: number | null;
+  new_stake: number | null;
+  changed_at: string;
+}
+
+interface RevisionTeam {
+  id: string;
+  short_name: string;
+}
+
+/**
+ * Describe one side of a revision ("DUKE -3.5", "Over 145.5", "UNC +120 ML")
+ * @returns null when that side is empty (before a create, after a delete)
+ */
+export function describeRevisionSide(
+  revision: PickRevision,
+  side: "old" | "new",
+  teams: RevisionTeam[]
+): string | null {
+  const teamId = side === "old" ? revision.old_picked_team_id : revision.new_picked_team_id;
+  const totalSide = side === "old" ? revision.old_total_side : revision.new_total_side;
+  const rawLine = side === "old" ? revision.old_line : revision.new_line;
+  const line = rawLine === null ? null : Number(rawLine);
+
+  if (revision.pick_type === "total") {
+    if (!totalSide) return null;
+    return `${totalSide === "over" ? "Over" : "Under"}${line !== null ? ` ${line}` : ""}`;
+  }
+
+  if (!teamId) return null;
+  const team = teams.find((t) => t.id === teamId)?.short_name ?? "Unknown";
+
+  if (revision.pick_type === "moneyline") {
+    const odds = line !== null ? ` ${line > 0 ? `+${line}` : line}` : "";
+    return `${team}${odds} ML`;
+  }
+
+  return line !== null ? `${team} ${formatLine(line)}` : team;
+}
+
+/**
+ * One-line summary of what changed in a revision
+ */
+export function describePickRevision(revision: PickRevision, teams: RevisionTeam[]): string {
+  const before = describeRevisionSide(revision, "old", teams);
+  const after = describeRevisionSide(revision, "new", teams);
+
+  if (revision.change_type === "created") {
+    return `Picked ${after}${revision.new_is_pick_of_day ? " (Pick of the Day)" : ""}`;
+  }
+  if (revision.change_type === "deleted") {
+    return `Removed ${before}`;
+  }
+
+  const changes: string[] = [];
+  if (before !== after) {
+    changes.push(`${before} → ${after}`);
+  }
+  if (Boolean(revision.old_is_pick_of_day) !== Boolean(revision.new_is_pick_of_day)) {
+    changes.push(revision.new_is_pick_of_day ? "made Pick of the Day" : "removed Pick of the Day");
+  }
+  if (revision.old_stake !== null && revision.new_stake !== null && Number(revision.old_stake) !== Number(revision.new_stake)) {
+    changes.push(`stake ${Number(revision.old_stake)}u → ${Number(revision.new_stake)}u`);
+  }
+
+  return changes.length > 0 ? capitalize(changes.join(", ")) : "Updated";
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
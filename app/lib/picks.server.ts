@@ -0,0 +1,192 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { signedLineFor } from "~/lib/line-movement";
+import { DEFAULT_STAKE, parseStake } from "~/lib/stakes";
+
+export type PickType = "spread" | "total" | "moneyline";
+
+/** SQLSTATE raised by enforce_pick_lock() when a pick's game has started */
+export const PICK_LOCKED_ERROR_CODE = "PT423";
+export type TotalSide = "over" | "under";
+
+export interface SavePickInput {
+  gameId: string;
+  pickType: PickType;
+  pickedTeamId?: string | null;
+  totalSide?: TotalSide | null;
+  isPotd?: boolean;
+  stake?: number;
+}
+
+/**
+ * Reads the pick fields posted by GameCard's pick forms
+ * Forms without a pickType are spread picks (the original form shape)
+ * @param formData - Submitted form data
+ * @returns Parsed pick input
+ */
+export function parsePickForm(formData: FormData): SavePickInput {
+  const rawPickType = formData.get("pickType");
+  const pickType: PickType =
+    rawPickType === "total" || rawPickType === "moneyline" ? rawPickType : "spread";
+  const totalSide = formData.get("totalSide");
+
+  return {
+    gameId: formData.get("gameId") as string,
+    pickType,
+    pickedTeamId: formData.get("pickedTeamId") as string | null,
+    totalSide: totalSide === "over" || totalSide === "under" ? totalSide : null,
+    isPotd: formData.get("isPotd") === "true",
+    stake: parseStake(formData.get("stake")),
+  };
+}
+
+/**
+ * Saves a spread, totals or moneyline pick for a user, replacing their existing pick of the same type
+ * Every type locks in the game's current number. Spread picks store the signed line for the
+ * picked side, read from the game row rather than the form, so grading never depends on
+ * which team is favored later. Pick of the Day only applies to spread picks.
+ * @param supabase - Supabase client instance
+ * @param userId - The user's UUID
+ * @param input - Pick to save
+ * @returns An error message for the user, or null on success
+ */
+export async function savePick(
+  supabase: SupabaseClient,
+  userId: string,
+  input: SavePickInput
+): Promise<string | null> {
+  const { gameId, pickType } = input;
+
+  if (!gameId) {
+    return "Missing required fields";
+  }
+  if ((pickType === "spread" || pickType === "moneyline") && !input.pickedTeamId) {
+    return "Missing required fields";
+  }
+  if (pickType === "total" && !input.totalSide) {
+    return "Pick over or under";
+  }
+
+  // Check if game has started (locked); enforce_pick_lock() is the authoritative check
+  const { data: game } = await supabase
+    .from("games")
+    .select("game_date, status, spread, favorite_team_id, total, home_team_id, home_moneyline, away_moneyline")
+    .eq("id", gameId)
+    .single();
+
+  if (!game) {
+    return "Game not found";
+  }
+
+  if (game.status !== "scheduled" || new Date(game.game_date) < new Date()) {
+    return "Game has already started";
+  }
+
+  if (pickType === "total" && game.total === null) {
+    return "No total posted for this game yet";
+  }
+
+  // Games without a posted spread are picked straight up (a line of 0)
+  const line =
+    pickType === "spread" && input.pickedTeamId
+      ? signedLineFor(input.pickedTeamId, game.spread ?? 0, game.favorite_team_id)
+      : null;
+
+  if (pickType === "spread" && line === null) {
+    return "The spread for this game is missing a favorite; try again after the next odds update";
+  }
+
+  const odds =
+    input.pickedTeamId === game.home_team_id ? game.home_moneyline : game.away_moneyline;
+
+  if (pickType === "moneyline" && odds === null) {
+    return "No moneyline posted for this game yet";
+  }
+
+  const pick = {
+    pick_type: pickType,
+    picked_team_id: pickType === "total" ? null : input.pickedTeamId,
+    spread_at_pick_time: pickType === "spread" ? line : null,
+    total_side: pickType === "total" ? input.totalSide : null,
+    total_at_pick_time: pickType === "total" ? game.total : null,
+    odds_at_pick_time: pickType === "moneyline" ? odds : null,
+    is_pick_of_day: pickType === "spread" ? (input.isPotd ?? false) : false,
+    stake: input.stake ?? DEFAULT_STAKE,
+  };
+
+  // Upsert pick (update if exists, insert if not)
+  const { error } = await supabase.from("picks").upsert(
+    {
+      user_id: userId,
+      game_id: gameId,
+      result: "pending",
+      updated_at: new Date().toISOString(),
+      ...pick,
+    },
+    {
+      onConflict: "user_id,game_id,pick_type",
+    }
+  );
+
+  if (error) {
+    console.error("Error saving pick:", error);
+
+    // The database rejects writes once the game locks, even if it tipped off after the check above
+    if (error.code === PICK_LOCKED_ERROR_CODE) {
+      return "Game has already started";
+    }
+
+    // Handle POTD constraint violation with user-friendly message
+    if (error.code === "23505" && error.message?.includes("idx_one_potd_per_user_per_day")) {
+      return "You already have a Pick of the Day for games on this date. Unmark your current POTD first.";
+    }
+
+    return error.message;
+  }
+
+  return null;
+}
+
+/**
+ * Carries a voided pick over to the game that replaced its postponed game
+ * The selection is kept, but it locks in the rescheduled game's current number like any
+ * new pick. Pick of the Day isn't carried since the new date may already have one.
+ * @param supabase - Supabase client instance
+ * @param userId - The user's UUID
+ * @param pickId - The voided pick on the original game
+ * @returns An error message for the user, or null on success
+ */
+export async function keepRescheduledPick(
+  supabase: SupabaseClient,
+  userId: string,
+  pickId: string
+): Promise<string | null> {
+  const { data: voided } = await supabase
+    .from("picks")
+    .select("game_id, pick_type, picked_team_id, total_side, stake")
+    .eq("id", pickId)
+    .eq("user_id", userId)
+    .eq("result", "void")
+    .maybeSingle();
+
+  if (!voided) {
+    return "Voided pick not found";
+  }
+
+  const { data: replacement } = await supabase
+    .from("games")
+    .select("id")
+    .eq("rescheduled_from_game_id", voided.game_id)
+    .maybeSingle();
+
+  if (!replacement) {
+    return "This game hasn't been rescheduled yet";
+  }
+
+  return savePick(supabase, userId, {
+    gameId: replacement.id,
+    pickType: voided.pick_type as PickType,
+    pickedTeamId: voided.picked_team_id,
+    totalSide: voided.total_side as TotalSide | null,
+    stake: Number(voided.stake),
+  });
+}
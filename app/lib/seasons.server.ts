@@ -0,0 +1,87 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Season } from "~/lib/seasons";
+
+/**
+ * The seasons a page can show, the current one and the one picked with ?season=
+ */
+export interface SeasonContext {
+  seasons: Season[];
+  currentSeason: Season | null;
+  selectedSeason: Season | null;
+}
+
+/**
+ * Fetches every season, newest first
+ */
+export async function getSeasons(supabase: SupabaseClient): Promise<Season[]> {
+  const { data, error } = await supabase
+    .from("seasons")
+    .select("id, name, start_date, end_date")
+    .order("start_date", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching seasons:", error);
+    return [];
+  }
+
+  return (data || []) as Season[];
+}
+
+/**
+ * The season today belongs to (the upcoming one during the offseason)
+ * @returns The season year, e.g. 2026 for 2025-26
+ */
+export async function getCurrentSeasonId(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc("current_season_id");
+
+  if (error || data === null) {
+    throw new Error(`Failed to determine the current season: ${error?.message ?? "no seasons"}`);
+  }
+
+  return data as number;
+}
+
+/**
+ * Resolves the seasons for a season-aware page from the request's ?season= param,
+ * falling back to the current season when it's missing or unknown
+ */
+export async function getSeasonContext(
+  supabase: SupabaseClient,
+  request: Request
+): Promise<SeasonContext> {
+  // current_season_id adds the season's row when it's new, so it has to run before the list is read
+  const { data: currentSeasonId, error } = await supabase.rpc("current_season_id");
+
+  if (error) {
+    console.error("Error fetching current season:", error);
+  }
+
+  const seasons = await getSeasons(supabase);
+
+  const currentSeason = seasons.find((season) => season.id === currentSeasonId) ?? seasons[0] ?? null;
+  const requested = Number(new URL(request.url).searchParams.get("season"));
+  const selectedSeason = seasons.find((season) => season.id === requested) ?? currentSeason;
+
+  return { seasons, currentSeason, selectedSeason };
+}
+
+/**
+ * First and last slate dates that count toward a season, offseason included
+ */
+export async function getSeasonDateRange(
+  supabase: SupabaseClient,
+  seasonId: number
+): Promise<{ from: string; to: string } | null> {
+  const { data, error } = await supabase
+    .from("season_date_ranges")
+    .select("from_date, to_date")
+    .eq("season_id", seasonId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching season dates:", error);
+    return null;
+  }
+
+  return data ? { from: data.from_date, to: data.to_date } : null;
+}
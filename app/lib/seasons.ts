@@ -0,0 +1,30 @@
+/**
+ * Season helpers shared by the season selector and the server
+ *
+ * Seasons are keyed by the year they end (2026 = 2025-26), like team_stats.season.
+ * Which season a date belongs to is decided in the database (season_for_date), where
+ * offseason dates count toward the next season.
+ */
+
+export interface Season {
+  id: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * "2025-26" for 2026, for places that only have the season year
+ */
+export function formatSeason(seasonId: number): string {
+  return `${seasonId - 1}-${String(seasonId).slice(-2)}`;
+}
+
+/**
+ * Week of the season (1-20) for a date, counting from opening night
+ */
+export function getSeasonWeek(season: Season, date: Date = new Date()): number {
+  const start = new Date(`${season.start_date}T00:00:00`);
+  const weeksSinceStart = Math.floor((date.getTime() - start.getTime()) / (7 * 24 * 60 * 60 * 1000));
+  return Math.max(1, Math.min(20, weeksSinceStart + 1));
+}
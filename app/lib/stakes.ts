@@ -0,0 +1,31 @@
+/**
+ * Unit staking helpers shared by the pick forms and the server
+ *
+ * Stakes are 0.5-5 units in half-unit steps, matching the picks_stake_range
+ * check. Units settle at -110 for spread/totals and the locked-in odds for
+ * moneyline (see pick_units() in the database).
+ */
+
+export const STAKE_OPTIONS = [0.5, 1, 2, 3, 4, 5] as const;
+export const DEFAULT_STAKE = 1;
+export const MIN_STAKE = 0.5;
+export const MAX_STAKE = 5;
+
+/**
+ * Clamps a posted stake to the allowed range, falling back to 1 unit
+ */
+export function parseStake(value: FormDataEntryValue | null): number {
+  const stake = Number(value);
+  if (value === null || value === "" || !Number.isFinite(stake)) {
+    return DEFAULT_STAKE;
+  }
+  return Math.min(MAX_STAKE, Math.max(MIN_STAKE, Math.round(stake * 2) / 2));
+}
+
+/**
+ * Signed units, e.g. "+1.82u" / "-2.00u"
+ */
+export function formatUnits(units: number | string | null): string {
+  const value = Number(units || 0);
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}u`;
+}
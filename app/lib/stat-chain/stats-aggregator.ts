@@ -1,6 +1,7 @@
 // Stats Aggregator - Fetches and combines statistics from multiple sources
 
 import type { SupabaseClient } from '@supabase/supabase-js'
+import { getCurrentSeasonId } from '../seasons.server'
 
 export type TeamWithStats = {
   id: string
@@ -49,7 +50,7 @@ export class StatsAggregator {
    * Fetch comprehensive statistics for a set of teams
    */
   async getTeamsWithStats(teamIds: string[], season?: number): Promise<TeamWithStats[]> {
-    const currentSeason = season || this.getCurrentSeason()
+    const currentSeason = season || (await getCurrentSeasonId(this.supabase))
 
     // Fetch teams with conference info
     const { data: teams, error: teamsError } = await this.supabase
@@ -138,7 +139,7 @@ export class StatsAggregator {
    * Get all teams with stats for puzzle generation
    */
   async getAllTeamsWithStats(season?: number): Promise<TeamWithStats[]> {
-    const currentSeason = season || this.getCurrentSeason()
+    const currentSeason = season || (await getCurrentSeasonId(this.supabase))
 
     // Fetch all teams
     const { data: teams, error: teamsError } = await this.supabase
@@ -170,7 +171,7 @@ export class StatsAggregator {
     conferenceName: string,
     season?: number
   ): Promise<TeamWithStats[]> {
-    const currentSeason = season || this.getCurrentSeason()
+    const currentSeason = season || (await getCurrentSeasonId(this.supabase))
 
     const { data: teams, error: teamsError } = await this.supabase
       .from('teams')
@@ -203,7 +204,7 @@ export class StatsAggregator {
     max: number,
     season?: number
   ): Promise<TeamWithStats[]> {
-    const currentSeason = season || this.getCurrentSeason()
+    const currentSeason = season || (await getCurrentSeasonId(this.supabase))
 
     // Map stat name to column
     const columnMap: Record<string, string> = {
@@ -244,12 +245,4 @@ export class StatsAggregator {
     const teamIds = [...new Set(stats.map((s) => s.team_id))]
     return this.getTeamsWithStats(teamIds, season)
   }
-
-  private getCurrentSeason(): number {
-    const now = new Date()
-    const month = now.getMonth() + 1
-    const year = now.getFullYear()
-    // Season rolls over in August
-    return month >= 8 ? year + 1 : year
-  }
 }
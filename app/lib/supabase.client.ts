@@ -1,8 +1,10 @@
 import { createBrowserClient } from '@supabase/ssr'
 
-export function createSupabaseClient() {
-  return createBrowserClient(
-    process.env.SUPABASE_URL!,
-    process.env.SUPABASE_ANON_KEY!
-  )
+/**
+ * Browser client for Realtime subscriptions
+ * The URL and anon key come from the root loader (supabaseEnv); process.env
+ * isn't available in the browser.
+ */
+export function createSupabaseClient(url: string, anonKey: string) {
+  return createBrowserClient(url, anonKey)
 }
@@ -0,0 +1,230 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+
+const TIMEZONE = "America/New_York";
+
+export type SurvivorPeriodType = "week" | "day";
+
+export interface SurvivorPool {
+  id: string;
+  name: string;
+  owner_id: string;
+  league_id: string | null;
+  period_type: SurvivorPeriodType;
+  start_date: string;
+  created_at: string;
+}
+
+export interface SurvivorEntry {
+  id: string;
+  user_id: string;
+  username: string;
+  status: "alive" | "eliminated";
+  eliminated_period: string | null;
+}
+
+export interface SurvivorPick {
+  id: string;
+  entry_id: string;
+  period_start: string;
+  game_id: string;
+  team_id: string;
+  result: "pending" | "won" | "lost" | "void";
+  team: { id: string; short_name: string };
+}
+
+export interface SurvivorPoolSummary extends SurvivorPool {
+  entrants: number;
+  alive: number;
+  myEntry: { status: SurvivorEntry["status"] } | null;
+}
+
+/**
+ * Period (an Eastern Time date) that a moment falls in, matching survivor_period_start()
+ * @returns yyyy-MM-dd of the day, or of the Monday for weekly pools
+ */
+export function getSurvivorPeriodStart(periodType: SurvivorPeriodType, at: Date): string {
+  const zoned = toZonedTime(at, TIMEZONE);
+  const start = periodType === "day" ? zoned : startOfWeek(zoned, { weekStartsOn: 1 });
+  return format(start, "yyyy-MM-dd");
+}
+
+/**
+ * UTC bounds of a period, for querying the games in it
+ */
+export function getSurvivorPeriodBounds(periodType: SurvivorPeriodType, periodStart: string) {
+  const start = parseISO(periodStart);
+  const end = addDays(start, periodType === "day" ? 1 : 7);
+  return {
+    start: fromZonedTime(start, TIMEZONE),
+    end: fromZonedTime(end, TIMEZONE),
+  };
+}
+
+/**
+ * Steps a period forward or back
+ */
+export function shiftSurvivorPeriod(
+  periodType: SurvivorPeriodType,
+  periodStart: string,
+  steps: number
+): string {
+  return format(
+    addDays(parseISO(periodStart), steps * (periodType === "day" ? 1 : 7)),
+    "yyyy-MM-dd"
+  );
+}
+
+/**
+ * Fetches every survivor pool the user can see, with entry counts
+ * @param supabase - Supabase client instance
+ * @param userId - The user's UUID
+ * @returns Pools newest first
+ */
+export async function getSurvivorPools(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<SurvivorPoolSummary[]> {
+  const { data: pools, error } = await supabase
+    .from("survivor_pools")
+    .select("id, name, owner_id, league_id, period_type, start_date, created_at")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching survivor pools:", error);
+    return [];
+  }
+
+  const poolIds = (pools || []).map((p) => p.id);
+  if (poolIds.length === 0) return [];
+
+  const { data: entries } = await supabase
+    .from("survivor_entries")
+    .select("pool_id, user_id, status")
+    .in("pool_id", poolIds);
+
+  return (pools as SurvivorPool[]).map((pool) => {
+    const poolEntries = (entries || []).filter((e) => e.pool_id === pool.id);
+    const mine = poolEntries.find((e) => e.user_id === userId);
+    return {
+      ...pool,
+      entrants: poolEntries.length,
+      alive: poolEntries.filter((e) => e.status === "alive").length,
+      myEntry: mine ? { status: mine.status } : null,
+    };
+  });
+}
+
+/**
+ * Fetches a pool with its entrants and every pick the user is allowed to see
+ * Other entrants' picks are hidden by RLS until their period locks
+ */
+export async function getSurvivorPool(supabase: SupabaseClient, poolId: string) {
+  const { data: pool, error } = await supabase
+    .from("survivor_pools")
+    .select("id, name, owner_id, league_id, period_type, start_date, created_at")
+    .eq("id", poolId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching survivor pool:", error);
+    return null;
+  }
+  if (!pool) return null;
+
+  const [entriesResult, picksResult] = await Promise.all([
+    supabase
+      .from("survivor_entries")
+      .select("id, user_id, status, eliminated_period")
+      .eq("pool_id", poolId),
+    supabase
+      .from("survivor_picks")
+      .select("id, entry_id, period_start, game_id, team_id, result, team:teams(id, short_name)")
+      .eq("pool_id", poolId)
+      .order("period_start", { ascending: true }),
+  ]);
+
+  const entries = entriesResult.data || [];
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select("id, username")
+    .in("id", entries.map((e) => e.user_id));
+
+  const usernames = new Map<string, string>();
+  (profiles || []).forEach((p: { id: string; username: string }) => usernames.set(p.id, p.username));
+
+  return {
+    pool: pool as SurvivorPool,
+    entries: entries.map((e) => ({
+      ...e,
+      username: usernames.get(e.user_id) || "Unknown",
+    })) as SurvivorEntry[],
+    picks: (picksResult.data || []) as unknown as SurvivorPick[],
+  };
+}
+
+/**
+ * Creates a survivor pool owned by the user and enters them into it
+ * @returns The new pool's UUID
+ */
+export async function createSurvivorPool(
+  supabase: SupabaseClient,
+  userId: string,
+  input: {
+    name: string;
+    periodType: SurvivorPeriodType;
+    startDate: string;
+    leagueId: string | null;
+  }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("survivor_pools")
+    .insert({
+      name: input.name,
+      owner_id: userId,
+      league_id: input.leagueId,
+      period_type: input.periodType,
+      start_date: input.startDate,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create pool: ${error.message}`);
+  }
+
+  await joinSurvivorPool(supabase, data.id);
+
+  return data.id as string;
+}
+
+/**
+ * Enters the user into a pool; closed once the first period's deadline passes
+ */
+export async function joinSurvivorPool(supabase: SupabaseClient, poolId: string) {
+  const { error } = await supabase.rpc("join_survivor_pool", { pool_uuid: poolId });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Makes or changes the user's pick for the period the game falls in
+ * Deadline, elimination and the no-reuse rule are enforced by make_survivor_pick()
+ */
+export async function makeSurvivorPick(
+  supabase: SupabaseClient,
+  input: { poolId: string; gameId: string; teamId: string }
+) {
+  const { error } = await supabase.rpc("make_survivor_pick", {
+    pool_uuid: input.poolId,
+    game_uuid: input.gameId,
+    team_uuid: input.teamId,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
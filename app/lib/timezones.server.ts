@@ -0,0 +1,44 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_TIMEZONE, isValidTimezone } from "~/lib/timezones";
+
+/**
+ * Fetches a user's timezone preference
+ * @param supabase - Supabase client instance
+ * @param userId - The user's UUID
+ * @returns IANA timezone name, Eastern Time when unset or unreadable
+ */
+export async function getUserTimezone(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("timezone")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching timezone:", error);
+    return DEFAULT_TIMEZONE;
+  }
+
+  return data?.timezone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Saves a user's timezone; picks on games that haven't tipped move to their day
+ * in the new timezone (see rebucket_picks_for_timezone())
+ * @throws Error when the timezone is unknown or moving picks would clash
+ */
+export async function setUserTimezone(
+  supabase: SupabaseClient,
+  userId: string,
+  timezone: string
+): Promise<void> {
+  if (!isValidTimezone(timezone)) {
+    throw new Error("Unknown timezone");
+  }
+
+  const { error } = await supabase.from("profiles").update({ timezone }).eq("id", userId);
+
+  if (error) {
+    throw new Error(error.hint ? `${error.message}. ${error.hint}` : error.message);
+  }
+}
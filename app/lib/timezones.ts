@@ -0,0 +1,31 @@
+/**
+ * Timezone helpers shared by the settings form, the slate and the server
+ *
+ * profiles.timezone is an IANA name. It decides which day a game is on for the
+ * user's slate and Pick of the Day (see maintain_pick_game_date_cache() in the
+ * database) and the zone tip times are shown in.
+ */
+
+export const DEFAULT_TIMEZONE = "America/New_York";
+
+export const TIMEZONE_OPTIONS = [
+  { value: "America/New_York", label: "Eastern Time" },
+  { value: "America/Chicago", label: "Central Time" },
+  { value: "America/Denver", label: "Mountain Time" },
+  { value: "America/Phoenix", label: "Arizona" },
+  { value: "America/Los_Angeles", label: "Pacific Time" },
+  { value: "America/Anchorage", label: "Alaska" },
+  { value: "Pacific/Honolulu", label: "Hawaii" },
+] as const;
+
+/**
+ * Whether the runtime knows an IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -98,10 +98,10 @@ export async function createTournamentBracketGames(
   const championshipGame = createChampionshipGame(tournamentId, startDate);
   allGames.push(championshipGame);
 
-  // Insert all games in one transaction
+  // Insert all games in one transaction; every NCAA tournament game is at a neutral site
   const { data: insertedGames, error } = await supabase
     .from('games')
-    .insert(allGames)
+    .insert(allGames.map((game) => ({ ...game, neutral_site: true })))
     .select('id, tournament_metadata');
 
   if (error) {
@@ -26,13 +26,13 @@ const ESPN_API_BASE = 'https://site.api.espn.com/apis/site/v2/sports/basketball/
 /**
  * ESPN API Response Types
  */
-interface EspnScoreboardResponse {
+export interface EspnScoreboardResponse {
   events: EspnEvent[];
   leagues: EspnLeague[];
   season: EspnSeason;
 }
 
-interface EspnEvent {
+export interface EspnEvent {
   id: string;
   uid: string;
   date: string;
@@ -43,7 +43,7 @@ interface EspnEvent {
   notes?: { type: string; headline: string }[];
 }
 
-interface EspnCompetition {
+export interface EspnCompetition {
   id: string;
   uid: string;
   date: string;
@@ -266,6 +266,7 @@ export function convertEspnEventToGame(event: EspnEvent, competition: EspnCompet
     tournament_round: round,
     tournament_metadata: Object.keys(tournamentMetadata).length > 0 ? tournamentMetadata : undefined,
     venue: competition.venue.fullName,
+    neutral_site: competition.neutralSite,
     // ESPN data to help with team matching
     _espn_home_team: {
       id: homeTeam.team.id,
@@ -133,6 +133,8 @@ export async function importGamesToTournament(
                 home_score: game.home_score,
                 away_score: game.away_score,
                 status: game.status,
+                venue: game.venue,
+                neutral_site: game.neutral_site,
                 updated_at: new Date().toISOString(),
               })
               .eq('id', existingGame.id);
@@ -154,13 +156,6 @@ export async function importGamesToTournament(
 
       // Create new game
       if (!dryRun) {
-        // Get conference_id from one of the teams (assuming both are in same conference for now)
-        const { data: teamData } = await supabase
-          .from('teams')
-          .select('conference_id')
-          .eq('id', homeMatch.teamId)
-          .single();
-
         const gameData = {
           tournament_id: tournamentId,
           tournament_round: game.tournament_round,
@@ -172,9 +167,10 @@ export async function importGamesToTournament(
           home_score: game.home_score,
           away_score: game.away_score,
           venue: game.venue,
+          neutral_site: game.neutral_site ?? false,
           external_id: game.external_id,
           external_source: game.external_source,
-          conference_id: teamData?.conference_id || null,
+          // conference_id is set from both teams by trg_classify_game_conference
         };
 
         const { error: createError } = await supabase.from('games').insert(gameData);
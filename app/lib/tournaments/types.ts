@@ -92,6 +92,8 @@ export interface TournamentGame {
   tournament_id: string;
   tournament_round: TournamentRound;
   tournament_metadata: GameTournamentMetadata;
+  venue?: string | null;
+  neutral_site?: boolean;
   home_team?: {
     id: string;
     name: string;
@@ -0,0 +1,300 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { REPLY_MAX_LENGTH, WRITEUP_MAX_LENGTH, WRITEUP_REACTIONS } from "~/lib/writeups";
+
+interface WriteupTeam {
+  id: string;
+  short_name: string;
+}
+
+export interface WriteupPick {
+  pick_type: "spread" | "total" | "moneyline";
+  picked_team_id: string | null;
+  spread_at_pick_time: number | null;
+  total_side: "over" | "under" | null;
+  total_at_pick_time: number | null;
+  odds_at_pick_time: number | null;
+  result: "won" | "lost" | "push" | "pending" | "void" | null;
+  game: {
+    id: string;
+    game_date: string;
+    status: string;
+    home_team: WriteupTeam;
+    away_team: WriteupTeam;
+  };
+}
+
+export interface PickWriteup {
+  pick_id: string;
+  user_id: string;
+  username: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  pick: WriteupPick;
+  reactions: { emoji: string; user_id: string }[];
+  reply_count: number;
+}
+
+export interface WriteupReply {
+  id: string;
+  user_id: string;
+  username: string;
+  body: string;
+  created_at: string;
+}
+
+const WRITEUP_SELECT = `
+  pick_id,
+  user_id,
+  body,
+  created_at,
+  updated_at,
+  pick:picks!inner(
+    pick_type,
+    picked_team_id,
+    spread_at_pick_time,
+    total_side,
+    total_at_pick_time,
+    odds_at_pick_time,
+    result,
+    game_id,
+    game:games!inner(
+      id,
+      game_date,
+      status,
+      home_team:teams!games_home_team_id_fkey(id, short_name),
+      away_team:teams!games_away_team_id_fkey(id, short_name)
+    )
+  ),
+  reactions:pick_writeup_reactions(emoji, user_id),
+  replies:pick_writeup_replies(count)
+`;
+
+type WriteupRow = Omit<PickWriteup, "username" | "reply_count"> & {
+  replies: { count: number }[];
+};
+
+async function getUsernames(supabase: SupabaseClient, userIds: string[]) {
+  const usernames = new Map<string, string>();
+  if (userIds.length === 0) return usernames;
+
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select("id, username")
+    .in("id", Array.from(new Set(userIds)));
+
+  (profiles || []).forEach((p: { id: string; username: string }) => usernames.set(p.id, p.username));
+  return usernames;
+}
+
+async function withUsernames(supabase: SupabaseClient, rows: WriteupRow[]): Promise<PickWriteup[]> {
+  const usernames = await getUsernames(supabase, rows.map((row) => row.user_id));
+
+  return rows.map(({ replies, ...row }) => ({
+    ...row,
+    username: usernames.get(row.user_id) || "Unknown",
+    reply_count: replies?.[0]?.count ?? 0,
+  }));
+}
+
+/**
+ * Fetches recent write-ups, newest first
+ * Other users' write-ups only come back once their game locks (enforced by RLS)
+ * @param supabase - Supabase client instance
+ * @param options.teamIds - Only write-ups on games involving one of these teams (e.g. favorites)
+ * @param options.limit - Maximum number of write-ups
+ */
+export async function getWriteupFeed(
+  supabase: SupabaseClient,
+  options: { teamIds?: string[] | null; limit?: number } = {}
+): Promise<PickWriteup[]> {
+  if (options.teamIds && options.teamIds.length === 0) return [];
+
+  let query = supabase
+    .from("pick_writeups")
+    .select(WRITEUP_SELECT)
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 50);
+
+  // Filtered on the embedded game, so the query grows with the team list rather than with
+  // every game those teams have played
+  if (options.teamIds) {
+    const teams = options.teamIds.join(",");
+    query = query.or(`home_team_id.in.(${teams}),away_team_id.in.(${teams})`, {
+      referencedTable: "pick.game",
+    });
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching write-ups:", error);
+    return [];
+  }
+
+  return withUsernames(supabase, (data || []) as unknown as WriteupRow[]);
+}
+
+/**
+ * Fetches a single write-up with its replies, oldest reply first
+ * @returns null if the write-up doesn't exist or isn't visible yet
+ */
+export async function getWriteup(supabase: SupabaseClient, pickId: string) {
+  const { data, error } = await supabase
+    .from("pick_writeups")
+    .select(WRITEUP_SELECT)
+    .eq("pick_id", pickId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching write-up:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  const [writeup] = await withUsernames(supabase, [data as unknown as WriteupRow]);
+
+  const { data: replyRows } = await supabase
+    .from("pick_writeup_replies")
+    .select("id, user_id, body, created_at")
+    .eq("pick_id", pickId)
+    .order("created_at", { ascending: true });
+
+  const usernames = await getUsernames(supabase, (replyRows || []).map((r) => r.user_id));
+
+  return {
+    writeup,
+    replies: (replyRows || []).map((reply) => ({
+      ...reply,
+      username: usernames.get(reply.user_id) || "Unknown",
+    })) as WriteupReply[],
+  };
+}
+
+/**
+ * Saves the rationale for one of the user's picks; an empty body removes it
+ * Write-ups can only be changed until the game locks (enforced by RLS)
+ */
+export async function saveWriteup(
+  supabase: SupabaseClient,
+  userId: string,
+  pickId: string,
+  body: string
+) {
+  const text = body.trim();
+
+  if (!pickId) {
+    throw new Error("Missing pick");
+  }
+  if (text.length > WRITEUP_MAX_LENGTH) {
+    throw new Error(`Write-ups are limited to ${WRITEUP_MAX_LENGTH} characters`);
+  }
+
+  if (!text) {
+    const { error } = await supabase
+      .from("pick_writeups")
+      .delete()
+      .eq("pick_id", pickId)
+      .eq("user_id", userId);
+
+    if (error) {
+      throw new Error(`Failed to remove write-up: ${error.message}`);
+    }
+    return;
+  }
+
+  const { error } = await supabase
+    .from("pick_writeups")
+    .upsert({ pick_id: pickId, user_id: userId, body: text }, { onConflict: "pick_id" });
+
+  if (error) {
+    // RLS rejects the write once the game has tipped off
+    if (error.code === "42501") {
+      throw new Error("This game has locked, so the write-up can't be changed");
+    }
+    throw new Error(`Failed to save write-up: ${error.message}`);
+  }
+}
+
+/**
+ * Adds the user's reaction to a write-up, or removes it if already there
+ */
+export async function toggleWriteupReaction(
+  supabase: SupabaseClient,
+  userId: string,
+  pickId: string,
+  emoji: string
+) {
+  if (!(WRITEUP_REACTIONS as readonly string[]).includes(emoji)) {
+    throw new Error("Unknown reaction");
+  }
+
+  const { data: existing } = await supabase
+    .from("pick_writeup_reactions")
+    .select("emoji")
+    .eq("pick_id", pickId)
+    .eq("user_id", userId)
+    .eq("emoji", emoji)
+    .maybeSingle();
+
+  const { error } = existing
+    ? await supabase
+        .from("pick_writeup_reactions")
+        .delete()
+        .eq("pick_id", pickId)
+        .eq("user_id", userId)
+        .eq("emoji", emoji)
+    : await supabase
+        .from("pick_writeup_reactions")
+        .insert({ pick_id: pickId, user_id: userId, emoji });
+
+  if (error) {
+    throw new Error(`Failed to react: ${error.message}`);
+  }
+}
+
+/**
+ * Replies to a write-up; only allowed once the game locks (enforced by RLS)
+ */
+export async function addWriteupReply(
+  supabase: SupabaseClient,
+  userId: string,
+  pickId: string,
+  body: string
+) {
+  const text = body.trim();
+
+  if (!text) {
+    throw new Error("Reply can't be empty");
+  }
+  if (text.length > REPLY_MAX_LENGTH) {
+    throw new Error(`Replies are limited to ${REPLY_MAX_LENGTH} characters`);
+  }
+
+  const { error } = await supabase
+    .from("pick_writeup_replies")
+    .insert({ pick_id: pickId, user_id: userId, body: text });
+
+  if (error) {
+    throw new Error(`Failed to reply: ${error.message}`);
+  }
+}
+
+/**
+ * Deletes one of the user's replies
+ */
+export async function deleteWriteupReply(
+  supabase: SupabaseClient,
+  userId: string,
+  replyId: string
+) {
+  const { error } = await supabase
+    .from("pick_writeup_replies")
+    .delete()
+    .eq("id", replyId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to delete reply: ${error.message}`);
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Limits shared by the write-up forms and writeups.server.ts
+ * Keep in sync with the CHECK constraints on pick_writeups / pick_writeup_reactions / pick_writeup_replies.
+ */
+
+export const WRITEUP_MAX_LENGTH = 2000;
+export const REPLY_MAX_LENGTH = 1000;
+export const WRITEUP_REACTIONS = ["🔥", "👍", "😂", "🤔", "🧊"] as const;
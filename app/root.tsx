@@ -28,7 +28,8 @@ export const links: Route.LinksFunction = () => [
 ];
 
 /**
- * Root loader - Loads user's favorite teams and all teams for the team manager
+ * Root loader - Loads user's favorite teams, all teams for the team manager and
+ * the public Supabase settings for the browser client
  * This data is available globally via useRouteLoaderData("root")
  */
 export async function loader({ request }: Route.LoaderArgs) {
@@ -84,6 +85,11 @@ export async function loader({ request }: Route.LoaderArgs) {
     user,
     favoriteTeams,
     allTeams,
+    // Public values for the browser client (live scores)
+    supabaseEnv: {
+      url: process.env.SUPABASE_URL!,
+      anonKey: process.env.SUPABASE_ANON_KEY!,
+    },
   };
 }
 
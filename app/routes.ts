@@ -18,10 +18,20 @@ export default [
       route("bracketology", "routes/rankings.bracketology.tsx"),
       route(":rankingId/edit", "routes/rankings.$rankingId.edit.tsx"),
     ]),
+    route("leagues", "routes/leagues.tsx"),
+    route("confidence", "routes/confidence.tsx"),
+    route("survivor", "routes/survivor.tsx"),
+    route("survivor/:poolId", "routes/survivor.$poolId.tsx"),
+    route("feed", "routes/feed.tsx"),
+    route("feed/:pickId", "routes/feed.$pickId.tsx"),
+    route("notifications", "routes/notifications.tsx"),
+    route("settings", "routes/settings.tsx"),
     route("daily", "routes/stat-chain.tsx"),
     route("tournaments/:tournamentId", "routes/tournaments.$tournamentId.tsx"),
     route("admin/scrapers", "routes/admin.scrapers.tsx"),
     route("admin/pipeline", "routes/admin.pipeline.tsx"),
+    route("admin/lines", "routes/admin.lines.tsx"),
+    route("admin/pick-audit", "routes/admin.pick-audit.tsx"),
     route("admin/tournaments", "routes/admin.tournaments.tsx"),
     route("admin/tournaments/:tournamentId/import", "routes/admin.tournaments.$tournamentId.import.tsx"),
     route("admin/tournaments/:tournamentId/bracket", "routes/admin.tournaments.$tournamentId.bracket.tsx"),
@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import {
+  Form,
   useLoaderData,
   useNavigate,
   useActionData,
@@ -10,14 +11,23 @@ import {
 import type { Route } from "./+types/_index";
 import { requireAuth } from "~/lib/auth.server";
 import { getFavoriteTeamIds } from "~/lib/favorites.server";
+import { getActiveLeague } from "~/lib/leagues.server";
+import { keepRescheduledPick, parsePickForm, savePick } from "~/lib/picks.server";
+import { getCurrentSeasonId } from "~/lib/seasons.server";
+import { getUserTimezone } from "~/lib/timezones.server";
+import { tallyLivePicks } from "~/lib/live-scores";
+import { useLiveGames } from "~/hooks/useLiveGames";
+import { DEFAULT_STAKE, STAKE_OPTIONS } from "~/lib/stakes";
+import { groupBadgesByUser, type BadgeDefinition, type BadgeSummary, type EarnedBadge } from "~/lib/badges";
 import { GameCard } from "~/components/GameCard";
 import { DatePicker } from "~/components/DatePicker";
 import { GameFilters } from "~/components/GameFilters";
 import { TournamentFilters } from "~/components/TournamentFilters";
 import { Button } from "~/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "~/components/ui/toggle-group";
 import { format, addDays, subDays, parseISO, isValid } from "date-fns";
-import { fromZonedTime, toZonedTime } from "date-fns-tz";
-import { ChevronLeft, ChevronRight, Trophy, Sparkles, TrendingUp, CheckCircle2 } from "lucide-react";
+import { formatInTimeZone, fromZonedTime, toZonedTime } from "date-fns-tz";
+import { ChevronLeft, ChevronRight, Trophy, Sparkles, TrendingUp, CheckCircle2, Users, CalendarClock } from "lucide-react";
 import { toast } from "sonner";
 import {
   Dialog,
@@ -28,6 +38,8 @@ import {
 import { GameAnalytics } from "~/components/GameAnalytics";
 import { MatchupAnalysis } from "~/components/MatchupAnalysis";
 import { cn } from "~/lib/utils";
+import type { BookmakerLine } from "~/lib/line-movement";
+import type { PickRevision } from "~/lib/pick-revisions";
 
 type GameWithRelations = {
   id: string;
@@ -36,13 +48,20 @@ type GameWithRelations = {
   away_team_id: string;
   tournament_round: string | null;
   tournament_metadata: { seed_home?: number; seed_away?: number; region?: string } | null;
-  home_team: { id: string; name: string; short_name: string };
-  away_team: { id: string; name: string; short_name: string };
+  venue: string | null;
+  neutral_site: boolean;
+  home_team: { id: string; name: string; short_name: string; conference_id: string };
+  away_team: { id: string; name: string; short_name: string; conference_id: string };
   home_score: number | null;
   away_score: number | null;
   spread: number | null;
   favorite_team_id: string | null;
+  total: number | null;
+  home_moneyline: number | null;
+  away_moneyline: number | null;
   status: "scheduled" | "in_progress" | "completed" | "postponed" | "cancelled";
+  rescheduled_from_game_id: string | null;
+  other_pick_count?: number;
   conference: {
     id: string;
     name: string;
@@ -59,14 +78,33 @@ type GameWithRelations = {
     id: string;
     picked_team_id: string;
     spread_at_pick_time: number;
-    result: "won" | "lost" | "push" | "pending" | null;
+    result: "won" | "lost" | "push" | "pending" | "void" | null;
     locked_at: string | null;
     is_pick_of_day: boolean;
     user_id: string;
+    updated_at?: string;
+    pick_type?: "spread" | "total" | "moneyline";
+    total_side?: "over" | "under" | null;
+    total_at_pick_time?: number | null;
+    odds_at_pick_time?: number | null;
+    stake?: number;
+    writeup?: { body: string } | null;
     profiles?: {
       username: string;
+      badges?: BadgeSummary[];
     };
   }[];
+  total_picks?: NonNullable<GameWithRelations["picks"]>;
+  moneyline_picks?: NonNullable<GameWithRelations["picks"]>;
+  line_snapshots?: {
+    captured_at: string;
+    bookmaker: string;
+    spread: number;
+    favorite_team_id: string | null;
+  }[];
+  bookmaker_lines?: BookmakerLine[];
+  line_source: string | null;
+  pick_revisions?: PickRevision[];
   matchup_analyses?: {
     id: string;
     analysis_text: string;
@@ -86,12 +124,12 @@ type GameWithRelations = {
 export async function loader({ request }: Route.LoaderArgs) {
   const { user, supabase, headers } = await requireAuth(request);
 
-  // Define timezone constant
-  const timezone = "America/New_York";
+  // The slate is the user's day in their timezone
+  const timezone = await getUserTimezone(supabase, user.id);
 
-  // Get current date in Eastern Time
-  const nowInET = toZonedTime(new Date(), timezone);
-  const todayStr = format(nowInET, "yyyy-MM-dd");
+  // Get current date in the user's timezone
+  const nowInZone = toZonedTime(new Date(), timezone);
+  const todayStr = format(nowInZone, "yyyy-MM-dd");
 
   // Parse and validate date from query parameter
   const url = new URL(request.url);
@@ -105,13 +143,13 @@ export async function loader({ request }: Route.LoaderArgs) {
       targetDate = parsed;
       dateStr = format(parsed, "yyyy-MM-dd");
     } else {
-      // Invalid date param, use today in ET
-      targetDate = nowInET;
+      // Invalid date param, use today
+      targetDate = nowInZone;
       dateStr = todayStr;
     }
   } else {
-    // No date param, use today in ET
-    targetDate = nowInET;
+    // No date param, use today
+    targetDate = nowInZone;
     dateStr = todayStr;
   }
 
@@ -128,21 +166,24 @@ export async function loader({ request }: Route.LoaderArgs) {
   const swingOnly = url.searchParams.get("swing") === "true";
   const myTeamsOnly = url.searchParams.get("myTeamsOnly") === "true";
 
-  // Get user's favorite teams for filtering
-  const favoriteTeamIds = await getFavoriteTeamIds(supabase, user.id);
+  // Get user's favorite teams for filtering and the league scoping others' picks
+  const [favoriteTeamIds, activeLeague] = await Promise.all([
+    getFavoriteTeamIds(supabase, user.id),
+    getActiveLeague(supabase, user.id),
+  ]);
 
-  // Create date boundaries in Eastern Time, then convert to UTC for the query
-  // This ensures we get all games that occur on the selected date in EST/EDT
+  // Create date boundaries in the user's timezone, then convert to UTC for the query
+  // This ensures we get all games that occur on the selected date where they are
 
-  // Create start of day in Eastern Time (midnight)
-  const startOfDayET = new Date(targetDate);
-  startOfDayET.setHours(0, 0, 0, 0);
-  const startOfDay = fromZonedTime(startOfDayET, timezone);
+  // Create start of day in the user's timezone (midnight)
+  const startOfDayLocal = new Date(targetDate);
+  startOfDayLocal.setHours(0, 0, 0, 0);
+  const startOfDay = fromZonedTime(startOfDayLocal, timezone);
 
-  // Create end of day in Eastern Time (23:59:59.999)
-  const endOfDayET = new Date(targetDate);
-  endOfDayET.setHours(23, 59, 59, 999);
-  const endOfDay = fromZonedTime(endOfDayET, timezone);
+  // Create end of day in the user's timezone (23:59:59.999)
+  const endOfDayLocal = new Date(targetDate);
+  endOfDayLocal.setHours(23, 59, 59, 999);
+  const endOfDay = fromZonedTime(endOfDayLocal, timezone);
 
   // Build games query with optional My Teams filter
   let gamesQuery = supabase
@@ -152,11 +193,14 @@ export async function loader({ request }: Route.LoaderArgs) {
       *,
       home_team_id,
       away_team_id,
-      home_team:teams!games_home_team_id_fkey(id, name, short_name),
-      away_team:teams!games_away_team_id_fkey(id, name, short_name),
+      home_team:teams!games_home_team_id_fkey(id, name, short_name, conference_id),
+      away_team:teams!games_away_team_id_fkey(id, name, short_name, conference_id),
       conference:conferences(id, name, short_name, is_power_conference),
       tournament:tournaments(id, name, type, status),
-      picks(id, picked_team_id, spread_at_pick_time, result, locked_at, is_pick_of_day, user_id),
+      picks(id, picked_team_id, spread_at_pick_time, result, locked_at, is_pick_of_day, user_id, updated_at, pick_type, total_side, total_at_pick_time, odds_at_pick_time, stake, writeup:pick_writeups(body)),
+      line_snapshots:game_line_snapshots(captured_at, bookmaker, spread, favorite_team_id),
+      bookmaker_lines:game_bookmaker_lines(bookmaker, spread, favorite_team_id, total, home_moneyline, away_moneyline),
+      pick_revisions(id, pick_id, user_id, pick_type, change_type, old_picked_team_id, new_picked_team_id, old_total_side, new_total_side, old_line, new_line, old_is_pick_of_day, new_is_pick_of_day, old_stake, new_stake, changed_at),
       matchup_analyses!matchup_analyses_game_id_fkey(id, analysis_text, prediction, key_insights, analyzed_at)
     `
     )
@@ -179,9 +223,14 @@ export async function loader({ request }: Route.LoaderArgs) {
       .from("conferences")
       .select("id, name, short_name, is_power_conference")
       .order("name", { ascending: true }),
-    supabase
-      .from("profiles")
-      .select("id, username"),
+    activeLeague
+      ? supabase
+          .from("profiles")
+          .select("id, username")
+          .in("id", activeLeague.memberIds)
+      : supabase
+          .from("profiles")
+          .select("id, username"),
     supabase
       .from("picks")
       .select("game_id")
@@ -228,16 +277,100 @@ export async function loader({ request }: Route.LoaderArgs) {
     profilesMap.set(profile.id, profile.username);
   });
 
+  // Only picks from the active league's members (and the user's own) count as "others' picks"
+  const leagueMemberIds = activeLeague ? new Set(activeLeague.memberIds) : null;
+  const isInScope = (pickUserId: string) =>
+    !leagueMemberIds || pickUserId === user.id || leagueMemberIds.has(pickUserId);
+
+  // Others' sides stay hidden until a game locks (RLS enforces this too); before then only counts are shown
+  const isGameLocked = (game: GameWithRelations) =>
+    game.status !== "scheduled" || new Date(game.game_date) <= new Date();
+  const isVisible = (game: GameWithRelations, pickUserId: string) =>
+    pickUserId === user.id || isGameLocked(game);
+
+  const { data: pickCounts, error: pickCountsError } = await supabase.rpc("get_game_pick_counts", {
+    game_uuids: (gamesResult.data || []).map((game: GameWithRelations) => game.id),
+    league_uuid: activeLeague?.league.id ?? null,
+  });
+  if (pickCountsError) {
+    console.error("Error fetching pick counts:", pickCountsError);
+  }
+  const pickCountsMap = new Map<string, number>(
+    (pickCounts || []).map((row: { game_id: string; pick_count: number }) => [row.game_id, Number(row.pick_count)])
+  );
+
+  // Badges shown next to the usernames of visible pickers
+  const pickerIds = [
+    ...new Set(
+      (gamesResult.data || []).flatMap((game: GameWithRelations) =>
+        (game.picks || [])
+          .filter(pick => isInScope(pick.user_id) && isVisible(game, pick.user_id))
+          .map(pick => pick.user_id)
+      )
+    ),
+  ];
+  const [badgesResult, earnedBadgesResult] = pickerIds.length
+    ? await Promise.all([
+        supabase.from("badges").select("id, name, description, icon, repeatable, sort_order"),
+        supabase
+          .from("user_badges")
+          .select("user_id, badge_id, period, earned_on")
+          .in("user_id", pickerIds),
+      ])
+    : [{ data: [] }, { data: [] }];
+  const badgesByUser = groupBadgesByUser(
+    (badgesResult.data || []) as BadgeDefinition[],
+    (earnedBadgesResult.data || []) as EarnedBadge[]
+  );
+
   // Merge profile data into picks and normalize matchup_analyses
+  // Totals and moneyline picks are split out so the spread-based filters and swing detection only see spread picks
   const allGames = (gamesResult.data || []).map((game: GameWithRelations) => ({
     ...game,
-    picks: game.picks?.map(pick => ({
+    total_picks: game.picks?.filter(pick => pick.pick_type === "total" && pick.user_id === user.id),
+    moneyline_picks: game.picks?.filter(pick => pick.pick_type === "moneyline" && pick.user_id === user.id),
+    picks: game.picks?.filter(pick => (pick.pick_type ?? "spread") === "spread" && isInScope(pick.user_id) && isVisible(game, pick.user_id)).map(pick => ({
       ...pick,
-      profiles: pick.user_id ? { username: profilesMap.get(pick.user_id) || 'Unknown' } : undefined,
+      profiles: pick.user_id
+        ? { username: profilesMap.get(pick.user_id) || 'Unknown', badges: badgesByUser.get(pick.user_id) }
+        : undefined,
     })),
+    other_pick_count: pickCountsMap.get(game.id) ?? 0,
+    // Admins can read every revision; the dialog only shows the user's own history
+    pick_revisions: game.pick_revisions?.filter(revision => revision.user_id === user.id),
     matchup_analysis: game.matchup_analyses && game.matchup_analyses.length > 0 ? game.matchup_analyses[0] : null,
   }));
 
+  // Picks voided by a postponement whose game is back on this slate can be carried over
+  const rescheduledGames = allGames.filter((game: GameWithRelations) => game.rescheduled_from_game_id);
+  const { data: voidedPicks } = rescheduledGames.length
+    ? await supabase
+        .from("picks")
+        .select("id, game_id, pick_type, picked_team_id, total_side")
+        .eq("user_id", user.id)
+        .eq("result", "void")
+        .in("game_id", rescheduledGames.map((game: GameWithRelations) => game.rescheduled_from_game_id))
+    : { data: [] };
+
+  const rescheduledPicks = (voidedPicks || []).flatMap((pick) => {
+    const game = rescheduledGames.find((g: GameWithRelations) => g.rescheduled_from_game_id === pick.game_id);
+    if (!game) return [];
+    const team = pick.picked_team_id === game.home_team.id ? game.home_team : game.away_team;
+    const alreadyPicked = [...(game.picks || []), ...(game.total_picks || []), ...(game.moneyline_picks || [])].some(
+      (p) => p.user_id === user.id && (p.pick_type ?? "spread") === pick.pick_type
+    );
+    if (alreadyPicked) return [];
+    return [{
+      pickId: pick.id as string,
+      gameId: game.id,
+      matchup: `${game.away_team.short_name} ${game.neutral_site ? "vs" : "@"} ${game.home_team.short_name}`,
+      selection:
+        pick.pick_type === "total"
+          ? `${pick.total_side === "over" ? "Over" : "Under"}`
+          : `${team.short_name}${pick.pick_type === "moneyline" ? " ML" : ""}`,
+    }];
+  });
+
   // Fetch injury counts and team stats for all teams in the games
   const teamIds = Array.from(
     new Set(
@@ -248,11 +381,7 @@ export async function loader({ request }: Route.LoaderArgs) {
     )
   );
 
-  // Get current season
-  const now = new Date();
-  const month = now.getMonth() + 1;
-  const year = now.getFullYear();
-  const currentSeason = month >= 8 ? year + 1 : year;
+  const currentSeason = await getCurrentSeasonId(supabase);
 
   // Fetch injury counts and team stats in parallel
   const [injuryResult, teamStatsResult] = await Promise.all([
@@ -329,12 +458,14 @@ export async function loader({ request }: Route.LoaderArgs) {
       if (!matchesHome && !matchesAway) return false;
     }
 
-    // Conference filter
+    // Conference filter - a conference matches its teams' non-conference games too,
+    // and a non-conference bucket matches the games filed under it
     if (conferenceIds.length > 0) {
-      if (!conferenceIds.includes(game.conference.id)) return false;
+      const gameConferenceIds = [game.conference.id, game.home_team.conference_id, game.away_team.conference_id];
+      if (!gameConferenceIds.some((id) => conferenceIds.includes(id))) return false;
     }
 
-    // Power conference filter
+    // Power conference filter (non-conference games count when a power team is playing)
     if (powerOnly && !game.conference.is_power_conference) {
       return false;
     }
@@ -350,10 +481,9 @@ export async function loader({ request }: Route.LoaderArgs) {
       if (!userPick) return false;
     }
 
-    // Others' picks only filter
+    // Others' picks only filter (counts hidden picks on games that haven't locked yet)
     if (opponentPicksOnly) {
-      const othersPicks = game.picks?.filter(p => p.user_id !== user.id);
-      if (!othersPicks || othersPicks.length === 0) return false;
+      if (!game.other_pick_count) return false;
     }
 
     // Exciting games filter - close spreads in power conferences OR very close spreads anywhere
@@ -420,7 +550,10 @@ export async function loader({ request }: Route.LoaderArgs) {
     bracketCompletion: Object.fromEntries(bracketCompletion),
     date: dateStr,
     isToday,
+    timezone,
     potdGameId: potdResult.data?.game_id || null,
+    rescheduledPicks,
+    activeLeague: activeLeague ? { id: activeLeague.league.id, name: activeLeague.league.name } : null,
     headers,
   };
 }
@@ -429,57 +562,13 @@ export async function action({ request }: Route.ActionArgs) {
   const { user, supabase, headers } = await requireAuth(request);
 
   const formData = await request.formData();
-  const gameId = formData.get("gameId") as string;
-  const pickedTeamId = formData.get("pickedTeamId") as string;
-  const spread = formData.get("spread") as string;
-  const isPotd = formData.get("isPotd") === "true";
-
-  if (!gameId || !pickedTeamId) {
-    return { error: "Missing required fields", headers };
-  }
-
-  // Check if game has started (locked)
-  const { data: game } = await supabase
-    .from("games")
-    .select("game_date, status")
-    .eq("id", gameId)
-    .single();
-
-  if (!game) {
-    return { error: "Game not found", headers };
-  }
-
-  if (game.status !== "scheduled" || new Date(game.game_date) < new Date()) {
-    return { error: "Game has already started", headers };
-  }
-
-  // Upsert pick (update if exists, insert if not)
-  const { error } = await supabase.from("picks").upsert(
-    {
-      user_id: user.id,
-      game_id: gameId,
-      picked_team_id: pickedTeamId,
-      spread_at_pick_time: parseFloat(spread) || 0,
-      result: "pending",
-      is_pick_of_day: isPotd,
-    },
-    {
-      onConflict: "user_id,game_id",
-    }
-  );
+  const error =
+    formData.get("intent") === "keep-rescheduled"
+      ? await keepRescheduledPick(supabase, user.id, formData.get("pickId") as string)
+      : await savePick(supabase, user.id, parsePickForm(formData));
 
   if (error) {
-    console.error("Error saving pick:", error);
-
-    // Handle POTD constraint violation with user-friendly message
-    if (error.code === "23505" && error.message?.includes("idx_one_potd_per_user_per_day")) {
-      return {
-        error: "You already have a Pick of the Day for games on this date. Unmark your current POTD first.",
-        headers
-      };
-    }
-
-    return { error: error.message, headers };
+    return { error, headers };
   }
 
   return { success: true, headers };
@@ -510,9 +599,22 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export default function Index() {
-  const { games, allGamesCount, conferences, tournaments, bracketCompletion, date, isToday, potdGameId } =
+  const { games, allGamesCount, conferences, tournaments, bracketCompletion, date, isToday, timezone, potdGameId, rescheduledPicks, activeLeague } =
     useLoaderData<typeof loader>();
   const { user } = useOutletContext<{ user: { id: string; email: string } }>();
+  const liveGames = useLiveGames(games);
+
+  // The viewer's picks against live scores, for the header tally
+  const liveTally = tallyLivePicks(
+    liveGames.flatMap((game: GameWithRelations) =>
+      [
+        ...(game.picks?.filter((p) => p.user_id === user.id) ?? []),
+        ...(game.total_picks ?? []),
+        ...(game.moneyline_picks ?? []),
+      ].map((pick) => ({ pick, game }))
+    )
+  );
+  const hasLiveTally = liveTally.covering + liveTally.notCovering + liveTally.final > 0;
   const navigate = useNavigate();
   const actionData = useActionData<typeof action>();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -543,6 +645,7 @@ export default function Index() {
 
   // Control modal state based on URL
   const [modalOpen, setModalOpen] = useState(false);
+  const [stake, setStake] = useState<number>(DEFAULT_STAKE);
 
   // Sync modal state with URL
   useEffect(() => {
@@ -609,6 +712,15 @@ export default function Index() {
               <p className="mt-1 sm:mt-2 text-sm sm:text-base font-medium text-slate-600 dark:text-slate-400">
                 {activeTab === "tournaments" ? "Make your bracket picks" : format(currentDate, "EEEE")}
               </p>
+              {activeTab === "games" && hasLiveTally && (
+                <p className="mt-1 text-sm font-medium tabular-nums">
+                  <span className="text-green-600 dark:text-green-400">{liveTally.covering} covering</span>
+                  <span className="text-slate-400"> · </span>
+                  <span className="text-red-600 dark:text-red-400">{liveTally.notCovering} losing</span>
+                  <span className="text-slate-400"> · </span>
+                  <span className="text-slate-600 dark:text-slate-400">{liveTally.final} final</span>
+                </p>
+              )}
             </div>
 
             {activeTab === "games" && (
@@ -681,10 +793,58 @@ export default function Index() {
               <span>
                 Showing {games.length} of {allGamesCount} games
               </span>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <span>Stake</span>
+                  <ToggleGroup
+                    type="single"
+                    value={String(stake)}
+                    onValueChange={(value) => value && setStake(Number(value))}
+                    className="gap-1"
+                  >
+                    {STAKE_OPTIONS.map((option) => (
+                      <ToggleGroupItem key={option} value={String(option)} className="h-7 px-2 text-xs">
+                        {option}u
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                {activeLeague && (
+                  <span className="flex items-center gap-1">
+                    <Users className="h-4 w-4" />
+                    {activeLeague.name}
+                  </span>
+                )}
+              </div>
             </div>
+            {rescheduledPicks.length > 0 && (
+              <div className="rounded-lg border border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30 p-4 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-semibold text-amber-900 dark:text-amber-200">
+                  <CalendarClock className="h-4 w-4" />
+                  Rescheduled games
+                </div>
+                {rescheduledPicks.map((pick) => (
+                  <div key={pick.pickId} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="text-amber-900 dark:text-amber-200">
+                      {pick.matchup} was postponed and your <strong>{pick.selection}</strong> pick was voided.
+                      Keep it at the current line, or pick again below.
+                    </span>
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="keep-rescheduled" />
+                      <input type="hidden" name="pickId" value={pick.pickId} />
+                      <Button type="submit" size="sm" variant="outline">
+                        Keep pick
+                      </Button>
+                    </Form>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {games.map((game: GameWithRelations) => {
+          {liveGames.map((game: GameWithRelations) => {
             const userPick = game.picks?.find(p => p.user_id === user.id);
+            const userTotalPick = game.total_picks?.[0];
+            const userMoneylinePick = game.moneyline_picks?.[0];
             const otherPicks = game.picks?.filter(p => p.user_id !== user.id) || [];
 
             // Check if this is a swing game (users picked opposite sides)
@@ -697,12 +857,16 @@ export default function Index() {
                 key={game.id}
                 game={game}
                 userPick={userPick}
+                userTotalPick={userTotalPick}
+                userMoneylinePick={userMoneylinePick}
                 otherPicks={otherPicks}
                 userId={user.id}
                 potdGameId={potdGameId}
                 isSwingGame={isSwingGame}
                 homeTeamPickers={homeTeamPicks}
                 awayTeamPickers={awayTeamPicks}
+                stake={stake}
+                timezone={timezone}
               />
             );
           })}
@@ -799,10 +963,10 @@ export default function Index() {
             <DialogContent className="!w-[95vw] sm:!max-w-[95vw] lg:!max-w-[1600px] !max-h-[90vh] overflow-y-auto p-4 sm:p-6">
               <DialogHeader>
                 <DialogTitle className="text-2xl">
-                  {selectedGame.away_team.name} @ {selectedGame.home_team.name}
+                  {selectedGame.away_team.name} {selectedGame.neutral_site ? "vs" : "@"} {selectedGame.home_team.name}
                 </DialogTitle>
                 <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm text-gray-600">
-                  <span>{format(new Date(selectedGame.game_date), 'EEEE, MMMM d')} at {format(new Date(selectedGame.game_date), 'h:mm a')}</span>
+                  <span>{formatInTimeZone(new Date(selectedGame.game_date), timezone, "EEEE, MMMM d 'at' h:mm a")}</span>
                   <span className="hidden sm:inline">•</span>
                   <span className="flex items-center gap-1">
                     {selectedGame.conference.name}
@@ -812,6 +976,15 @@ export default function Index() {
                       </span>
                     )}
                   </span>
+                  {selectedGame.venue && (
+                    <>
+                      <span className="hidden sm:inline">•</span>
+                      <span>
+                        {selectedGame.venue}
+                        {selectedGame.neutral_site && " (neutral site)"}
+                      </span>
+                    </>
+                  )}
                 </div>
               </DialogHeader>
 
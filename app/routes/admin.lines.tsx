@@ -0,0 +1,145 @@
+import { useEffect } from "react";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/admin.lines";
+import { requireAdmin } from "~/lib/auth.server";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { toast } from "sonner";
+
+const CONSENSUS_SOURCE = "consensus";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase, headers } = await requireAdmin(request);
+
+  const [settingsResult, linesResult] = await Promise.all([
+    supabase.from("odds_settings").select("official_line_source, updated_at").single(),
+    // Books seen on upcoming games are the ones worth choosing between
+    supabase
+      .from("game_bookmaker_lines")
+      .select("bookmaker, games!inner(game_date)")
+      .gte("games.game_date", new Date().toISOString()),
+  ]);
+
+  if (settingsResult.error) {
+    console.error("Error fetching odds settings:", settingsResult.error);
+  }
+
+  const bookmakers = Array.from(
+    new Set((linesResult.data || []).map((line) => line.bookmaker as string))
+  )
+    .filter((bookmaker) => bookmaker !== CONSENSUS_SOURCE)
+    .sort();
+
+  return data(
+    {
+      officialSource: settingsResult.data?.official_line_source ?? CONSENSUS_SOURCE,
+      updatedAt: settingsResult.data?.updated_at ?? null,
+      bookmakers,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, supabase, headers } = await requireAdmin(request);
+  const formData = await request.formData();
+  const source = ((formData.get("source") as string) || "").trim();
+
+  if (!source) {
+    return data({ error: "Choose a line source" }, { status: 400, headers });
+  }
+
+  const { error: updateError } = await supabase
+    .from("odds_settings")
+    .update({ official_line_source: source, updated_by: user.id })
+    .eq("id", true);
+
+  if (updateError) {
+    return data({ error: updateError.message }, { status: 400, headers });
+  }
+
+  // Re-point upcoming games now rather than waiting for the next scrape
+  const { data: gamesUpdated, error: applyError } = await supabase.rpc(
+    "apply_official_line_source"
+  );
+
+  if (applyError) {
+    return data({ error: applyError.message }, { status: 400, headers });
+  }
+
+  return data(
+    { message: `Official line set to ${source} (${gamesUpdated ?? 0} upcoming games updated)` },
+    { headers }
+  );
+}
+
+export function meta(_: Route.MetaArgs) {
+  return [{ title: "Official Line - Admin" }];
+}
+
+export default function AdminLines() {
+  const { officialSource, updatedAt, bookmakers } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  useEffect(() => {
+    if (!actionData) return;
+    const result = actionData as { error?: string; message?: string };
+    if (result.error) {
+      toast.error(result.error);
+    } else if (result.message) {
+      toast.success(result.message);
+    }
+  }, [actionData]);
+
+  return (
+    <div className="space-y-6 max-w-xl">
+      <div>
+        <h1 className="text-3xl font-bold">Official Line</h1>
+        <p className="text-muted-foreground mt-2">
+          Picks lock against the official line. Consensus is the median across every
+          bookmaker; a specific book falls back to consensus on games it doesn't cover.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Line source</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form method="post" className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="source">Official line comes from</Label>
+              <select
+                id="source"
+                name="source"
+                defaultValue={officialSource}
+                className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              >
+                <option value={CONSENSUS_SOURCE}>Consensus (median)</option>
+                {bookmakers.map((bookmaker) => (
+                  <option key={bookmaker} value={bookmaker}>
+                    {bookmaker}
+                  </option>
+                ))}
+                {officialSource !== CONSENSUS_SOURCE && !bookmakers.includes(officialSource) && (
+                  <option value={officialSource}>{officialSource}</option>
+                )}
+              </select>
+            </div>
+            {updatedAt && (
+              <p className="text-xs text-muted-foreground" suppressHydrationWarning>
+                Last changed {new Date(updatedAt).toLocaleString()}
+              </p>
+            )}
+            <Button type="submit" disabled={navigation.state === "submitting"}>
+              Save and apply
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { Form, useLoaderData } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/admin.pick-audit";
+import { requireAdmin } from "~/lib/auth.server";
+import { describePickRevision, type PickRevision } from "~/lib/pick-revisions";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { format, subDays } from "date-fns";
+
+const WINDOW_OPTIONS = [7, 30, 90];
+const DEFAULT_WINDOW = 30;
+
+const FLAG_LABELS: Record<string, string> = {
+  potd_after_final: "POTD after a final",
+  after_lock: "After tip-off",
+};
+
+interface SuspiciousRevision {
+  revision_id: string;
+  changed_at: string;
+  user_id: string;
+  username: string;
+  game_id: string;
+  matchup: string;
+  game_date: string;
+  pick_type: string;
+  change_type: string;
+  old_is_pick_of_day: boolean | null;
+  new_is_pick_of_day: boolean | null;
+  flag: string;
+  detail: string | null;
+}
+
+type RevisionWithTeams = PickRevision & {
+  game: {
+    home_team: { id: string; short_name: string };
+    away_team: { id: string; short_name: string };
+  } | null;
+};
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase, headers } = await requireAdmin(request);
+
+  const url = new URL(request.url);
+  const requestedDays = Number(url.searchParams.get("days"));
+  const days = WINDOW_OPTIONS.includes(requestedDays) ? requestedDays : DEFAULT_WINDOW;
+
+  const { data: flagged, error } = await supabase.rpc("get_suspicious_pick_revisions", {
+    since_date: format(subDays(new Date(), days), "yyyy-MM-dd"),
+  });
+
+  if (error) {
+    console.error("Error fetching pick audit:", error);
+  }
+
+  const rows = (flagged || []) as SuspiciousRevision[];
+  const revisionIds = Array.from(new Set(rows.map((row) => row.revision_id)));
+
+  // Full revisions so each row can say what actually changed
+  const { data: revisions } = revisionIds.length
+    ? await supabase
+        .from("pick_revisions")
+        .select(
+          `
+          *,
+          game:games(
+            home_team:teams!games_home_team_id_fkey(id, short_name),
+            away_team:teams!games_away_team_id_fkey(id, short_name)
+          )
+        `
+        )
+        .in("id", revisionIds)
+    : { data: [] };
+
+  const revisionsById = new Map(
+    ((revisions || []) as RevisionWithTeams[]).map((revision) => [revision.id, revision])
+  );
+
+  return data(
+    {
+      days,
+      rows: rows.map((row) => {
+        const revision = revisionsById.get(row.revision_id);
+        return {
+          ...row,
+          change:
+            revision && revision.game
+              ? describePickRevision(revision, [revision.game.away_team, revision.game.home_team])
+              : null,
+        };
+      }),
+    },
+    { headers }
+  );
+}
+
+export function meta(_: Route.MetaArgs) {
+  return [{ title: "Pick Audit - Admin" }];
+}
+
+export default function AdminPickAudit() {
+  const { days, rows } = useLoaderData<typeof loader>();
+  const flaggedUsers = new Set(rows.map((row) => row.user_id)).size;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Pick Audit</h1>
+        <p className="text-muted-foreground mt-2">
+          Pick changes worth a second look: Pick of the Day moved after another game that
+          day had already gone final, and any change recorded after tip-off.
+        </p>
+      </div>
+
+      <Form method="get" className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Last</span>
+        {WINDOW_OPTIONS.map((option) => (
+          <Button
+            key={option}
+            type="submit"
+            name="days"
+            value={option}
+            size="sm"
+            variant={option === days ? "default" : "outline"}
+          >
+            {option} days
+          </Button>
+        ))}
+      </Form>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {rows.length} flagged {rows.length === 1 ? "change" : "changes"}
+            {rows.length > 0 && ` from ${flaggedUsers} ${flaggedUsers === 1 ? "user" : "users"}`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing suspicious in this window.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Game</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Flag</TableHead>
+                  <TableHead>Why</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={`${row.revision_id}-${row.flag}`}>
+                    <TableCell className="whitespace-nowrap" suppressHydrationWarning>
+                      {format(new Date(row.changed_at), "MMM d, h:mm:ss a")}
+                    </TableCell>
+                    <TableCell className="font-medium">@{row.username}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div>{row.matchup}</div>
+                      <div className="text-xs text-muted-foreground" suppressHydrationWarning>
+                        Tip {format(new Date(row.game_date), "MMM d, h:mm a")}
+                      </div>
+                    </TableCell>
+                    <TableCell>{row.change ?? row.change_type}</TableCell>
+                    <TableCell>
+                      <Badge variant={row.flag === "after_lock" ? "destructive" : "secondary"}>
+                        {FLAG_LABELS[row.flag] ?? row.flag}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{row.detail}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import type { Route } from './+types/admin.pipeline'
 import { requireAuth } from '~/lib/auth.server'
 import { createClient } from '@supabase/supabase-js'
 import { inngest } from '../../inngest/client'
+import { getOddsApiBudget } from '../../lib/odds-api/quota'
+import { OddsBudgetChart } from '~/components/OddsBudgetChart'
 
 export async function loader({ request }: Route.LoaderArgs) {
   const { user, supabase } = await requireAuth(request)
@@ -35,11 +37,15 @@ export async function loader({ request }: Route.LoaderArgs) {
     .order('started_at', { ascending: false })
     .limit(20)
 
+  // Odds API credits this month
+  const oddsBudget = await getOddsApiBudget(supabase)
+
   return {
     pipelineRuns: pipelineRuns || [],
     dataFreshness: dataFreshness || [],
     circuitBreakers: circuitBreakers || [],
     scraperRuns: scraperRuns || [],
+    oddsBudget,
   }
 }
 
@@ -104,7 +110,7 @@ export async function action({ request }: Route.ActionArgs) {
 }
 
 export default function PipelineMonitoring({ loaderData }: Route.ComponentProps) {
-  const { pipelineRuns, dataFreshness, circuitBreakers, scraperRuns } = loaderData
+  const { pipelineRuns, dataFreshness, circuitBreakers, scraperRuns, oddsBudget } = loaderData
 
   return (
     <div className="space-y-8">
@@ -151,6 +157,49 @@ export default function PipelineMonitoring({ loaderData }: Route.ComponentProps)
         </div>
       </div>
 
+      {/* Odds API Budget */}
+      <div className="bg-card rounded-lg border p-6">
+        <h2 className="text-xl font-semibold mb-4">Odds API Budget</h2>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+          <div>
+            <div className="text-muted-foreground">Remaining</div>
+            <div className="text-2xl font-bold tabular-nums">
+              {oddsBudget.remaining}/{oddsBudget.quota}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Reserved for daily scrape</div>
+            <div className="text-2xl font-bold tabular-nums">{oddsBudget.reserved}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Score polling</div>
+            <div className="text-2xl font-bold tabular-nums">
+              {oddsBudget.pollIntervalMinutes === null
+                ? 'Paused'
+                : `Every ${Math.round(oddsBudget.pollIntervalMinutes)}m`}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Last score poll</div>
+            <div className="text-2xl font-bold tabular-nums">
+              {oddsBudget.lastScoresCallAt
+                ? new Date(oddsBudget.lastScoresCallAt).toLocaleTimeString()
+                : '-'}
+            </div>
+          </div>
+        </div>
+        <OddsBudgetChart
+          quota={oddsBudget.quota}
+          history={oddsBudget.history}
+          projectedMonthEnd={oddsBudget.projectedMonthEnd}
+        />
+        <p className="text-xs text-muted-foreground mt-2">
+          Score polling is the base interval for games with pending picks; Pick of the Day
+          games are polled twice as often and games without picks a third as often.
+          ESPN and NCAA cover the runs in between.
+        </p>
+      </div>
+
       {/* Recent Pipeline Runs */}
       <div className="bg-card rounded-lg border p-6">
         <h2 className="text-xl font-semibold mb-4">Recent Pipeline Runs</h2>
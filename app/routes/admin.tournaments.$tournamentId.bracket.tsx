@@ -179,7 +179,7 @@ Rules:
       const gameDatetime = `${defaultDate}T${defaultTime}:00`;
       const { data: tournamentData } = await supabase
         .from('tournaments')
-        .select('metadata')
+        .select('location')
         .eq('id', tournamentId)
         .single();
 
@@ -206,7 +206,8 @@ Rules:
             tournament_round: 'first_round',
             tournament_metadata: {},
             status: 'scheduled',
-            conference_id: tournamentData?.metadata?.conference_id || null,
+            venue: tournamentData?.location || null,
+            neutral_site: true,
           });
         } else {
           errors.push(`Could not match teams: ${matchup.homeTeam} vs ${matchup.awayTeam}`);
@@ -244,6 +245,8 @@ Rules:
       const gameTime = formData.get('game_time') as string;
       const round = formData.get('round') as string || 'first_round';
       const region = formData.get('region') as string || null;
+      const venue = formData.get('venue') as string || null;
+      const neutralSite = formData.get('neutral_site') === 'on';
 
       console.log('Creating matchup:', {
         homeTeamId,
@@ -255,13 +258,6 @@ Rules:
       // Combine date and time
       const gameDatetime = `${gameDate}T${gameTime}:00`;
 
-      // Get the tournament to find conference_id (tournaments are typically associated with a conference or neutral)
-      const { data: tournamentData } = await supabase
-        .from('tournaments')
-        .select('metadata')
-        .eq('id', tournamentId)
-        .single();
-
       const { error } = await supabase.from('games').insert({
         tournament_id: tournamentId,
         home_team_id: homeTeamId,
@@ -270,7 +266,8 @@ Rules:
         tournament_round: round,
         tournament_metadata: region ? { region } : {},
         status: 'scheduled',
-        conference_id: tournamentData?.metadata?.conference_id || null, // Use tournament conference or null for neutral site
+        venue,
+        neutral_site: neutralSite,
       });
 
       if (error) {
@@ -337,6 +334,12 @@ Rules:
         }
       }
 
+      const { data: tournamentData } = await supabase
+        .from('tournaments')
+        .select('location')
+        .eq('id', tournamentId)
+        .single();
+
       // Insert all matchups
       const { error } = await supabase.from('games').insert(
         matchups.map((m) => ({
@@ -344,6 +347,8 @@ Rules:
           tournament_id: tournamentId,
           tournament_round: 'first_round',
           status: 'scheduled',
+          venue: tournamentData?.location || null,
+          neutral_site: true,
         }))
       );
 
@@ -516,6 +521,21 @@ export default function TournamentBracketBuilder() {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium mb-1">Venue</label>
+                  <input
+                    type="text"
+                    name="venue"
+                    defaultValue={tournament.location || ''}
+                    className="w-full px-3 py-2 border rounded-md bg-background"
+                  />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" name="neutral_site" defaultChecked />
+                  Neutral site
+                </label>
+
                 <button
                   type="submit"
                   disabled={isSubmitting}
@@ -12,6 +12,7 @@ import { scrapeESPNPlayers } from '../../inngest/functions/scrape-espn-players'
 import { analyzeMatchup } from '../../inngest/functions/analyze-matchup'
 import { dataPipelineOrchestrator, triggerDataPipeline } from '../../inngest/functions/data-pipeline-orchestrator'
 import { generateDailyPuzzle, backfillPuzzles } from '../../inngest/functions/generate-daily-puzzle'
+import { sendPickReminders, sendResultsDigests } from '../../inngest/functions/send-notifications'
 
 const handler = serve({
   client: inngest,
@@ -34,6 +35,10 @@ const handler = serve({
     // Stat Chain puzzle generation
     generateDailyPuzzle,
     backfillPuzzles,
+
+    // Email notifications
+    sendPickReminders,
+    sendResultsDigests,
   ],
 })
 
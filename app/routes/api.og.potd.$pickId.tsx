@@ -1,6 +1,7 @@
 import { ImageResponse } from "@vercel/og";
 import { createServerClient } from "@supabase/ssr";
 import type { LoaderFunctionArgs } from "react-router";
+import { formatLine } from "~/lib/line-movement";
 
 export async function loader({ params, request }: LoaderFunctionArgs) {
   const { pickId } = params;
@@ -84,11 +85,8 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
   const pickedTeam = pick.picked_team_id === homeTeam.id ? homeTeam : awayTeam;
   const otherTeam = pick.picked_team_id === homeTeam.id ? awayTeam : homeTeam;
 
-  // Determine if picked team is favorite and format spread
-  const pickedTeamIsFavorite = game.favorite_team_id === pick.picked_team_id;
-  const spreadDisplay = pickedTeamIsFavorite
-    ? `-${Math.abs(pick.spread_at_pick_time)}`
-    : `+${Math.abs(pick.spread_at_pick_time)}`;
+  // spread_at_pick_time is the signed line for the picked side
+  const spreadDisplay = formatLine(Number(pick.spread_at_pick_time));
 
   // Get username or default
   const username = profile?.username || "Anonymous";
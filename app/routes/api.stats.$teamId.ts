@@ -1,5 +1,6 @@
 import type { Route } from './+types/api.stats.$teamId'
 import { createClient } from '@supabase/supabase-js'
+import { getCurrentSeasonId } from '~/lib/seasons.server'
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -22,14 +23,9 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   const seasonParam = url.searchParams.get('season')
   const sourceParam = url.searchParams.get('source') || 'all'
 
-  // Determine current season
-  const now = new Date()
-  const month = now.getMonth() + 1
-  const year = now.getFullYear()
-  const currentSeason = month >= 8 ? year + 1 : year
-  const season = seasonParam ? parseInt(seasonParam) : currentSeason
-
   try {
+    const season = seasonParam ? parseInt(seasonParam) : await getCurrentSeasonId(supabase)
+
     // Fetch stats based on source parameter
     let query = supabase
       .from('team_stats')
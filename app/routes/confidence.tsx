@@ -0,0 +1,434 @@
+import { useEffect, useState } from "react";
+import { Link, useFetcher, useLoaderData } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/confidence";
+import { requireAuth } from "~/lib/auth.server";
+import { getActiveLeague } from "~/lib/leagues.server";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { ChevronLeft, ChevronRight, GripVertical, Lock } from "lucide-react";
+import { addDays, format, isPast, parseISO, isValid, startOfWeek } from "date-fns";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { cn } from "~/lib/utils";
+
+type ConfidencePick = {
+  id: string;
+  picked_team_id: string;
+  spread_at_pick_time: number;
+  confidence_points: number | null;
+  result: "pending" | "won" | "lost" | "push" | "void";
+  game: {
+    id: string;
+    game_date: string;
+    status: "scheduled" | "in_progress" | "completed" | "postponed" | "cancelled";
+    home_team: { id: string; short_name: string };
+    away_team: { id: string; short_name: string };
+  };
+};
+
+type LeaderboardRow = {
+  user_id: string;
+  username: string;
+  points: number;
+  points_possible: number;
+  points_pending: number;
+  ranked_picks: number;
+  wins: number;
+  losses: number;
+};
+
+// Weeks run Monday-Sunday, matching the weekly metrics windows
+function weekStartFor(date: Date): string {
+  return format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+}
+
+function isLocked(pick: ConfidencePick): boolean {
+  return pick.game.status !== "scheduled" || isPast(new Date(pick.game.game_date));
+}
+
+function formatLine(line: number): string {
+  return line > 0 ? `+${line}` : line === 0 ? "PK" : `${line}`;
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+
+  const url = new URL(request.url);
+  const weekParam = url.searchParams.get("week");
+  const parsed = weekParam ? parseISO(weekParam) : null;
+  const weekStart = weekStartFor(parsed && isValid(parsed) ? parsed : new Date());
+
+  const activeLeague = await getActiveLeague(supabase, user.id);
+
+  const [picksResult, leaderboardResult] = await Promise.all([
+    supabase
+      .from("picks")
+      .select(
+        `
+        id,
+        picked_team_id,
+        spread_at_pick_time,
+        confidence_points,
+        result,
+        game:games!inner(
+          id,
+          game_date,
+          status,
+          home_team:teams!games_home_team_id_fkey(id, short_name),
+          away_team:teams!games_away_team_id_fkey(id, short_name)
+        )
+      `
+      )
+      .eq("user_id", user.id)
+      .eq("pick_type", "spread")
+      .eq("confidence_week", weekStart),
+    supabase.rpc("get_weekly_confidence_leaderboard", {
+      week_start: weekStart,
+      league_uuid: activeLeague?.league.id ?? null,
+    }),
+  ]);
+
+  if (picksResult.error) {
+    console.error("Error fetching confidence picks:", picksResult.error);
+  }
+  if (leaderboardResult.error) {
+    console.error("Error fetching confidence leaderboard:", leaderboardResult.error);
+  }
+
+  const picks = ((picksResult.data || []) as unknown as ConfidencePick[]).sort(
+    (a, b) =>
+      (b.confidence_points ?? 0) - (a.confidence_points ?? 0) ||
+      new Date(a.game.game_date).getTime() - new Date(b.game.game_date).getTime()
+  );
+
+  return data(
+    {
+      weekStart,
+      picks,
+      leaderboard: (leaderboardResult.data || []) as LeaderboardRow[],
+      leagueName: activeLeague?.league.name ?? null,
+      userId: user.id,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "save-order") {
+    const weekStart = formData.get("weekStart") as string;
+    const pickIds = formData.getAll("pickId") as string[];
+
+    const { error } = await supabase.rpc("set_confidence_order", {
+      week_start: weekStart,
+      ordered_pick_ids: pickIds,
+    });
+
+    if (error) {
+      return data({ error: error.message }, { status: 400, headers });
+    }
+
+    return data({ message: "Confidence order saved" }, { headers });
+  }
+
+  return data({ error: "Unknown action" }, { status: 400, headers });
+}
+
+export function meta(_: Route.MetaArgs) {
+  return [{ title: "Confidence Pool - CBB Picks" }];
+}
+
+interface SortablePickItemProps {
+  pick: ConfidencePick;
+  points: number;
+}
+
+/**
+ * Unlocked pick that can be dragged to change its confidence value
+ */
+function SortablePickItem({ pick, points }: SortablePickItemProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: pick.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        "flex items-center gap-3 rounded-lg border bg-card p-3 transition-shadow",
+        isDragging && "shadow-lg opacity-50"
+      )}
+    >
+      <button
+        type="button"
+        className="cursor-grab touch-none text-muted-foreground hover:text-foreground active:cursor-grabbing"
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="h-5 w-5" />
+      </button>
+      <PickSummary pick={pick} points={points} />
+    </div>
+  );
+}
+
+function PickSummary({ pick, points }: { pick: ConfidencePick; points: number | null }) {
+  const pickedTeam =
+    pick.picked_team_id === pick.game.home_team.id ? pick.game.home_team : pick.game.away_team;
+
+  return (
+    <>
+      <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary text-sm font-bold text-primary-foreground">
+        {points ?? "–"}
+      </div>
+      <div className="flex-1">
+        <div className="font-medium">
+          {pickedTeam.short_name} {formatLine(Number(pick.spread_at_pick_time))}
+        </div>
+        <div className="text-xs text-muted-foreground" suppressHydrationWarning>
+          {pick.game.away_team.short_name} @ {pick.game.home_team.short_name} ·{" "}
+          {format(new Date(pick.game.game_date), "EEE h:mm a")}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default function Confidence() {
+  const { weekStart, picks, leaderboard, leagueName, userId } =
+    useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+
+  const lockedPicks = picks.filter(isLocked);
+  const unlockedPicks = picks.filter((pick) => !isLocked(pick));
+
+  const [order, setOrder] = useState(unlockedPicks.map((pick) => pick.id));
+
+  // Reset the local order when the week or saved values change
+  const unlockedKey = unlockedPicks.map((pick) => `${pick.id}:${pick.confidence_points}`).join(",");
+  const [orderKey, setOrderKey] = useState(unlockedKey);
+  if (orderKey !== unlockedKey) {
+    setOrderKey(unlockedKey);
+    setOrder(unlockedPicks.map((pick) => pick.id));
+  }
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    const result = fetcher.data as { error?: string; message?: string };
+    if (result.error) {
+      toast.error(result.error);
+    } else if (result.message) {
+      toast.success(result.message);
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (over && active.id !== over.id) {
+      setOrder((current) =>
+        arrayMove(current, current.indexOf(active.id as string), current.indexOf(over.id as string))
+      );
+    }
+  };
+
+  // Mirror set_confidence_order: locked values stay, the rest are handed out top-down
+  const lockedValues = new Set(
+    lockedPicks.map((pick) => pick.confidence_points).filter((v): v is number => v !== null)
+  );
+  const freeValues = Array.from({ length: picks.length }, (_, i) => picks.length - i).filter(
+    (v) => !lockedValues.has(v)
+  );
+  const unrankedLockedCount = lockedPicks.filter((pick) => pick.confidence_points === null).length;
+  const previewPoints = new Map(order.map((id, index) => [id, freeValues[index] ?? 0]));
+  const picksById = new Map(unlockedPicks.map((pick) => [pick.id, pick]));
+
+  const weekDate = parseISO(weekStart);
+  const weekLabel = `${format(weekDate, "MMM d")} – ${format(addDays(weekDate, 6), "MMM d")}`;
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="text-3xl font-bold">Confidence Pool</h1>
+        <p className="text-muted-foreground mt-2">
+          Rank your spread picks for the week. Your most confident pick is worth {picks.length || "N"}{" "}
+          points, your least confident is worth 1, and you earn a pick's points when it covers.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" asChild>
+          <Link to={`?week=${format(addDays(weekDate, -7), "yyyy-MM-dd")}`}>
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Link>
+        </Button>
+        <span className="font-medium">{weekLabel}</span>
+        <Button variant="outline" size="sm" asChild>
+          <Link to={`?week=${format(addDays(weekDate, 7), "yyyy-MM-dd")}`}>
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your order</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {picks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No spread picks this week. Make picks on the{" "}
+              <Link to="/" className="underline">
+                Games
+              </Link>{" "}
+              page, then rank them here.
+            </p>
+          ) : (
+            <>
+              {unlockedPicks.length > 0 && (
+                <fetcher.Form method="post" className="space-y-3">
+                  <input type="hidden" name="intent" value="save-order" />
+                  <input type="hidden" name="weekStart" value={weekStart} />
+                  {order.map((id) => (
+                    <input key={id} type="hidden" name="pickId" value={id} />
+                  ))}
+                  <DndContext
+                    sensors={sensors}
+                    collisionDetection={closestCenter}
+                    onDragEnd={handleDragEnd}
+                  >
+                    <SortableContext items={order} strategy={verticalListSortingStrategy}>
+                      <div className="space-y-2">
+                        {order.map((id) => {
+                          const pick = picksById.get(id);
+                          if (!pick) return null;
+                          return (
+                            <SortablePickItem key={id} pick={pick} points={previewPoints.get(id) ?? 0} />
+                          );
+                        })}
+                      </div>
+                    </SortableContext>
+                  </DndContext>
+                  {unrankedLockedCount > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {unrankedLockedCount} locked pick{unrankedLockedCount === 1 ? " was" : "s were"}{" "}
+                      never ranked and will take the lowest values when you save.
+                    </p>
+                  )}
+                  <Button type="submit" disabled={fetcher.state !== "idle"}>
+                    Save order
+                  </Button>
+                </fetcher.Form>
+              )}
+
+              {lockedPicks.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Locked</h3>
+                  {lockedPicks.map((pick) => (
+                    <div
+                      key={pick.id}
+                      className={cn(
+                        "flex items-center gap-3 rounded-lg border bg-muted/40 p-3",
+                        pick.result === "won" && "border-green-500",
+                        pick.result === "lost" && "border-red-500"
+                      )}
+                    >
+                      <Lock className="h-5 w-5 text-muted-foreground" />
+                      <PickSummary pick={pick} points={pick.confidence_points} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Leaderboard{leagueName ? ` · ${leagueName}` : ""}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {leaderboard.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No ranked picks this week yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Player</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                  <TableHead className="text-right">Record</TableHead>
+                  <TableHead className="text-right">In play</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leaderboard.map((row, index) => (
+                  <TableRow key={row.user_id} className={cn(row.user_id === userId && "bg-muted/50")}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-medium">{row.username}</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {row.points}
+                      <span className="text-muted-foreground font-normal"> / {row.points_possible}</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.wins}-{row.losses}
+                    </TableCell>
+                    <TableCell className="text-right">{row.points_pending}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
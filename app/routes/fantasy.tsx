@@ -1,6 +1,8 @@
 import { useLoaderData, useActionData, Form } from 'react-router'
 // import type { Route } from './+types/fantasy'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { requireAuth } from '~/lib/auth.server'
+import { getSeasonContext } from '~/lib/seasons.server'
 
 // Temporary type until route types are generated
 type Route = {
@@ -13,6 +15,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~
 import { Badge } from '~/components/ui/badge'
 import { Separator } from '~/components/ui/separator'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '~/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '~/components/ui/table'
+import { SeasonSelector } from '~/components/SeasonSelector'
 import { toast } from 'sonner'
 import { useEffect, useState } from 'react'
 
@@ -39,6 +43,13 @@ type FantasySeason = {
   is_active: boolean
 }
 
+type Standing = {
+  user_id: string
+  username: string
+  total_points: number
+  weeks_played: number
+}
+
 type ExistingLineup = {
   id: string
   teams: Array<{
@@ -66,15 +77,29 @@ type LineupStats = {
 export async function loader({ request }: Route.LoaderArgs) {
   const { user, headers, supabase } = await requireAuth(request)
 
-  // Get active season
-  const { data: season } = await supabase
-    .from('fantasy_seasons')
-    .select('*')
-    .eq('is_active', true)
-    .single()
+  const { seasons, currentSeason, selectedSeason } = await getSeasonContext(supabase, request)
+  const seasonPicker = {
+    seasons,
+    currentSeasonId: currentSeason?.id ?? null,
+    selectedSeasonId: selectedSeason?.id ?? null,
+  }
+  const isArchived = !!selectedSeason && selectedSeason.id !== currentSeason?.id
+
+  // The active fantasy season, or for a past season the one played in it (read-only)
+  let seasonQuery = supabase.from('fantasy_seasons').select('*')
+  seasonQuery = isArchived
+    ? seasonQuery.eq('season_id', selectedSeason.id).order('start_date', { ascending: false })
+    : seasonQuery.eq('is_active', true)
+  const { data: season } = await seasonQuery.limit(1).maybeSingle()
 
   if (!season) {
-    return { user, season: null, currentWeek: null, powerTeams: [], midMajorTeams: [], existingLineup: null, headers }
+    return { user, season: null, currentWeek: null, powerTeams: [], midMajorTeams: [], existingLineup: null, lineupStats: null, standings: [], seasonPicker, isArchived, headers }
+  }
+
+  const standings = await getStandings(supabase, season.id)
+
+  if (isArchived) {
+    return { user, season, currentWeek: null, powerTeams: [], midMajorTeams: [], existingLineup: null, lineupStats: null, standings, seasonPicker, isArchived, headers }
   }
 
   // Get current week (first non-locked week)
@@ -88,7 +113,7 @@ export async function loader({ request }: Route.LoaderArgs) {
     .single()
 
   if (!currentWeek) {
-    return { user, season, currentWeek: null, powerTeams: [], midMajorTeams: [], existingLineup: null, lineupStats: null, headers }
+    return { user, season, currentWeek: null, powerTeams: [], midMajorTeams: [], existingLineup: null, lineupStats: null, standings, seasonPicker, isArchived, headers }
   }
 
   // Get existing lineup for this week
@@ -160,10 +185,42 @@ export async function loader({ request }: Route.LoaderArgs) {
     midMajorTeams: midMajorTeams || [],
     existingLineup,
     lineupStats,
+    standings,
+    seasonPicker,
+    isArchived,
     headers
   }
 }
 
+async function getStandings(
+  supabase: SupabaseClient,
+  seasonId: string
+): Promise<Standing[]> {
+  const { data: rows, error } = await supabase
+    .from('fantasy_standings')
+    .select('user_id, total_points, weeks_played')
+    .eq('season_id', seasonId)
+    .order('total_points', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching fantasy standings:', error)
+    return []
+  }
+
+  const userIds = (rows || []).map((row) => row.user_id)
+  const { data: profiles } = userIds.length
+    ? await supabase.from('profiles').select('id, username').in('id', userIds)
+    : { data: [] }
+  const usernames = new Map((profiles || []).map((profile: { id: string; username: string }) => [profile.id, profile.username]))
+
+  return (rows || []).map((row) => ({
+    user_id: row.user_id,
+    username: usernames.get(row.user_id) || 'Unknown',
+    total_points: Number(row.total_points),
+    weeks_played: row.weeks_played,
+  }))
+}
+
 export async function action({ request }: Route.ActionArgs) {
   const { user, headers, supabase } = await requireAuth(request)
   const formData = await request.formData()
@@ -274,7 +331,8 @@ export async function action({ request }: Route.ActionArgs) {
 }
 
 export default function Fantasy() {
-  const { season, currentWeek, powerTeams, midMajorTeams, existingLineup, lineupStats } = useLoaderData<typeof loader>()
+  const { season, currentWeek, powerTeams, midMajorTeams, existingLineup, lineupStats, standings, seasonPicker, isArchived } =
+    useLoaderData<typeof loader>()
   const actionData = useActionData<typeof action>()
 
   const [selectedTeams, setSelectedTeams] = useState<Record<string, string>>({
@@ -295,15 +353,43 @@ export default function Fantasy() {
     }
   }, [actionData])
 
+  const seasonSelector = (
+    <SeasonSelector
+      seasons={seasonPicker.seasons}
+      selectedSeasonId={seasonPicker.selectedSeasonId}
+      currentSeasonId={seasonPicker.currentSeasonId}
+    />
+  )
+
+  // Past seasons are read-only: just the final standings
+  if (season && isArchived) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Elimination Fantasy</h1>
+            <p className="text-slate-600 dark:text-slate-400 mt-1">{season.name} - Final standings</p>
+          </div>
+          {seasonSelector}
+        </div>
+        <FantasyStandings standings={standings} />
+      </div>
+    )
+  }
+
   if (!season || !currentWeek) {
     return (
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex justify-end">{seasonSelector}</div>
         <Card>
           <CardHeader>
             <CardTitle>Fantasy League</CardTitle>
-            <CardDescription>No active season or week available</CardDescription>
+            <CardDescription>
+              {isArchived ? 'No fantasy season was played that season' : 'No active season or week available'}
+            </CardDescription>
           </CardHeader>
         </Card>
+        {season && <FantasyStandings standings={standings} />}
       </div>
     )
   }
@@ -329,11 +415,14 @@ export default function Fantasy() {
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Elimination Fantasy</h1>
-        <p className="text-slate-600 dark:text-slate-400 mt-1">
-          {season.name} - Week {currentWeek.week_number}
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Elimination Fantasy</h1>
+          <p className="text-slate-600 dark:text-slate-400 mt-1">
+            {season.name} - Week {currentWeek.week_number}
+          </p>
+        </div>
+        {seasonSelector}
       </div>
 
       <Tabs defaultValue="lineup" className="space-y-6">
@@ -565,14 +654,44 @@ export default function Fantasy() {
         </TabsContent>
 
         <TabsContent value="standings">
-          <Card>
-            <CardHeader>
-              <CardTitle>Season Standings</CardTitle>
-              <CardDescription>Coming soon</CardDescription>
-            </CardHeader>
-          </Card>
+          <FantasyStandings standings={standings} />
         </TabsContent>
       </Tabs>
     </div>
   )
 }
+
+function FantasyStandings({ standings }: { standings: Standing[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Season Standings</CardTitle>
+        {standings.length === 0 && <CardDescription>No weeks have been scored yet</CardDescription>}
+      </CardHeader>
+      {standings.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-right">Weeks</TableHead>
+                <TableHead className="text-right">Points</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {standings.map((standing, index) => (
+                <TableRow key={standing.user_id}>
+                  <TableCell className="font-medium">{index + 1}</TableCell>
+                  <TableCell>@{standing.username}</TableCell>
+                  <TableCell className="text-right">{standing.weeks_played}</TableCell>
+                  <TableCell className="text-right font-semibold">{standing.total_points.toFixed(1)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,142 @@
+import { useEffect, useRef } from "react";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/feed.$pickId";
+import { requireAuth } from "~/lib/auth.server";
+import { addWriteupReply, deleteWriteupReply, getWriteup } from "~/lib/writeups.server";
+import { REPLY_MAX_LENGTH } from "~/lib/writeups";
+import { WriteupCard } from "~/components/WriteupCard";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+
+  const result = await getWriteup(supabase, params.pickId);
+  if (!result) {
+    throw new Response("Write-up not found", { status: 404 });
+  }
+
+  return data({ userId: user.id, ...result }, { headers });
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  try {
+    if (intent === "reply") {
+      await addWriteupReply(supabase, user.id, params.pickId, (formData.get("body") as string) || "");
+      return data({ success: true, message: "Reply posted" }, { headers });
+    }
+
+    if (intent === "delete-reply") {
+      await deleteWriteupReply(supabase, user.id, formData.get("replyId") as string);
+      return data({ success: true, message: "Reply deleted" }, { headers });
+    }
+  } catch (error) {
+    return data(
+      { error: error instanceof Error ? error.message : "Something went wrong" },
+      { status: 400, headers }
+    );
+  }
+
+  return data({ error: "Invalid intent" }, { status: 400, headers });
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    {
+      title: data
+        ? `@${data.writeup.username}'s write-up - College Basketball Picks`
+        : "Write-up - College Basketball Picks",
+    },
+  ];
+}
+
+export default function WriteupDetail() {
+  const { userId, writeup, replies } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const replyFormRef = useRef<HTMLFormElement>(null);
+
+  useEffect(() => {
+    if (!actionData) return;
+    const result = actionData as { error?: string; message?: string };
+    if (result.error) {
+      toast.error(result.error);
+    } else if (result.message) {
+      toast.success(result.message);
+      replyFormRef.current?.reset();
+    }
+  }, [actionData]);
+
+  const locked =
+    writeup.pick.game.status !== "scheduled" || new Date(writeup.pick.game.game_date) <= new Date();
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <Link to="/feed" className="text-sm text-muted-foreground hover:underline">
+        ← Feed
+      </Link>
+
+      <WriteupCard writeup={writeup} userId={userId} linkToReplies={false} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {replies.length} {replies.length === 1 ? "Reply" : "Replies"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {replies.map((reply) => (
+            <div key={reply.id} className="border-b pb-3 last:border-b-0">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-medium">@{reply.username}</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground" suppressHydrationWarning>
+                    {format(new Date(reply.created_at), "MMM d, h:mm a")}
+                  </span>
+                  {reply.user_id === userId && (
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="delete-reply" />
+                      <input type="hidden" name="replyId" value={reply.id} />
+                      <Button type="submit" variant="ghost" size="sm" className="h-6 px-1" disabled={isSubmitting}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </Form>
+                  )}
+                </div>
+              </div>
+              <p className="text-sm mt-1 whitespace-pre-line">{reply.body}</p>
+            </div>
+          ))}
+
+          {locked ? (
+            <Form method="post" ref={replyFormRef} className="space-y-2">
+              <input type="hidden" name="intent" value="reply" />
+              <textarea
+                name="body"
+                required
+                maxLength={REPLY_MAX_LENGTH}
+                rows={3}
+                placeholder="Reply..."
+                className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              />
+              <Button type="submit" size="sm" disabled={isSubmitting}>
+                Reply
+              </Button>
+            </Form>
+          ) : (
+            <p className="text-sm text-muted-foreground">Replies open once the game tips off.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { Link, useLoaderData, useSearchParams } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/feed";
+import { requireAuth } from "~/lib/auth.server";
+import { getFavoriteTeamIds } from "~/lib/favorites.server";
+import {
+  getWriteupFeed,
+  saveWriteup,
+  toggleWriteupReaction,
+} from "~/lib/writeups.server";
+import { WriteupCard } from "~/components/WriteupCard";
+import { Button } from "~/components/ui/button";
+import { Heart } from "lucide-react";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+
+  const url = new URL(request.url);
+  const myTeamsOnly = url.searchParams.get("myTeamsOnly") === "true";
+
+  // Favorite-team filter: write-ups on games involving one of the user's teams
+  let teamIds: string[] | null = null;
+  let hasFavorites = true;
+  if (myTeamsOnly) {
+    teamIds = await getFavoriteTeamIds(supabase, user.id);
+    hasFavorites = teamIds.length > 0;
+  }
+
+  const writeups = await getWriteupFeed(supabase, { teamIds });
+
+  return data({ userId: user.id, writeups, myTeamsOnly, hasFavorites }, { headers });
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const pickId = formData.get("pickId") as string;
+
+  try {
+    if (intent === "save-writeup") {
+      const body = (formData.get("body") as string) || "";
+      await saveWriteup(supabase, user.id, pickId, body);
+      return data(
+        { success: true, message: body.trim() ? "Write-up saved" : "Write-up removed" },
+        { headers }
+      );
+    }
+
+    if (intent === "react") {
+      await toggleWriteupReaction(supabase, user.id, pickId, formData.get("emoji") as string);
+      return data({ success: true }, { headers });
+    }
+  } catch (error) {
+    return data(
+      { error: error instanceof Error ? error.message : "Something went wrong" },
+      { status: 400, headers }
+    );
+  }
+
+  return data({ error: "Invalid intent" }, { status: 400, headers });
+}
+
+export function meta(_: Route.MetaArgs) {
+  return [
+    { title: "Feed - College Basketball Picks" },
+    {
+      name: "description",
+      content: "Read the reasoning behind everyone's picks once games tip off",
+    },
+  ];
+}
+
+export default function Feed() {
+  const { userId, writeups, myTeamsOnly, hasFavorites } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+
+  const toggledParams = new URLSearchParams(searchParams);
+  if (myTeamsOnly) {
+    toggledParams.delete("myTeamsOnly");
+  } else {
+    toggledParams.set("myTeamsOnly", "true");
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Feed</h1>
+          <p className="text-muted-foreground mt-2">
+            Write-ups on picks. Everyone else's stay hidden until their game tips off.
+          </p>
+        </div>
+        <Button variant={myTeamsOnly ? "default" : "outline"} size="sm" asChild>
+          <Link to={`?${toggledParams.toString()}`}>
+            <Heart className="h-4 w-4 mr-1" />
+            My Teams
+          </Link>
+        </Button>
+      </div>
+
+      {writeups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {myTeamsOnly && !hasFavorites
+            ? "You haven't favorited any teams yet."
+            : "No write-ups yet. Add one from any pick on the Games page."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {writeups.map((writeup) => (
+            <WriteupCard key={writeup.pick_id} writeup={writeup} userId={userId} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
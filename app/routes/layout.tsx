@@ -14,16 +14,35 @@ import { requireAuth } from '~/lib/auth.server'
 import type { Route } from './+types/layout'
 import { useLoaderData } from 'react-router'
 import { FavoriteTeamManager } from '~/components/FavoriteTeamManager'
+import { LeagueSwitcher } from '~/components/LeagueSwitcher'
+import { NotificationBell } from '~/components/NotificationBell'
+import { getActiveLeague } from '~/lib/leagues.server'
+import { getNotifications, getUnreadNotificationCount } from '~/lib/notifications.server'
 import type { loader as rootLoader } from '~/root'
 
 export async function loader({ request }: Route.LoaderArgs) {
-  const { user } = await requireAuth(request)
-  return { user }
+  const { user, supabase } = await requireAuth(request)
+
+  // RLS only returns leagues the user belongs to
+  const [{ data: leagues }, activeLeague, notifications, unreadNotificationCount] = await Promise.all([
+    supabase.from('leagues').select('id, name').order('name'),
+    getActiveLeague(supabase, user.id),
+    getNotifications(supabase, 10),
+    getUnreadNotificationCount(supabase),
+  ])
+
+  return {
+    user,
+    leagues: leagues || [],
+    activeLeagueId: activeLeague?.league.id ?? null,
+    notifications,
+    unreadNotificationCount,
+  }
 }
 
 
 export default function Layout() {
-  const { user } = useLoaderData<typeof loader>()
+  const { user, leagues, activeLeagueId, notifications, unreadNotificationCount } = useLoaderData<typeof loader>()
   const rootData = useRouteLoaderData<typeof rootLoader>("root")
   const location = useLocation()
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
@@ -33,7 +52,11 @@ export default function Layout() {
     { name: 'Games', href: '/' },
     { name: 'My Picks', href: '/mypicks' },
     { name: 'Daily', href: '/daily' },
+    { name: 'Confidence', href: '/confidence' },
+    { name: 'Survivor', href: '/survivor' },
+    { name: 'Feed', href: '/feed' },
     { name: 'Rankings', href: '/rankings' },
+    { name: 'Leagues', href: '/leagues' },
     { name: 'Updates', href: '/updates' },
     { name: 'Metrics', href: '/metrics' },
   ]
@@ -68,6 +91,15 @@ export default function Layout() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <LeagueSwitcher
+                leagues={leagues}
+                activeLeagueId={activeLeagueId}
+                className="hidden sm:flex"
+              />
+              <NotificationBell
+                notifications={notifications}
+                unreadCount={unreadNotificationCount}
+              />
               <Button
                 variant="ghost"
                 size="sm"
@@ -77,9 +109,13 @@ export default function Layout() {
                 <Heart className="h-4 w-4" />
                 <span>My Teams</span>
               </Button>
-              <span className="hidden sm:inline text-sm text-slate-700 dark:text-slate-300 font-medium">
+              <Link
+                to="/settings"
+                className="hidden sm:inline text-sm text-slate-700 hover:text-slate-900 dark:text-slate-300 dark:hover:text-white font-medium"
+                title="Settings"
+              >
                 {user.email}
-              </span>
+              </Link>
               <Form method="post" action="/logout" className="hidden sm:block">
                 <Button type="submit" variant="outline" size="sm">
                   Sign out
@@ -116,6 +152,11 @@ export default function Layout() {
                       ))}
                     </div>
                     <div className="border-t border-slate-200 dark:border-slate-800 pt-4 mt-4 space-y-3">
+                      <LeagueSwitcher
+                        leagues={leagues}
+                        activeLeagueId={activeLeagueId}
+                        className="w-full max-w-none"
+                      />
                       <Button
                         variant="outline"
                         onClick={() => {
@@ -127,9 +168,13 @@ export default function Layout() {
                         <Heart className="h-4 w-4" />
                         <span>My Teams</span>
                       </Button>
-                      <p className="px-4 text-sm text-slate-600 dark:text-slate-400 font-medium">
+                      <Link
+                        to="/settings"
+                        onClick={() => setMobileMenuOpen(false)}
+                        className="block px-4 text-sm text-slate-600 dark:text-slate-400 font-medium"
+                      >
                         {user.email}
-                      </p>
+                      </Link>
                       <Form method="post" action="/logout">
                         <Button type="submit" variant="outline" className="w-full">
                           Sign out
@@ -0,0 +1,399 @@
+import { useEffect } from "react";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/leagues";
+import { requireAuth } from "~/lib/auth.server";
+import {
+  createLeague,
+  getActiveLeague,
+  getUserLeagues,
+  joinLeague,
+  leaveLeague,
+  setActiveLeague,
+  updateLeagueSettings,
+} from "~/lib/leagues.server";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Badge } from "~/components/ui/badge";
+import { Copy, Crown, LogOut, Plus, RefreshCw, Users } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "~/lib/utils";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+
+  const [leagues, activeLeague] = await Promise.all([
+    getUserLeagues(supabase, user.id),
+    getActiveLeague(supabase, user.id),
+  ]);
+
+  return data(
+    {
+      userId: user.id,
+      leagues,
+      activeLeagueId: activeLeague?.league.id ?? null,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const leagueId = formData.get("leagueId") as string | null;
+
+  try {
+    if (intent === "create") {
+      const name = ((formData.get("name") as string) || "").trim();
+      const maxMembers = parseInt(formData.get("maxMembers") as string);
+
+      if (!name) {
+        return data({ error: "League name is required" }, { status: 400, headers });
+      }
+
+      await createLeague(supabase, user.id, {
+        name,
+        maxMembers: Number.isNaN(maxMembers) ? null : maxMembers,
+      });
+      return data({ success: true, message: `Created ${name}` }, { headers });
+    }
+
+    if (intent === "join") {
+      const code = ((formData.get("inviteCode") as string) || "").trim();
+      if (!code) {
+        return data({ error: "Invite code is required" }, { status: 400, headers });
+      }
+
+      await joinLeague(supabase, user.id, code);
+      return data({ success: true, message: "Joined league" }, { headers });
+    }
+
+    if (intent === "set-active") {
+      await setActiveLeague(supabase, user.id, leagueId || null);
+      return data({ success: true }, { headers });
+    }
+
+    if (!leagueId) {
+      return data({ error: "League ID is required" }, { status: 400, headers });
+    }
+
+    if (intent === "leave") {
+      await leaveLeague(supabase, user.id, leagueId);
+      return data({ success: true, message: "Left league" }, { headers });
+    }
+
+    if (intent === "update-settings") {
+      const maxMembers = parseInt(formData.get("maxMembers") as string);
+      await updateLeagueSettings(supabase, leagueId, {
+        name: ((formData.get("name") as string) || "").trim() || undefined,
+        invitesOpen: formData.get("invitesOpen") === "on",
+        maxMembers: Number.isNaN(maxMembers) ? null : maxMembers,
+      });
+      return data({ success: true, message: "Settings saved" }, { headers });
+    }
+
+    if (intent === "regenerate-code") {
+      const { error } = await supabase.rpc("regenerate_league_invite_code", {
+        league_uuid: leagueId,
+      });
+      if (error) throw new Error(error.message);
+      return data({ success: true, message: "Invite code regenerated" }, { headers });
+    }
+
+    if (intent === "remove-member") {
+      const memberId = formData.get("memberId") as string;
+      const { error } = await supabase
+        .from("league_members")
+        .delete()
+        .eq("league_id", leagueId)
+        .eq("user_id", memberId)
+        .neq("role", "owner");
+      if (error) throw new Error(error.message);
+      return data({ success: true, message: "Member removed" }, { headers });
+    }
+
+    if (intent === "delete") {
+      const { error } = await supabase
+        .from("leagues")
+        .delete()
+        .eq("id", leagueId)
+        .eq("owner_id", user.id);
+      if (error) throw new Error(error.message);
+      return data({ success: true, message: "League deleted" }, { headers });
+    }
+  } catch (error) {
+    return data(
+      { error: error instanceof Error ? error.message : "Something went wrong" },
+      { status: 400, headers }
+    );
+  }
+
+  return data({ error: "Invalid intent" }, { status: 400, headers });
+}
+
+export function meta(_: Route.MetaArgs) {
+  return [
+    { title: "Leagues - College Basketball Picks" },
+    {
+      name: "description",
+      content: "Create and join private pick'em leagues",
+    },
+  ];
+}
+
+export default function Leagues() {
+  const { userId, leagues, activeLeagueId } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  useEffect(() => {
+    if (!actionData) return;
+    const result = actionData as { error?: string; message?: string };
+    if (result.error) {
+      toast.error(result.error);
+    } else if (result.message) {
+      toast.success(result.message);
+    }
+  }, [actionData]);
+
+  const copyInviteCode = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast.success("Invite code copied");
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Leagues</h1>
+        <p className="text-muted-foreground mt-2">
+          Compete with just your group. Your active league scopes the games slate,
+          others' picks and the leaderboards.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              Create a League
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="space-y-4">
+              <input type="hidden" name="intent" value="create" />
+              <div className="space-y-1">
+                <Label htmlFor="name">League name</Label>
+                <Input id="name" name="name" maxLength={60} required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maxMembers">Max members (optional)</Label>
+                <Input id="maxMembers" name="maxMembers" type="number" min={2} />
+              </div>
+              <Button type="submit" disabled={isSubmitting}>
+                Create League
+              </Button>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Join a League
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="space-y-4">
+              <input type="hidden" name="intent" value="join" />
+              <div className="space-y-1">
+                <Label htmlFor="inviteCode">Invite code</Label>
+                <Input
+                  id="inviteCode"
+                  name="inviteCode"
+                  placeholder="e.g. 3F9A1C2B"
+                  className="uppercase font-mono"
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isSubmitting}>
+                Join League
+              </Button>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">My Leagues</h2>
+          {activeLeagueId && (
+            <Form method="post">
+              <input type="hidden" name="intent" value="set-active" />
+              <Button type="submit" variant="outline" size="sm">
+                Switch to everyone
+              </Button>
+            </Form>
+          )}
+        </div>
+
+        {leagues.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            You're not in any leagues yet. Create one or join with an invite code.
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {leagues.map((league) => {
+              const isOwner = league.owner_id === userId;
+              const isActive = league.id === activeLeagueId;
+
+              return (
+                <Card
+                  key={league.id}
+                  className={cn(isActive && "ring-2 ring-blue-500")}
+                >
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="flex items-center gap-2">
+                        {league.name}
+                        {isOwner && <Crown className="h-4 w-4 text-yellow-500" />}
+                      </CardTitle>
+                      {isActive ? (
+                        <Badge>Active</Badge>
+                      ) : (
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="set-active" />
+                          <input type="hidden" name="leagueId" value={league.id} />
+                          <Button type="submit" size="sm" variant="outline">
+                            Make active
+                          </Button>
+                        </Form>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-muted-foreground">Invite code:</span>
+                      <code className="font-mono font-semibold">{league.invite_code}</code>
+                      <button
+                        type="button"
+                        onClick={() => copyInviteCode(league.invite_code)}
+                        className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-800"
+                        title="Copy invite code"
+                      >
+                        <Copy className="h-3.5 w-3.5" />
+                      </button>
+                      {!league.invites_open && (
+                        <Badge variant="secondary">Closed</Badge>
+                      )}
+                    </div>
+
+                    <div>
+                      <div className="text-sm font-medium mb-1">
+                        Members ({league.members.length}
+                        {league.max_members ? ` / ${league.max_members}` : ""})
+                      </div>
+                      <ul className="text-sm space-y-1">
+                        {league.members.map((member) => (
+                          <li key={member.user_id} className="flex items-center justify-between">
+                            <span>
+                              @{member.username}
+                              {member.role === "owner" && (
+                                <span className="ml-1 text-xs text-muted-foreground">(owner)</span>
+                              )}
+                            </span>
+                            {isOwner && member.user_id !== userId && (
+                              <Form method="post">
+                                <input type="hidden" name="intent" value="remove-member" />
+                                <input type="hidden" name="leagueId" value={league.id} />
+                                <input type="hidden" name="memberId" value={member.user_id} />
+                                <button
+                                  type="submit"
+                                  className="text-xs text-red-600 hover:underline"
+                                >
+                                  Remove
+                                </button>
+                              </Form>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+
+                    {isOwner ? (
+                      <div className="border-t pt-4 space-y-3">
+                        <Form method="post" className="space-y-3">
+                          <input type="hidden" name="intent" value="update-settings" />
+                          <input type="hidden" name="leagueId" value={league.id} />
+                          <div className="grid grid-cols-2 gap-2">
+                            <Input name="name" defaultValue={league.name} maxLength={60} />
+                            <Input
+                              name="maxMembers"
+                              type="number"
+                              min={2}
+                              placeholder="No member limit"
+                              defaultValue={league.max_members ?? ""}
+                            />
+                          </div>
+                          <label className="flex items-center gap-2 text-sm">
+                            <input
+                              type="checkbox"
+                              name="invitesOpen"
+                              defaultChecked={league.invites_open}
+                            />
+                            Accept new members
+                          </label>
+                          <Button type="submit" size="sm" variant="outline">
+                            Save settings
+                          </Button>
+                        </Form>
+                        <div className="flex gap-2">
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="regenerate-code" />
+                            <input type="hidden" name="leagueId" value={league.id} />
+                            <Button type="submit" size="sm" variant="ghost" className="gap-1">
+                              <RefreshCw className="h-3.5 w-3.5" />
+                              New invite code
+                            </Button>
+                          </Form>
+                          <Form
+                            method="post"
+                            onSubmit={(e) => {
+                              if (!confirm(`Delete ${league.name}? This cannot be undone.`)) {
+                                e.preventDefault();
+                              }
+                            }}
+                          >
+                            <input type="hidden" name="intent" value="delete" />
+                            <input type="hidden" name="leagueId" value={league.id} />
+                            <Button type="submit" size="sm" variant="ghost" className="text-red-600">
+                              Delete league
+                            </Button>
+                          </Form>
+                        </div>
+                      </div>
+                    ) : (
+                      <Form method="post" className="border-t pt-4">
+                        <input type="hidden" name="intent" value="leave" />
+                        <input type="hidden" name="leagueId" value={league.id} />
+                        <Button type="submit" size="sm" variant="ghost" className="gap-1 text-red-600">
+                          <LogOut className="h-3.5 w-3.5" />
+                          Leave league
+                        </Button>
+                      </Form>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { useLoaderData, useSearchParams } from "react-router";
 import type { Route } from "./+types/metrics";
 import { requireAuth } from "~/lib/auth.server";
+import { getActiveLeague } from "~/lib/leagues.server";
+import { getSeasonContext } from "~/lib/seasons.server";
+import { cn } from "~/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
@@ -13,7 +16,11 @@ import {
   TableRow,
 } from "~/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
-import { TrendingUp, TrendingDown, Trophy, Star, Calendar } from "lucide-react";
+import { BankrollCard, type BankrollPoint, type BankrollStats } from "~/components/BankrollChart";
+import { BadgeShelf } from "~/components/BadgeIcons";
+import { SeasonSelector } from "~/components/SeasonSelector";
+import { summarizeBadges, type BadgeDefinition, type EarnedBadge } from "~/lib/badges";
+import { Award, TrendingUp, TrendingDown, Trophy, Star, Calendar } from "lucide-react";
 
 type UserStats = {
   user_id: string;
@@ -34,6 +41,61 @@ type ConferenceStats = {
   win_rate: string;
 };
 
+type TotalsStats = {
+  total_picks: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  win_rate: string | null;
+  over_picks: number;
+  over_wins: number;
+  under_picks: number;
+  under_wins: number;
+};
+
+type MoneylineStats = {
+  total_picks: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  win_rate: string | null;
+  units: string;
+  roi: string | null;
+};
+
+type ClvStats = {
+  picks_with_close: number;
+  avg_clv: string | null;
+  beat_close_pct: string | null;
+  matched_close_pct: string | null;
+};
+
+type ConferenceClvStats = {
+  conference_id: string;
+  conference_short_name: string;
+  is_power_conference: boolean;
+  picks_with_close: number;
+  avg_clv: string | null;
+  beat_close_pct: string | null;
+};
+
+// CLV is in points; show the sign so "+1.5" reads as beating the close
+function formatClv(value: string | number | null) {
+  const clv = Number(value || 0);
+  return clv > 0 ? `+${clv.toFixed(2)}` : clv.toFixed(2);
+}
+
+type VoidCount = {
+  pick_type: string;
+  voided: number;
+};
+
+const VOID_LABELS: Record<string, string> = {
+  spread: "Spread",
+  total: "Totals",
+  moneyline: "Moneyline",
+};
+
 type ComparisonStats = {
   user: { id: string; username: string };
   stats: UserStats;
@@ -45,6 +107,13 @@ export async function loader({ request }: Route.LoaderArgs) {
   const url = new URL(request.url);
   const conferenceFilter = url.searchParams.get("conf") || "all";
 
+  // Head-to-head comparison is limited to the active league's members
+  const [activeLeague, { seasons, currentSeason, selectedSeason }] = await Promise.all([
+    getActiveLeague(supabase, user.id),
+    getSeasonContext(supabase, request),
+  ]);
+  const seasonYear = selectedSeason?.id ?? null;
+
   const [
     { data: overallStats },
     { data: conferenceStats },
@@ -58,19 +127,49 @@ export async function loader({ request }: Route.LoaderArgs) {
     { data: weeklyStreak },
     { data: weeklyPotdStats },
     { data: weeklyPotdStreak },
+    { data: totalsStats },
+    { data: weeklyTotalsStats },
+    { data: moneylineStats },
+    { data: weeklyMoneylineStats },
+    { data: clvStats },
+    { data: conferenceClvStats },
+    { data: voidCounts },
+    { data: bankrollStats },
+    { data: bankrollHistory },
+    { data: badges },
+    { data: earnedBadges },
   ] = await Promise.all([
-    supabase.rpc("get_user_overall_stats", { user_uuid: user.id }),
-    supabase.rpc("get_user_conference_stats", { user_uuid: user.id }),
-    supabase.rpc("get_user_current_streak", { user_uuid: user.id }),
-    supabase.rpc("get_all_users_overall_stats"),
-    supabase.rpc("get_user_potd_stats", { user_uuid: user.id }),
-    supabase.rpc("get_user_potd_streak", { user_uuid: user.id }),
-    supabase.rpc("get_user_potd_comparison", { user_uuid: user.id }),
+    supabase.rpc("get_user_overall_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_conference_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_current_streak", { user_uuid: user.id, season_year: seasonYear }),
+    activeLeague
+      ? supabase.rpc("get_league_users_overall_stats", {
+          league_uuid: activeLeague.league.id,
+          season_year: seasonYear,
+        })
+      : supabase.rpc("get_all_users_overall_stats", { season_year: seasonYear }),
+    supabase.rpc("get_user_potd_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_potd_streak", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_potd_comparison", { user_uuid: user.id, season_year: seasonYear }),
     supabase.rpc("get_user_weekly_stats", { user_uuid: user.id }),
     supabase.rpc("get_user_weekly_conference_stats", { user_uuid: user.id }),
     supabase.rpc("get_user_weekly_streak", { user_uuid: user.id }),
     supabase.rpc("get_user_weekly_potd_stats", { user_uuid: user.id }),
     supabase.rpc("get_user_weekly_potd_streak", { user_uuid: user.id }),
+    supabase.rpc("get_user_totals_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_weekly_totals_stats", { user_uuid: user.id }),
+    supabase.rpc("get_user_moneyline_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_weekly_moneyline_stats", { user_uuid: user.id }),
+    supabase.rpc("get_user_clv_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_conference_clv_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_void_counts", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_bankroll_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_bankroll_history", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.from("badges").select("id, name, description, icon, repeatable, sort_order"),
+    supabase
+      .from("user_badges")
+      .select("user_id, badge_id, period, earned_on")
+      .eq("user_id", user.id),
   ]);
 
   const comparisonStats = (allUsersStats || [])
@@ -215,6 +314,23 @@ export async function loader({ request }: Route.LoaderArgs) {
     weeklyStreak: weeklyStreak?.[0] || null,
     weeklyPotdStats: weeklyPotdStats?.[0] || null,
     weeklyPotdStreak: weeklyPotdStreak?.[0] || null,
+    totalsStats: (totalsStats?.[0] || null) as TotalsStats | null,
+    weeklyTotalsStats: (weeklyTotalsStats?.[0] || null) as TotalsStats | null,
+    moneylineStats: (moneylineStats?.[0] || null) as MoneylineStats | null,
+    weeklyMoneylineStats: (weeklyMoneylineStats?.[0] || null) as MoneylineStats | null,
+    clvStats: (clvStats?.[0] || null) as ClvStats | null,
+    conferenceClvStats: (conferenceClvStats || []) as ConferenceClvStats[],
+    voidCounts: (voidCounts || []) as VoidCount[],
+    bankrollStats: (bankrollStats?.[0] || null) as BankrollStats | null,
+    bankrollHistory: (bankrollHistory || []) as BankrollPoint[],
+    badges: summarizeBadges(
+      (badges || []) as BadgeDefinition[],
+      (earnedBadges || []) as EarnedBadge[]
+    ),
+    activeLeagueName: activeLeague?.league.name ?? null,
+    seasons,
+    currentSeasonId: currentSeason?.id ?? null,
+    selectedSeason,
     headers,
   };
 }
@@ -253,8 +369,24 @@ export default function Metrics() {
     weeklyStreak,
     weeklyPotdStats,
     weeklyPotdStreak,
+    totalsStats,
+    weeklyTotalsStats,
+    moneylineStats,
+    weeklyMoneylineStats,
+    clvStats,
+    conferenceClvStats,
+    voidCounts,
+    badges,
+    bankrollStats,
+    bankrollHistory,
+    activeLeagueName,
+    seasons,
+    currentSeasonId,
+    selectedSeason,
   } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
+  // "This Week" only makes sense for the season in progress
+  const isPastSeason = (selectedSeason?.id ?? null) !== currentSeasonId;
 
   const conferenceFilter = searchParams.get("conf") || "all";
 
@@ -269,6 +401,9 @@ export default function Metrics() {
     currentStreak: typeof streak,
     potd: typeof potdStats,
     potdStrk: typeof potdStreak,
+    totals: TotalsStats | null,
+    moneyline: MoneylineStats | null,
+    bankroll: { stats: BankrollStats | null; history: BankrollPoint[] } | null,
     isWeekly: boolean = false
   ) => (
     <div className="space-y-6">
@@ -462,6 +597,102 @@ export default function Metrics() {
         </>
       )}
 
+      {bankroll && <BankrollCard stats={bankroll.stats} history={bankroll.history} />}
+
+      {moneyline && moneyline.total_picks > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Moneyline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid md:grid-cols-4 gap-6 text-sm">
+              <div className="flex justify-between md:flex-col">
+                <span className="text-gray-600 dark:text-gray-400">Record</span>
+                <span className="text-2xl font-bold tabular-nums">
+                  {moneyline.wins}-{moneyline.losses}-{moneyline.pushes}
+                </span>
+              </div>
+              <div className="flex justify-between md:flex-col">
+                <span className="text-gray-600 dark:text-gray-400">Win Rate</span>
+                <span className="text-2xl font-bold tabular-nums text-blue-600 dark:text-blue-400">
+                  {moneyline.win_rate || "0"}%
+                </span>
+              </div>
+              <div className="flex justify-between md:flex-col">
+                <span className="text-gray-600 dark:text-gray-400">Profit</span>
+                <span
+                  className={cn(
+                    "text-2xl font-bold tabular-nums",
+                    Number(moneyline.units) >= 0 ? "text-green-600" : "text-red-600"
+                  )}
+                >
+                  {Number(moneyline.units) >= 0 ? "+" : ""}
+                  {Number(moneyline.units).toFixed(2)}u
+                </span>
+              </div>
+              <div className="flex justify-between md:flex-col">
+                <span className="text-gray-600 dark:text-gray-400">ROI</span>
+                <span
+                  className={cn(
+                    "text-2xl font-bold tabular-nums",
+                    Number(moneyline.roi || 0) >= 0 ? "text-green-600" : "text-red-600"
+                  )}
+                >
+                  {moneyline.roi || "0"}%
+                </span>
+              </div>
+            </div>
+            <p className="mt-3 text-xs text-muted-foreground">
+              Units are weighted by your stake, at the odds locked in when you picked.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {totals && totals.total_picks > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Over/Under Totals</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid md:grid-cols-3 gap-6">
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Record:</span>
+                  <span className="font-medium tabular-nums">
+                    {totals.wins}-{totals.losses}-{totals.pushes}
+                  </span>
+                </div>
+                <div className="flex justify-between font-semibold border-t pt-1">
+                  <span>Win Rate:</span>
+                  <span>{totals.win_rate || "0"}%</span>
+                </div>
+              </div>
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Overs:</span>
+                  <span className="font-medium">{totals.over_picks}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Over Wins:</span>
+                  <span className="font-medium text-green-600">{totals.over_wins}</span>
+                </div>
+              </div>
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Unders:</span>
+                  <span className="font-medium">{totals.under_picks}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Under Wins:</span>
+                  <span className="font-medium text-green-600">{totals.under_wins}</span>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {(powerTots.picks > 0 || midMajorTots.picks > 0) && (
         <Card>
           <CardHeader>
@@ -641,28 +872,57 @@ export default function Metrics() {
 
   return (
     <div className="container mx-auto py-8 px-4 space-y-8">
-      <div>
-        <h1 className="text-4xl font-bold">Performance Metrics</h1>
-        <p className="text-muted-foreground mt-2">
-          Track your picking performance and statistics
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-bold">Performance Metrics</h1>
+          <p className="text-muted-foreground mt-2">
+            Track your picking performance and statistics
+          </p>
+        </div>
+        <SeasonSelector
+          seasons={seasons}
+          selectedSeasonId={selectedSeason?.id ?? null}
+          currentSeasonId={currentSeasonId}
+        />
       </div>
 
-      <Tabs defaultValue="weekly" className="space-y-6">
-        <TabsList className="grid w-full max-w-md grid-cols-2 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
-          <TabsTrigger
-            value="weekly"
-            className="flex items-center gap-2 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900 data-[state=active]:shadow-sm data-[state=active]:text-slate-900 dark:data-[state=active]:text-slate-100 transition-all"
-          >
-            <Calendar className="h-4 w-4" />
-            This Week
-          </TabsTrigger>
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <Award className="h-5 w-5 text-amber-500" />
+            Badges
+            <span className="text-sm font-normal text-muted-foreground">
+              {badges.filter((summary) => summary.count > 0).length} of {badges.length}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BadgeShelf badges={badges} />
+        </CardContent>
+      </Card>
+
+      <Tabs key={selectedSeason?.id ?? "all"} defaultValue={isPastSeason ? "season" : "weekly"} className="space-y-6">
+        <TabsList
+          className={cn(
+            "grid w-full max-w-md bg-slate-100 dark:bg-slate-800 p-1 rounded-lg",
+            isPastSeason ? "grid-cols-1" : "grid-cols-2"
+          )}
+        >
+          {!isPastSeason && (
+            <TabsTrigger
+              value="weekly"
+              className="flex items-center gap-2 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900 data-[state=active]:shadow-sm data-[state=active]:text-slate-900 dark:data-[state=active]:text-slate-100 transition-all"
+            >
+              <Calendar className="h-4 w-4" />
+              This Week
+            </TabsTrigger>
+          )}
           <TabsTrigger
             value="season"
             className="flex items-center gap-2 data-[state=active]:bg-white dark:data-[state=active]:bg-slate-900 data-[state=active]:shadow-sm data-[state=active]:text-slate-900 dark:data-[state=active]:text-slate-100 transition-all"
           >
             <Trophy className="h-4 w-4" />
-            Season
+            {selectedSeason ? `${selectedSeason.name} Season` : "Season"}
           </TabsTrigger>
         </TabsList>
 
@@ -678,9 +938,118 @@ export default function Metrics() {
             streak,
             potdStats,
             potdStreak,
+            totalsStats,
+            moneylineStats,
+            { stats: bankrollStats, history: bankrollHistory },
             false
           )}
 
+          {voidCounts.length > 0 && (
+            <Card className="border-amber-300 dark:border-amber-800">
+              <CardHeader>
+                <CardTitle>Voided Picks</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Picks on postponed or cancelled games. They don't count toward your record,
+                  win rate, streaks or units.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-6 text-sm">
+                  {voidCounts.map((row) => (
+                    <div key={row.pick_type}>
+                      <span className="text-muted-foreground">{VOID_LABELS[row.pick_type] ?? row.pick_type}: </span>
+                      <span className="font-semibold">{row.voided}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {clvStats && clvStats.picks_with_close > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Closing Line Value</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Your line at pick time vs the line at tip-off. Positive means you got a
+                  better number than the market closed at.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid md:grid-cols-3 gap-6 text-sm">
+                  <div className="flex justify-between md:flex-col">
+                    <span className="text-gray-600 dark:text-gray-400">Average CLV</span>
+                    <span
+                      className={cn(
+                        "text-2xl font-bold tabular-nums",
+                        Number(clvStats.avg_clv || 0) >= 0 ? "text-green-600" : "text-red-600"
+                      )}
+                    >
+                      {formatClv(clvStats.avg_clv)} pts
+                    </span>
+                  </div>
+                  <div className="flex justify-between md:flex-col">
+                    <span className="text-gray-600 dark:text-gray-400">Beat the Close</span>
+                    <span className="text-2xl font-bold tabular-nums text-blue-600 dark:text-blue-400">
+                      {clvStats.beat_close_pct || "0"}%
+                    </span>
+                  </div>
+                  <div className="flex justify-between md:flex-col">
+                    <span className="text-gray-600 dark:text-gray-400">Picks with a Close</span>
+                    <span className="text-2xl font-bold tabular-nums">
+                      {clvStats.picks_with_close}
+                    </span>
+                  </div>
+                </div>
+
+                {conferenceClvStats.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Conference</TableHead>
+                        <TableHead className="text-right">Picks</TableHead>
+                        <TableHead className="text-right">Avg CLV</TableHead>
+                        <TableHead className="text-right">Beat Close</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {conferenceClvStats.map((conf) => (
+                        <TableRow key={conf.conference_id}>
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-2">
+                              {conf.conference_short_name}
+                              {conf.is_power_conference && (
+                                <Badge variant="outline" className="text-xs">
+                                  ★
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{conf.picks_with_close}</TableCell>
+                          <TableCell
+                            className={cn(
+                              "text-right tabular-nums",
+                              Number(conf.avg_clv || 0) >= 0 ? "text-green-600" : "text-red-600"
+                            )}
+                          >
+                            {formatClv(conf.avg_clv)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Badge
+                              variant={Number(conf.beat_close_pct) > 50 ? "default" : "secondary"}
+                            >
+                              {conf.beat_close_pct || "0"}%
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {potdComparison.length > 0 && (
             <Card>
               <CardHeader>
@@ -762,7 +1131,14 @@ export default function Metrics() {
           {comparisonStats.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle>Head-to-Head Comparison</CardTitle>
+                <CardTitle>
+                  Head-to-Head Comparison
+                  {activeLeagueName && (
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      {activeLeagueName}
+                    </span>
+                  )}
+                </CardTitle>
               </CardHeader>
               <CardContent>
                 <Table>
@@ -835,6 +1211,9 @@ export default function Metrics() {
             weeklyStreak,
             weeklyPotdStats,
             weeklyPotdStreak,
+            weeklyTotalsStats,
+            weeklyMoneylineStats,
+            null,
             true
           )}
         </TabsContent>
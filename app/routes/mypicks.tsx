@@ -2,8 +2,15 @@ import { useLoaderData } from "react-router";
 import type { Route } from "./+types/mypicks";
 import { requireAuth } from "~/lib/auth.server";
 import { getFavoriteTeamIds } from "~/lib/favorites.server";
+import { getUserTimezone } from "~/lib/timezones.server";
+import { parsePickForm, savePick } from "~/lib/picks.server";
+import { getSeasonContext, getSeasonDateRange } from "~/lib/seasons.server";
 import { GameCard } from "~/components/GameCard";
 import { MyPicksFilters } from "~/components/MyPicksFilters";
+import { SeasonSelector } from "~/components/SeasonSelector";
+import { BankrollCard, type BankrollPoint, type BankrollStats } from "~/components/BankrollChart";
+import type { BookmakerLine, LineSnapshot } from "~/lib/line-movement";
+import { cn } from "~/lib/utils";
 
 interface Team {
   id: string;
@@ -22,10 +29,18 @@ interface Pick {
   id: string;
   picked_team_id: string;
   spread_at_pick_time: number;
-  result: "won" | "lost" | "push" | "pending";
+  result: "won" | "lost" | "push" | "pending" | "void";
   locked_at: string | null;
   is_pick_of_day: boolean;
   user_id: string;
+  updated_at?: string;
+  pick_type: "spread" | "total" | "moneyline";
+  total_side: "over" | "under" | null;
+  total_at_pick_time: number | null;
+  odds_at_pick_time: number | null;
+  stake: number;
+  units_result: number | null;
+  writeup: { body: string } | null;
 }
 
 interface Game {
@@ -33,20 +48,62 @@ interface Game {
   game_date: string;
   home_team_id: string;
   away_team_id: string;
+  venue: string | null;
+  neutral_site: boolean;
   home_team: Team;
   away_team: Team;
   home_score: number | null;
   away_score: number | null;
   spread: number | null;
   favorite_team_id: string | null;
+  total: number | null;
+  home_moneyline: number | null;
+  away_moneyline: number | null;
   status: "scheduled" | "in_progress" | "completed" | "postponed" | "cancelled";
   conference: Conference;
+  line_snapshots?: LineSnapshot[];
+  bookmaker_lines?: BookmakerLine[];
+  line_source: string | null;
 }
 
 interface PickWithGame extends Pick {
   games: Game;
 }
 
+interface PickRecord {
+  wins: number;
+  losses: number;
+  pushes: number;
+  units?: number | null;
+  voided?: number;
+}
+
+/**
+ * One card per game: a user can hold a spread, totals and moneyline pick on the same game
+ */
+interface GamePicks {
+  game: Game;
+  spreadPick?: PickWithGame;
+  totalPick?: PickWithGame;
+  moneylinePick?: PickWithGame;
+}
+
+function groupPicksByGame(picks: PickWithGame[]): GamePicks[] {
+  const byGame = new Map<string, GamePicks>();
+  for (const pick of picks) {
+    const entry = byGame.get(pick.games.id) || { game: pick.games };
+    if (pick.pick_type === "total") {
+      entry.totalPick = pick;
+    } else if (pick.pick_type === "moneyline") {
+      entry.moneylinePick = pick;
+    } else {
+      entry.spreadPick = pick;
+    }
+    byGame.set(pick.games.id, entry);
+  }
+  return Array.from(byGame.values());
+}
+
 export async function loader({ request }: Route.LoaderArgs) {
   const { user, supabase, headers } = await requireAuth(request);
 
@@ -57,25 +114,81 @@ export async function loader({ request }: Route.LoaderArgs) {
   const isPotdOnly = url.searchParams.get("potdOnly") === "true";
   const myTeamsOnly = url.searchParams.get("myTeamsOnly") === "true";
 
-  // Get user's favorite teams for filtering
-  const favoriteTeamIds = await getFavoriteTeamIds(supabase, user.id);
+  const { seasons, currentSeason, selectedSeason } = await getSeasonContext(supabase, request);
+  const seasonYear = selectedSeason?.id ?? null;
+  const season = {
+    seasons,
+    currentSeasonId: currentSeason?.id ?? null,
+    selectedSeasonId: seasonYear,
+  };
+
+  // Get user's favorite teams, the season's spread/totals records and its slate dates
+  const [
+    favoriteTeamIds,
+    spreadStatsResult,
+    totalsStatsResult,
+    moneylineStatsResult,
+    voidCountsResult,
+    bankrollStatsResult,
+    bankrollHistoryResult,
+    seasonRange,
+    timezone,
+  ] = await Promise.all([
+    getFavoriteTeamIds(supabase, user.id),
+    supabase.rpc("get_user_overall_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_totals_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_moneyline_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_void_counts", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_bankroll_stats", { user_uuid: user.id, season_year: seasonYear }),
+    supabase.rpc("get_user_bankroll_history", { user_uuid: user.id, season_year: seasonYear }),
+    seasonYear ? getSeasonDateRange(supabase, seasonYear) : Promise.resolve(null),
+    getUserTimezone(supabase, user.id),
+  ]);
+
+  // Voided picks (postponed/cancelled games) are listed beside each record, not in it
+  const voidCounts = new Map<string, number>(
+    (voidCountsResult.data || []).map((row: { pick_type: string; voided: number }) => [
+      row.pick_type,
+      Number(row.voided),
+    ])
+  );
+  const withVoids = (record: PickRecord | null, pickType: string): PickRecord | null =>
+    record ? { ...record, voided: voidCounts.get(pickType) ?? 0 } : null;
+
+  const records = {
+    spread: withVoids(spreadStatsResult.data?.[0] || null, "spread"),
+    totals: withVoids(totalsStatsResult.data?.[0] || null, "total"),
+    moneyline: withVoids(moneylineStatsResult.data?.[0] || null, "moneyline"),
+  };
+
+  const bankroll = {
+    stats: (bankrollStatsResult.data?.[0] || null) as BankrollStats | null,
+    history: (bankrollHistoryResult.data || []) as BankrollPoint[],
+  };
 
   // Build picks query with server-side filters
   let picksQuery = supabase
     .from("picks")
     .select(`
       *,
+      writeup:pick_writeups(body),
       games (
         *,
         home_team_id,
         away_team_id,
         home_team:teams!games_home_team_id_fkey(*),
         away_team:teams!games_away_team_id_fkey(*),
-        conference:conferences(*)
+        conference:conferences(*),
+        line_snapshots:game_line_snapshots(captured_at, bookmaker, spread, favorite_team_id),
+        bookmaker_lines:game_bookmaker_lines(bookmaker, spread, favorite_team_id, total, home_moneyline, away_moneyline)
       )
     `)
     .eq("user_id", user.id);
 
+  if (seasonRange) {
+    picksQuery = picksQuery.gte("game_date_cache", seasonRange.from).lte("game_date_cache", seasonRange.to);
+  }
+
   // Apply POTD filter at database level
   if (isPotdOnly) {
     picksQuery = picksQuery.eq("is_pick_of_day", true);
@@ -103,7 +216,7 @@ export async function loader({ request }: Route.LoaderArgs) {
 
   if (error) {
     console.error("Error fetching picks:", error);
-    return { picks: [], filterParam, sortParam, isPotdOnly, user, potdGameId: null, headers };
+    return { gamePicks: [], records, bankroll, season, filterParam, sortParam, isPotdOnly, user, potdGameId: null, timezone, headers };
   }
 
   const picks = (picksData || []) as PickWithGame[];
@@ -132,12 +245,16 @@ export async function loader({ request }: Route.LoaderArgs) {
   const potdGameId = potdPick ? potdPick.games.id : null;
 
   return {
-    picks: sortedPicks,
+    gamePicks: groupPicksByGame(sortedPicks),
+    records,
+    bankroll,
+    season,
     filterParam,
     sortParam,
     isPotdOnly,
     user,
     potdGameId,
+    timezone,
     headers,
   };
 }
@@ -146,70 +263,10 @@ export async function action({ request }: Route.ActionArgs) {
   const { user, supabase, headers } = await requireAuth(request);
 
   const formData = await request.formData();
-  const gameId = formData.get("gameId") as string;
-  const pickedTeamId = formData.get("pickedTeamId") as string;
-  const spread = formData.get("spread") as string;
-  const isPotdString = formData.get("isPotd") as string;
-  const isPotd = isPotdString === "true";
-
-  // Get the game to check if it's locked
-  const { data: game } = await supabase
-    .from("games")
-    .select("game_date, status")
-    .eq("id", gameId)
-    .single();
-
-  if (!game) {
-    return { error: "Game not found", headers };
-  }
-
-  const gameDate = new Date(game.game_date);
-  const isLocked = game.status !== "scheduled" || gameDate < new Date();
+  const error = await savePick(supabase, user.id, parsePickForm(formData));
 
-  if (isLocked) {
-    return { error: "Cannot modify pick for a locked game", headers };
-  }
-
-  // Check if pick already exists
-  const { data: existingPick } = await supabase
-    .from("picks")
-    .select("*")
-    .eq("user_id", user.id)
-    .eq("game_id", gameId)
-    .single();
-
-  if (existingPick) {
-    // Update existing pick
-    const { error: updateError } = await supabase
-      .from("picks")
-      .update({
-        picked_team_id: pickedTeamId,
-        spread_at_pick_time: parseFloat(spread) || null,
-        is_pick_of_day: isPotd,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", existingPick.id);
-
-    if (updateError) {
-      console.error("Error updating pick:", updateError);
-      return { error: "Failed to update pick", headers };
-    }
-  } else {
-    // Create new pick
-    const { error: insertError } = await supabase
-      .from("picks")
-      .insert({
-        user_id: user.id,
-        game_id: gameId,
-        picked_team_id: pickedTeamId,
-        spread_at_pick_time: parseFloat(spread) || null,
-        is_pick_of_day: isPotd,
-      });
-
-    if (insertError) {
-      console.error("Error creating pick:", insertError);
-      return { error: "Failed to create pick", headers };
-    }
+  if (error) {
+    return { error, headers };
   }
 
   return { success: true, headers };
@@ -230,7 +287,7 @@ function sortPicks(picks: PickWithGame[], sortParam: string): PickWithGame[] {
           new Date(a.games.game_date).getTime()
       );
     case "result":
-      const resultOrder = { won: 0, lost: 1, push: 2, pending: 3 };
+      const resultOrder = { won: 0, lost: 1, push: 2, pending: 3, void: 4 };
       return [...picks].sort(
         (a, b) => resultOrder[a.result] - resultOrder[b.result]
       );
@@ -246,27 +303,42 @@ function sortPicks(picks: PickWithGame[], sortParam: string): PickWithGame[] {
 }
 
 export default function MyPicks() {
-  const { picks, filterParam, sortParam, isPotdOnly, user, potdGameId } = useLoaderData<typeof loader>();
+  const { gamePicks, records, bankroll, season, filterParam, sortParam, isPotdOnly, user, potdGameId, timezone } = useLoaderData<typeof loader>();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">
-            My Picks
-          </h1>
-          <p className="text-slate-600 dark:text-slate-400">
-            View and manage all your game picks
-          </p>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">
+              My Picks
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400">
+              View and manage all your game picks
+            </p>
+          </div>
+          <SeasonSelector
+            seasons={season.seasons}
+            selectedSeasonId={season.selectedSeasonId}
+            currentSeasonId={season.currentSeasonId}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-3 mb-6">
+          <RecordBadge label="Spread" record={records.spread} />
+          <RecordBadge label="Totals" record={records.totals} />
+          <RecordBadge label="Moneyline" record={records.moneyline} />
         </div>
 
+        <BankrollCard stats={bankroll.stats} history={bankroll.history} className="mb-6" />
+
         <MyPicksFilters
           currentFilter={filterParam}
           currentSort={sortParam}
           isPotdOnly={isPotdOnly}
         />
 
-        {picks.length === 0 ? (
+        {gamePicks.length === 0 ? (
           <div className="text-center py-16">
             <div className="text-slate-400 dark:text-slate-600 mb-4">
               <svg
@@ -304,15 +376,18 @@ export default function MyPicks() {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {picks.map((pick) => (
+            {gamePicks.map(({ game, spreadPick, totalPick, moneylinePick }) => (
               <GameCard
-                key={pick.id}
-                game={pick.games}
-                userPick={pick}
+                key={game.id}
+                game={game}
+                userPick={spreadPick}
+                userTotalPick={totalPick}
+                userMoneylinePick={moneylinePick}
                 otherPicks={[]}
                 userId={user.id}
                 potdGameId={potdGameId}
                 isSwingGame={false}
+                timezone={timezone}
               />
             ))}
           </div>
@@ -321,3 +396,30 @@ export default function MyPicks() {
     </div>
   );
 }
+
+function RecordBadge({ label, record }: { label: string; record: PickRecord | null }) {
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/50 px-4 py-2">
+      <div className="text-xs font-medium text-slate-500 dark:text-slate-400">{label}</div>
+      <div className="text-lg font-bold tabular-nums text-slate-900 dark:text-white">
+        {record ? `${record.wins}-${record.losses}-${record.pushes}` : "0-0-0"}
+        {record?.units != null && (
+          <span
+            className={cn(
+              "ml-2 text-sm",
+              Number(record.units) >= 0 ? "text-green-600" : "text-red-600"
+            )}
+          >
+            {Number(record.units) >= 0 ? "+" : ""}
+            {Number(record.units).toFixed(2)}u
+          </span>
+        )}
+      </div>
+      {!!record?.voided && (
+        <div className="text-xs text-amber-700 dark:text-amber-400">
+          {record.voided} void (postponed/cancelled)
+        </div>
+      )}
+    </div>
+  );
+}
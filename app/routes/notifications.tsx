@@ -0,0 +1,98 @@
+import { Form, Link, useLoaderData, useNavigation } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/notifications";
+import { requireAuth } from "~/lib/auth.server";
+import { getNotifications, markNotificationsRead } from "~/lib/notifications.server";
+import { NotificationItem } from "~/components/NotificationBell";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { supabase, headers } = await requireAuth(request);
+
+  const notifications = await getNotifications(supabase, 100);
+
+  return data({ notifications }, { headers });
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  try {
+    if (intent === "mark-read") {
+      const ids = formData.getAll("notificationId").map(String).filter(Boolean);
+      await markNotificationsRead(supabase, ids);
+      return data({ success: true }, { headers });
+    }
+
+    if (intent === "mark-all-read") {
+      const count = await markNotificationsRead(supabase, null);
+      return data({ success: true, message: `Marked ${count} as read` }, { headers });
+    }
+  } catch (error) {
+    return data(
+      { error: error instanceof Error ? error.message : "Something went wrong" },
+      { status: 400, headers }
+    );
+  }
+
+  return data({ error: "Invalid intent" }, { status: 400, headers });
+}
+
+export function meta(_: Route.MetaArgs) {
+  return [{ title: "Notifications - College Basketball Picks" }];
+}
+
+export default function Notifications() {
+  const { notifications } = useLoaderData<typeof loader>();
+  const navigation = useNavigation();
+  const unreadCount = notifications.filter((notification) => !notification.read_at).length;
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Notifications</h1>
+          <p className="text-muted-foreground mt-2">
+            Choose which events show up here in{" "}
+            <Link to="/settings" className="underline">
+              settings
+            </Link>
+            .
+          </p>
+        </div>
+        {unreadCount > 0 && (
+          <Form method="post">
+            <input type="hidden" name="intent" value="mark-all-read" />
+            <Button type="submit" variant="outline" size="sm" disabled={navigation.state === "submitting"}>
+              Mark all read
+            </Button>
+          </Form>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{unreadCount > 0 ? `${unreadCount} unread` : "All caught up"}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {notifications.length === 0 ? (
+            <p className="px-6 pb-6 text-sm text-muted-foreground">
+              Nothing yet. Graded picks, streaks and bracket results will show up here.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <NotificationItem notification={notification} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
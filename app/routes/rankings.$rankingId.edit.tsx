@@ -28,6 +28,7 @@ import { GripVertical, X, Save, Upload, Trash2, ArrowLeft, Search } from "lucide
 import { toast } from "sonner";
 import { data } from "react-router";
 import { cn } from "~/lib/utils";
+import { formatSeason } from "~/lib/seasons";
 
 interface Team {
   id: string;
@@ -390,7 +391,7 @@ export default function RankingEditorPage() {
             <div>
               <h1 className="text-lg font-semibold">{ranking.title}</h1>
               <p className="text-sm text-muted-foreground">
-                Week {ranking.week} • {ranking.season} Season
+                Week {ranking.week} • {formatSeason(ranking.season)} Season
               </p>
             </div>
           </div>
@@ -6,18 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Plus, Upload, Trash2, Edit2, ArrowLeft } from "lucide-react";
 import { toast } from "sonner";
 import { data } from "react-router";
-import { differenceInWeeks } from "date-fns";
-
-// NCAA 2025-26 season started November 3rd, 2025
-const SEASON_START_DATE = new Date(2025, 10, 3);
-const CURRENT_SEASON = 2025;
-
-function getCurrentSeasonWeek(): number {
-  const now = new Date();
-  const weeksSinceStart = differenceInWeeks(now, SEASON_START_DATE);
-  const currentWeek = weeksSinceStart + 1;
-  return Math.max(1, Math.min(20, currentWeek));
-}
+import { getSeasonContext } from "~/lib/seasons.server";
+import { formatSeason, getSeasonWeek } from "~/lib/seasons";
 
 interface Team {
   id: string;
@@ -52,33 +42,36 @@ export async function loader({ request }: { request: Request }) {
   const { user, supabase, headers } = await requireAuth(request);
 
   // Fetch user's rankings only
-  const { data: myRankings } = await supabase
-    .from("user_rankings")
-    .select(`
-      id,
-      title,
-      week,
-      season,
-      published_at,
-      created_at,
-      ranking_entries(
-        team_id,
-        rank,
-        teams(
-          id,
-          name,
-          short_name,
-          conference:conferences(
+  const [{ currentSeason }, { data: myRankings }] = await Promise.all([
+    getSeasonContext(supabase, request),
+    supabase
+      .from("user_rankings")
+      .select(`
+        id,
+        title,
+        week,
+        season,
+        published_at,
+        created_at,
+        ranking_entries(
+          team_id,
+          rank,
+          teams(
             id,
             name,
             short_name,
-            is_power_conference
+            conference:conferences(
+              id,
+              name,
+              short_name,
+              is_power_conference
+            )
           )
         )
-      )
-    `)
-    .eq("user_id", user.id)
-    .order("created_at", { ascending: false });
+      `)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false }),
+  ]);
 
   const transformedMyRankings = (myRankings || []).map((ranking: any) => ({
     ...ranking,
@@ -96,8 +89,8 @@ export async function loader({ request }: { request: Request }) {
   return data(
     {
       myRankings: transformedMyRankings as UserRanking[],
-      currentSeason: CURRENT_SEASON,
-      currentWeek: getCurrentSeasonWeek(),
+      currentSeason: currentSeason?.id ?? null,
+      currentWeek: currentSeason ? getSeasonWeek(currentSeason) : 1,
     },
     { headers }
   );
@@ -122,7 +115,7 @@ export default function MyRankingsPage() {
     formData.append("intent", "create-ranking");
     formData.append("title", title);
     formData.append("week", currentWeek.toString());
-    formData.append("season", currentSeason.toString());
+    formData.append("season", currentSeason?.toString() ?? "");
 
     fetcher.submit(formData, {
       method: "POST",
@@ -216,7 +209,7 @@ export default function MyRankingsPage() {
                     )}
                   </CardTitle>
                   <div className="text-sm text-muted-foreground">
-                    Week {ranking.week} • {ranking.season} Season
+                    Week {ranking.week} • {formatSeason(ranking.season)} Season
                   </div>
                   <div className="text-xs text-muted-foreground">
                     {ranking.ranking_entries.length} teams ranked
@@ -1,5 +1,8 @@
-import { Link, Outlet, useLoaderData, useLocation } from "react-router";
+import { Link, Outlet, useFetcher, useLoaderData, useLocation } from "react-router";
 import { requireAuth } from "~/lib/auth.server";
+import { getSeasonContext } from "~/lib/seasons.server";
+import { formatSeason } from "~/lib/seasons";
+import { SeasonSelector } from "~/components/SeasonSelector";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import {
@@ -12,7 +15,7 @@ import {
 } from "~/components/ui/table";
 import { Badge } from "~/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "~/components/ui/tabs";
-import { Plus, Trophy } from "lucide-react";
+import { Plus, Trophy, UserCheck, UserPlus } from "lucide-react";
 import { data } from "react-router";
 import { format } from "date-fns";
 
@@ -49,8 +52,10 @@ interface UserRanking {
 export async function loader({ request }: { request: Request }) {
   const { user, supabase, headers } = await requireAuth(request);
 
-  // Fetch all published rankings from all users with user profiles
-  const { data: allRankings, error: allRankingsError } = await supabase
+  const { seasons, currentSeason, selectedSeason } = await getSeasonContext(supabase, request);
+
+  // Fetch the season's published rankings from all users with user profiles
+  let rankingsQuery = supabase
     .from("user_rankings")
     .select(`
       id,
@@ -76,17 +81,29 @@ export async function loader({ request }: { request: Request }) {
         )
       )
     `)
-    .not("published_at", "is", null)
+    .not("published_at", "is", null);
+
+  if (selectedSeason) {
+    rankingsQuery = rankingsQuery.eq("season", selectedSeason.id);
+  }
+
+  const { data: allRankings, error: allRankingsError } = await rankingsQuery
     .order("week", { ascending: false })
     .order("published_at", { ascending: false })
     .limit(50);
 
-  // Fetch user profiles for all ranking authors
+  // Fetch user profiles for all ranking authors, and who the user follows
   const userIds = [...new Set((allRankings || []).map((r: any) => r.user_id))];
-  const { data: profiles } = await supabase
-    .from("profiles")
-    .select("id, username")
-    .in("id", userIds);
+  const [{ data: profiles }, { data: follows }] = await Promise.all([
+    supabase
+      .from("profiles")
+      .select("id, username")
+      .in("id", userIds),
+    supabase
+      .from("user_follows")
+      .select("followee_id")
+      .eq("follower_id", user.id),
+  ]);
 
   if (allRankingsError) {
     console.error("Error fetching published rankings:", allRankingsError);
@@ -119,13 +136,69 @@ export async function loader({ request }: { request: Request }) {
     {
       allRankings: transformedAllRankings as UserRanking[],
       profiles: profilesMap,
+      userId: user.id,
+      followingIds: (follows || []).map((follow) => follow.followee_id as string),
+      seasons,
+      currentSeasonId: currentSeason?.id ?? null,
+      selectedSeasonId: selectedSeason?.id ?? null,
     },
     { headers }
   );
 }
 
+export async function action({ request }: { request: Request }) {
+  const { user, supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const followeeId = formData.get("userId") as string;
+
+  if (!followeeId || followeeId === user.id) {
+    return data({ error: "Invalid user" }, { status: 400, headers });
+  }
+
+  // Followers are notified when the user publishes a ranking
+  const { error } =
+    intent === "unfollow"
+      ? await supabase
+          .from("user_follows")
+          .delete()
+          .eq("follower_id", user.id)
+          .eq("followee_id", followeeId)
+      : await supabase
+          .from("user_follows")
+          .upsert({ follower_id: user.id, followee_id: followeeId }, { onConflict: "follower_id,followee_id" });
+
+  if (error) {
+    return data({ error: error.message }, { status: 400, headers });
+  }
+
+  return data({ success: true }, { headers });
+}
+
+function FollowButton({ userId, following }: { userId: string; following: boolean }) {
+  const fetcher = useFetcher();
+  const pendingIntent = fetcher.formData?.get("intent");
+  const isFollowing = pendingIntent ? pendingIntent === "follow" : following;
+
+  return (
+    <fetcher.Form method="post" action="/rankings">
+      <input type="hidden" name="intent" value={isFollowing ? "unfollow" : "follow"} />
+      <input type="hidden" name="userId" value={userId} />
+      <button
+        type="submit"
+        className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        title={isFollowing ? "Unfollow" : "Get notified when they publish"}
+      >
+        {isFollowing ? <UserCheck className="h-3 w-3" /> : <UserPlus className="h-3 w-3" />}
+        {isFollowing ? "Following" : "Follow"}
+      </button>
+    </fetcher.Form>
+  );
+}
+
 export default function RankingsPage() {
-  const { allRankings, profiles } = useLoaderData<typeof loader>();
+  const { allRankings, profiles, userId, followingIds, seasons, currentSeasonId, selectedSeasonId } =
+    useLoaderData<typeof loader>();
   const location = useLocation();
 
   const currentTab = location.pathname === '/rankings/bracketology' ? 'bracketology' : 'rankings';
@@ -159,12 +232,21 @@ export default function RankingsPage() {
               Compare rankings and bracket predictions from college basketball fans
             </p>
           </div>
-          <Button asChild>
-            <Link to="/rankings/me">
-              <Plus className="mr-2 h-4 w-4" />
-              My Rankings
-            </Link>
-          </Button>
+          <div className="flex items-center gap-2">
+            {currentTab === "rankings" && (
+              <SeasonSelector
+                seasons={seasons}
+                selectedSeasonId={selectedSeasonId}
+                currentSeasonId={currentSeasonId}
+              />
+            )}
+            <Button asChild>
+              <Link to="/rankings/me">
+                <Plus className="mr-2 h-4 w-4" />
+                My Rankings
+              </Link>
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -186,12 +268,17 @@ export default function RankingsPage() {
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <p className="text-muted-foreground">
-                  No published rankings yet
+                  No published rankings{selectedSeasonId !== currentSeasonId ? " that season" : " yet"}
                 </p>
               </CardContent>
             </Card>
           ) : (
-            <RankingsContent sortedWeeks={sortedWeeks} profiles={profiles} />
+            <RankingsContent
+              sortedWeeks={sortedWeeks}
+              profiles={profiles}
+              userId={userId}
+              followingIds={followingIds}
+            />
           )}
         </TabsContent>
 
@@ -203,7 +290,17 @@ export default function RankingsPage() {
   );
 }
 
-function RankingsContent({ sortedWeeks, profiles }: { sortedWeeks: any[]; profiles: any }) {
+function RankingsContent({
+  sortedWeeks,
+  profiles,
+  userId,
+  followingIds,
+}: {
+  sortedWeeks: any[];
+  profiles: any;
+  userId: string;
+  followingIds: string[];
+}) {
   return (
     <div className="space-y-8">
       {sortedWeeks.map((weekData: any) => {
@@ -223,7 +320,7 @@ function RankingsContent({ sortedWeeks, profiles }: { sortedWeeks: any[]; profil
                 <div className="flex-1">
                   <CardTitle>Week {week} Rankings</CardTitle>
                   <div className="mt-1 text-sm text-muted-foreground">
-                    {season} Season • {rankings.length} {rankings.length === 1 ? 'ranking' : 'rankings'}
+                    {formatSeason(season)} Season • {rankings.length} {rankings.length === 1 ? 'ranking' : 'rankings'}
                   </div>
                 </div>
               </div>
@@ -244,6 +341,12 @@ function RankingsContent({ sortedWeeks, profiles }: { sortedWeeks: any[]; profil
                               <span className="text-xs text-muted-foreground">
                                 {format(new Date(ranking.published_at!), "MMM d, h:mm a")}
                               </span>
+                              {ranking.user_id !== userId && (
+                                <FollowButton
+                                  userId={ranking.user_id}
+                                  following={followingIds.includes(ranking.user_id)}
+                                />
+                              )}
                             </div>
                           </TableHead>
                         );
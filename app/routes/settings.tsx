@@ -0,0 +1,233 @@
+import { useEffect } from "react";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/settings";
+import { requireAuth } from "~/lib/auth.server";
+import { setMutedNotificationTypes } from "~/lib/notifications.server";
+import { NOTIFICATION_TYPES } from "~/lib/notifications";
+import { getUserTimezone, setUserTimezone } from "~/lib/timezones.server";
+import { TIMEZONE_OPTIONS } from "~/lib/timezones";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { toast } from "sonner";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+
+  const [{ data: preferences, error }, timezone] = await Promise.all([
+    supabase
+      .from("notification_preferences")
+      .select("pick_reminders, results_digest, muted_notification_types")
+      .eq("user_id", user.id)
+      .maybeSingle(),
+    getUserTimezone(supabase, user.id),
+  ]);
+
+  if (error) {
+    console.error("Error fetching notification preferences:", error);
+  }
+
+  return data(
+    {
+      email: user.email ?? null,
+      pickReminders: preferences?.pick_reminders ?? false,
+      resultsDigest: preferences?.results_digest ?? false,
+      mutedTypes: (preferences?.muted_notification_types ?? []) as string[],
+      timezone,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "timezone") {
+    try {
+      await setUserTimezone(supabase, user.id, String(formData.get("timezone") ?? ""));
+    } catch (error) {
+      return data(
+        { error: error instanceof Error ? error.message : "Something went wrong" },
+        { status: 400, headers }
+      );
+    }
+    return data({ message: "Timezone saved" }, { headers });
+  }
+
+  if (formData.get("intent") === "notifications") {
+    const enabled = new Set(formData.getAll("enabledTypes").map(String));
+    try {
+      await setMutedNotificationTypes(
+        supabase,
+        user.id,
+        NOTIFICATION_TYPES.map((t) => t.type).filter((type) => !enabled.has(type))
+      );
+    } catch (error) {
+      return data(
+        { error: error instanceof Error ? error.message : "Something went wrong" },
+        { status: 400, headers }
+      );
+    }
+    return data({ message: "Settings saved" }, { headers });
+  }
+
+  const { error } = await supabase.from("notification_preferences").upsert(
+    {
+      user_id: user.id,
+      pick_reminders: formData.get("pickReminders") === "true",
+      results_digest: formData.get("resultsDigest") === "true",
+    },
+    { onConflict: "user_id" }
+  );
+
+  if (error) {
+    return data({ error: error.message }, { status: 400, headers });
+  }
+
+  return data({ message: "Settings saved" }, { headers });
+}
+
+export function meta(_: Route.MetaArgs) {
+  return [{ title: "Settings - College Basketball Picks" }];
+}
+
+export default function Settings() {
+  const { email, pickReminders, resultsDigest, mutedTypes, timezone } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  useEffect(() => {
+    if (!actionData) return;
+    const result = actionData as { error?: string; message?: string };
+    if (result.error) {
+      toast.error(result.error);
+    } else if (result.message) {
+      toast.success(result.message);
+    }
+  }, [actionData]);
+
+  return (
+    <div className="space-y-6 max-w-xl">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Timezone</CardTitle>
+          <CardDescription>
+            Decides which day a game is on for your slate and Pick of the Day, and the time tip-offs
+            are shown in. Picks on games that haven't started move to their day in the new timezone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form method="post" className="flex items-end gap-3">
+            <input type="hidden" name="intent" value="timezone" />
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="timezone">Timezone</Label>
+              <select
+                id="timezone"
+                name="timezone"
+                defaultValue={timezone}
+                className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              >
+                {TIMEZONE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+                {!TIMEZONE_OPTIONS.some((option) => option.value === timezone) && (
+                  <option value={timezone}>{timezone}</option>
+                )}
+              </select>
+            </div>
+            <Button type="submit" disabled={navigation.state === "submitting"}>
+              Save
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Email notifications</CardTitle>
+          <CardDescription>Sent to {email ?? "your account email"}. Both are off until you turn them on.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="intent" value="email" />
+            <div className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                id="pickReminders"
+                name="pickReminders"
+                value="true"
+                defaultChecked={pickReminders}
+                className="mt-1"
+              />
+              <div>
+                <Label htmlFor="pickReminders">Pick reminders</Label>
+                <p className="text-sm text-muted-foreground">
+                  Before the day's first unpicked game tips off, a list of the games you haven't
+                  picked, your teams first.
+                </p>
+              </div>
+            </div>
+            <div className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                id="resultsDigest"
+                name="resultsDigest"
+                value="true"
+                defaultChecked={resultsDigest}
+                className="mt-1"
+              />
+              <div>
+                <Label htmlFor="resultsDigest">Nightly results digest</Label>
+                <p className="text-sm text-muted-foreground">
+                  The next morning, how your picks did, your units and how your streak moved.
+                </p>
+              </div>
+            </div>
+            <Button type="submit" disabled={navigation.state === "submitting"}>
+              Save
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>In-app notifications</CardTitle>
+          <CardDescription>What shows up under the bell. Muted events aren't saved.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="intent" value="notifications" />
+            {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+              <div key={type} className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  id={`notify-${type}`}
+                  name="enabledTypes"
+                  value={type}
+                  defaultChecked={!mutedTypes.includes(type)}
+                  className="mt-1"
+                />
+                <div>
+                  <Label htmlFor={`notify-${type}`}>{label}</Label>
+                  <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+              </div>
+            ))}
+            <Button type="submit" disabled={navigation.state === "submitting"}>
+              Save
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
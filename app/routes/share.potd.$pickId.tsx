@@ -5,6 +5,7 @@ import { Badge } from "~/components/ui/badge";
 import { Card, CardContent } from "~/components/ui/card";
 import { format } from "date-fns";
 import { Star, Calendar, User } from "lucide-react";
+import { formatLine } from "~/lib/line-movement";
 
 interface Team {
   id: string;
@@ -133,11 +134,8 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
   const pickedTeam = pick.picked_team_id === homeTeam.id ? homeTeam : awayTeam;
   const otherTeam = pick.picked_team_id === homeTeam.id ? awayTeam : homeTeam;
 
-  // Format spread
-  const pickedTeamIsFavorite = game.favorite_team_id === pick.picked_team_id;
-  const spreadDisplay = pickedTeamIsFavorite
-    ? `-${Math.abs(pick.spread_at_pick_time)}`
-    : `+${Math.abs(pick.spread_at_pick_time)}`;
+  // spread_at_pick_time is the signed line for the picked side
+  const spreadDisplay = formatLine(Number(pick.spread_at_pick_time));
 
   const username = pick.profiles?.username || "Anonymous";
   const title = `${username}'s POTD: ${pickedTeam.short_name} ${spreadDisplay}`;
@@ -175,11 +173,8 @@ export default function SharePotd() {
   const pickedTeam = pick.picked_team_id === homeTeam.id ? homeTeam : awayTeam;
   const otherTeam = pick.picked_team_id === homeTeam.id ? awayTeam : homeTeam;
 
-  // Format spread
-  const pickedTeamIsFavorite = game.favorite_team_id === pick.picked_team_id;
-  const spreadDisplay = pickedTeamIsFavorite
-    ? `-${Math.abs(pick.spread_at_pick_time)}`
-    : `+${Math.abs(pick.spread_at_pick_time)}`;
+  // spread_at_pick_time is the signed line for the picked side
+  const spreadDisplay = formatLine(Number(pick.spread_at_pick_time));
 
   const username = pick.profiles?.username || "Anonymous";
   const gameDate = new Date(game.game_date);
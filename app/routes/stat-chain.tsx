@@ -5,12 +5,14 @@ import { useEffect, useState } from 'react'
 import { redirect, type Route } from 'react-router'
 import { Form, useActionData, useLoaderData, useNavigation } from 'react-router'
 import { requireAuth } from '~/lib/auth.server'
+import { getSeasonContext } from '~/lib/seasons.server'
 import { checkGuess, isGameComplete, shuffleArray } from '~/lib/stat-chain/game-logic'
 import type { GroupDTO, GuessResult, PuzzleDTO, SessionDTO, TeamDTO } from '~/lib/stat-chain/types'
 import { GameGrid } from '~/components/stat-chain/GameGrid'
 import { CompletedGroups } from '~/components/stat-chain/CompletedGroups'
 import { MistakesCounter } from '~/components/stat-chain/MistakesCounter'
 import { GameOverModal } from '~/components/stat-chain/GameOverModal'
+import { SeasonLeaderboard, type LeaderboardEntry } from '~/components/stat-chain/SeasonLeaderboard'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card'
 import { Button } from '~/components/ui/button'
 
@@ -22,6 +24,23 @@ export async function loader({ request }: Route.LoaderArgs) {
   // Use today's date if not specified
   const targetDate = dateParam || new Date().toISOString().split('T')[0]
 
+  // Season leaderboard, independent of the puzzle being played
+  const { seasons, currentSeason, selectedSeason } = await getSeasonContext(supabase, request)
+  const { data: leaderboardData, error: leaderboardError } = await supabase.rpc('get_stat_chain_leaderboard', {
+    season_year: selectedSeason?.id ?? null,
+  })
+
+  if (leaderboardError) {
+    console.error('Error fetching leaderboard:', leaderboardError)
+  }
+
+  const leaderboard = {
+    entries: (leaderboardData || []) as LeaderboardEntry[],
+    seasons,
+    currentSeasonId: currentSeason?.id ?? null,
+    selectedSeasonId: selectedSeason?.id ?? null,
+  }
+
   // Fetch puzzle for the target date
   const { data: puzzleData, error: puzzleError } = await supabase
     .from('stat_chain_puzzles')
@@ -53,6 +72,8 @@ export async function loader({ request }: Route.LoaderArgs) {
       puzzle: null,
       session: null,
       noPuzzle: true,
+      leaderboard,
+      userId: user.id,
       headers,
     }
   }
@@ -104,7 +125,7 @@ export async function loader({ request }: Route.LoaderArgs) {
 
     if (sessionError) {
       console.error('Error creating session:', sessionError)
-      return { puzzle, session: null, headers }
+      return { puzzle, session: null, leaderboard, userId: user.id, headers }
     }
 
     session = newSession
@@ -129,6 +150,8 @@ export async function loader({ request }: Route.LoaderArgs) {
     puzzle,
     session: sessionDTO,
     noPuzzle: false,
+    leaderboard,
+    userId: user.id,
     headers,
   }
 }
@@ -257,7 +280,7 @@ export async function action({ request }: Route.ActionArgs) {
 }
 
 export default function StatChainRoute() {
-  const { puzzle, session, noPuzzle } = useLoaderData<typeof loader>()
+  const { puzzle, session, noPuzzle, leaderboard, userId } = useLoaderData<typeof loader>()
   const actionData = useActionData<typeof action>()
   const navigation = useNavigation()
   const [selectedTeams, setSelectedTeams] = useState<string[]>([])
@@ -300,7 +323,7 @@ export default function StatChainRoute() {
   // No puzzle available
   if (noPuzzle) {
     return (
-      <div className="container mx-auto py-8 max-w-4xl">
+      <div className="container mx-auto py-8 max-w-4xl space-y-6">
         <Card>
           <CardHeader>
             <CardTitle>No Puzzle Available</CardTitle>
@@ -309,6 +332,7 @@ export default function StatChainRoute() {
             </CardDescription>
           </CardHeader>
         </Card>
+        <SeasonLeaderboard {...leaderboard} currentUserId={userId} />
       </div>
     )
   }
@@ -320,7 +344,7 @@ export default function StatChainRoute() {
   const canSubmit = selectedTeams.length === 3 && !session.completed && !isSubmitting
 
   return (
-    <div className="container mx-auto py-8 max-w-4xl">
+    <div className="container mx-auto py-8 max-w-4xl space-y-6">
       <Card>
         <CardHeader>
           <CardTitle>College Hoops Connections</CardTitle>
@@ -375,6 +399,8 @@ export default function StatChainRoute() {
         </CardContent>
       </Card>
 
+      <SeasonLeaderboard {...leaderboard} currentUserId={userId} />
+
       {/* Game Over Modal */}
       {showGameOver && session.completed && (
         <GameOverModal
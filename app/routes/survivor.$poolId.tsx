@@ -0,0 +1,317 @@
+import { useEffect } from "react";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "react-router";
+import { data } from "react-router";
+import type { Route } from "./+types/survivor.$poolId";
+import { requireAuth } from "~/lib/auth.server";
+import {
+  getSurvivorPeriodBounds,
+  getSurvivorPeriodStart,
+  getSurvivorPool,
+  joinSurvivorPool,
+  makeSurvivorPick,
+  shiftSurvivorPeriod,
+} from "~/lib/survivor.server";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { ChevronLeft, ChevronRight, Lock, Skull } from "lucide-react";
+import { format, isPast, parseISO, isValid } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "~/lib/utils";
+
+type PeriodGame = {
+  id: string;
+  game_date: string;
+  status: string;
+  home_team: { id: string; short_name: string };
+  away_team: { id: string; short_name: string };
+};
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+
+  const result = await getSurvivorPool(supabase, params.poolId);
+  if (!result) {
+    throw new Response("Pool not found", { status: 404 });
+  }
+
+  const { pool, entries, picks } = result;
+
+  // Default to the current period, or the first one if the pool hasn't started
+  const url = new URL(request.url);
+  const periodParam = url.searchParams.get("period");
+  const requested =
+    periodParam && isValid(parseISO(periodParam))
+      ? getSurvivorPeriodStart(pool.period_type, parseISO(`${periodParam}T12:00:00Z`))
+      : getSurvivorPeriodStart(pool.period_type, new Date());
+  const period = requested < pool.start_date ? pool.start_date : requested;
+
+  const { start, end } = getSurvivorPeriodBounds(pool.period_type, period);
+  const { data: games } = await supabase
+    .from("games")
+    .select(
+      `
+      id,
+      game_date,
+      status,
+      home_team:teams!games_home_team_id_fkey(id, short_name),
+      away_team:teams!games_away_team_id_fkey(id, short_name)
+    `
+    )
+    .gte("game_date", start.toISOString())
+    .lt("game_date", end.toISOString())
+    .neq("status", "cancelled")
+    .order("game_date", { ascending: true });
+
+  const periodGames = (games || []) as unknown as PeriodGame[];
+  const deadline = periodGames[0]?.game_date ?? null;
+
+  return data(
+    {
+      userId: user.id,
+      pool,
+      entries,
+      picks,
+      period,
+      periodGames,
+      deadline,
+    },
+    { headers }
+  );
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  const { supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  try {
+    if (intent === "join") {
+      await joinSurvivorPool(supabase, params.poolId);
+      return data({ success: true, message: "You're in. Good luck!" }, { headers });
+    }
+
+    if (intent === "pick") {
+      await makeSurvivorPick(supabase, {
+        poolId: params.poolId,
+        gameId: formData.get("gameId") as string,
+        teamId: formData.get("teamId") as string,
+      });
+      return data({ success: true, message: "Pick saved" }, { headers });
+    }
+  } catch (error) {
+    return data(
+      { error: error instanceof Error ? error.message : "Something went wrong" },
+      { status: 400, headers }
+    );
+  }
+
+  return data({ error: "Invalid intent" }, { status: 400, headers });
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: `${data?.pool.name ?? "Survivor"} - College Basketball Picks` }];
+}
+
+export default function SurvivorPool() {
+  const { userId, pool, entries, picks, period, periodGames, deadline } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  useEffect(() => {
+    if (!actionData) return;
+    const result = actionData as { error?: string; message?: string };
+    if (result.error) {
+      toast.error(result.error);
+    } else if (result.message) {
+      toast.success(result.message);
+    }
+  }, [actionData]);
+
+  const myEntry = entries.find((entry) => entry.user_id === userId);
+  const myPicks = myEntry ? picks.filter((pick) => pick.entry_id === myEntry.id) : [];
+  const myPeriodPick = myPicks.find((pick) => pick.period_start === period);
+  // Teams used in other periods are burned, unless the pick was voided; this period's pick can still be changed
+  const usedTeamIds = new Set(
+    myPicks
+      .filter((pick) => pick.period_start !== period && pick.result !== "void")
+      .map((pick) => pick.team_id)
+  );
+  const locked = deadline ? isPast(new Date(deadline)) : false;
+  const canPick = myEntry?.status === "alive" && !locked;
+
+  // Still alive first, then by how long they lasted
+  const board = [...entries].sort((a, b) => {
+    if (a.status !== b.status) return a.status === "alive" ? -1 : 1;
+    return (b.eliminated_period ?? "").localeCompare(a.eliminated_period ?? "");
+  });
+  const periods = Array.from(new Set(picks.map((pick) => pick.period_start))).sort();
+  const periodLabel = (value: string) =>
+    pool.period_type === "day"
+      ? format(parseISO(value), "MMM d")
+      : `Wk of ${format(parseISO(value), "MMM d")}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link to="/survivor" className="text-sm text-muted-foreground hover:underline">
+          ← All pools
+        </Link>
+        <h1 className="text-3xl font-bold mt-1">{pool.name}</h1>
+        <p className="text-muted-foreground mt-2">
+          {entries.filter((entry) => entry.status === "alive").length} of {entries.length} still
+          alive · one pick per {pool.period_type}
+        </p>
+      </div>
+
+      {!myEntry && (
+        <Form method="post">
+          <input type="hidden" name="intent" value="join" />
+          <Button type="submit" disabled={isSubmitting}>
+            Enter pool
+          </Button>
+        </Form>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link to={`?period=${shiftSurvivorPeriod(pool.period_type, period, -1)}`}>
+                <ChevronLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <CardTitle className="text-center">
+              {periodLabel(period)}
+              {deadline && (
+                <div className="text-xs font-normal text-muted-foreground mt-1" suppressHydrationWarning>
+                  {locked ? "Locked" : "Locks"} {format(new Date(deadline), "EEE MMM d, h:mm a")}
+                </div>
+              )}
+            </CardTitle>
+            <Button variant="outline" size="sm" asChild>
+              <Link to={`?period=${shiftSurvivorPeriod(pool.period_type, period, 1)}`}>
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {periodGames.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">No games this period.</p>
+          ) : (
+            <div className="grid gap-2 sm:grid-cols-2">
+              {periodGames.map((game) => (
+                <div key={game.id} className="flex items-center gap-2 rounded-lg border p-2">
+                  <span className="w-20 text-xs text-muted-foreground" suppressHydrationWarning>
+                    {format(new Date(game.game_date), pool.period_type === "day" ? "h:mm a" : "EEE h:mm a")}
+                  </span>
+                  {[game.away_team, game.home_team].map((team) => {
+                    const isPicked = myPeriodPick?.game_id === game.id && myPeriodPick.team_id === team.id;
+                    const isUsed = usedTeamIds.has(team.id);
+                    return (
+                      <Form method="post" key={team.id} className="flex-1">
+                        <input type="hidden" name="intent" value="pick" />
+                        <input type="hidden" name="gameId" value={game.id} />
+                        <input type="hidden" name="teamId" value={team.id} />
+                        <Button
+                          type="submit"
+                          size="sm"
+                          variant={isPicked ? "default" : "outline"}
+                          disabled={!canPick || isUsed || isSubmitting}
+                          className={cn("w-full", isUsed && "line-through")}
+                          title={isUsed ? "Already used" : undefined}
+                        >
+                          {team.short_name}
+                        </Button>
+                      </Form>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+          {myEntry?.status === "alive" && locked && !myPeriodPick && (
+            <p className="mt-3 text-sm text-red-600 flex items-center gap-1">
+              <Lock className="h-4 w-4" />
+              No pick was made before the deadline.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Still Alive</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Entrant</TableHead>
+                <TableHead>Status</TableHead>
+                {periods.map((value) => (
+                  <TableHead key={value} className="text-center whitespace-nowrap">
+                    {periodLabel(value)}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {board.map((entry) => (
+                <TableRow
+                  key={entry.id}
+                  className={cn(
+                    entry.user_id === userId && "bg-muted/50",
+                    entry.status === "eliminated" && "text-muted-foreground"
+                  )}
+                >
+                  <TableCell className="font-medium">@{entry.username}</TableCell>
+                  <TableCell>
+                    {entry.status === "alive" ? (
+                      <Badge>Alive</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="gap-1">
+                        <Skull className="h-3 w-3" />
+                        {entry.eliminated_period ? periodLabel(entry.eliminated_period) : "Out"}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  {periods.map((value) => {
+                    const pick = picks.find(
+                      (p) => p.entry_id === entry.id && p.period_start === value
+                    );
+                    return (
+                      <TableCell
+                        key={value}
+                        className={cn(
+                          "text-center",
+                          pick?.result === "won" && "text-green-600",
+                          pick?.result === "lost" && "text-red-600 line-through",
+                          pick?.result === "void" && "text-amber-600"
+                        )}
+                        title={pick?.result === "void" ? "Game postponed or cancelled" : undefined}
+                      >
+                        {pick?.team.short_name ?? "–"}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect } from "react";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "react-router";
+import { data, redirect } from "react-router";
+import type { Route } from "./+types/survivor";
+import { requireAuth } from "~/lib/auth.server";
+import { getActiveLeague } from "~/lib/leagues.server";
+import {
+  createSurvivorPool,
+  getSurvivorPeriodStart,
+  getSurvivorPools,
+  joinSurvivorPool,
+  type SurvivorPeriodType,
+} from "~/lib/survivor.server";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Badge } from "~/components/ui/badge";
+import { Plus, Skull, Users } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+
+  const [pools, activeLeague] = await Promise.all([
+    getSurvivorPools(supabase, user.id),
+    getActiveLeague(supabase, user.id),
+  ]);
+
+  return data(
+    {
+      pools,
+      activeLeague: activeLeague
+        ? { id: activeLeague.league.id, name: activeLeague.league.name }
+        : null,
+      currentWeek: getSurvivorPeriodStart("week", new Date()),
+    },
+    { headers }
+  );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const { user, supabase, headers } = await requireAuth(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  try {
+    if (intent === "create") {
+      const name = ((formData.get("name") as string) || "").trim();
+      const periodType = formData.get("periodType") === "day" ? "day" : "week";
+      const startDate = formData.get("startDate") as string;
+      const leagueId = (formData.get("leagueId") as string) || null;
+
+      if (!name) {
+        return data({ error: "Pool name is required" }, { status: 400, headers });
+      }
+      if (!startDate) {
+        return data({ error: "Start date is required" }, { status: 400, headers });
+      }
+
+      const poolId = await createSurvivorPool(supabase, user.id, {
+        name,
+        periodType: periodType as SurvivorPeriodType,
+        startDate,
+        leagueId,
+      });
+      return redirect(`/survivor/${poolId}`, { headers });
+    }
+
+    if (intent === "join") {
+      const poolId = formData.get("poolId") as string;
+      await joinSurvivorPool(supabase, poolId);
+      return redirect(`/survivor/${poolId}`, { headers });
+    }
+  } catch (error) {
+    return data(
+      { error: error instanceof Error ? error.message : "Something went wrong" },
+      { status: 400, headers }
+    );
+  }
+
+  return data({ error: "Invalid intent" }, { status: 400, headers });
+}
+
+export function meta(_: Route.MetaArgs) {
+  return [
+    { title: "Survivor - College Basketball Picks" },
+    {
+      name: "description",
+      content: "Pick one winner per period, never reuse a team, and outlast everyone",
+    },
+  ];
+}
+
+export default function Survivor() {
+  const { pools, activeLeague, currentWeek } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  useEffect(() => {
+    if (!actionData) return;
+    const result = actionData as { error?: string; message?: string };
+    if (result.error) {
+      toast.error(result.error);
+    }
+  }, [actionData]);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Survivor</h1>
+        <p className="text-muted-foreground mt-2">
+          Pick one team to win straight up each period. You can't use a team twice, and one
+          loss (or a missed deadline) knocks you out.
+        </p>
+      </div>
+
+      <Card className="max-w-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Create a Pool
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="intent" value="create" />
+            <div className="space-y-1">
+              <Label htmlFor="name">Pool name</Label>
+              <Input id="name" name="name" maxLength={60} required />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="periodType">One pick per</Label>
+                <select
+                  id="periodType"
+                  name="periodType"
+                  defaultValue="week"
+                  className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+                >
+                  <option value="week">Week</option>
+                  <option value="day">Day (tournament)</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="startDate">Starts</Label>
+                <Input
+                  id="startDate"
+                  name="startDate"
+                  type="date"
+                  defaultValue={currentWeek}
+                  required
+                />
+              </div>
+            </div>
+            {activeLeague && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="leagueId" value={activeLeague.id} defaultChecked />
+                Only members of {activeLeague.name}
+              </label>
+            )}
+            <Button type="submit" disabled={isSubmitting}>
+              Create Pool
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Pools</h2>
+
+        {pools.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No survivor pools yet. Create one to get started.
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {pools.map((pool) => (
+              <Card key={pool.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle>
+                      <Link to={`/survivor/${pool.id}`} className="hover:underline">
+                        {pool.name}
+                      </Link>
+                    </CardTitle>
+                    {pool.myEntry?.status === "alive" && <Badge>Alive</Badge>}
+                    {pool.myEntry?.status === "eliminated" && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Skull className="h-3 w-3" />
+                        Out
+                      </Badge>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Users className="h-4 w-4" />
+                      {pool.alive} of {pool.entrants} alive
+                    </span>
+                    <span>
+                      {pool.period_type === "day" ? "Daily" : "Weekly"} from{" "}
+                      {format(parseISO(pool.start_date), "MMM d")}
+                    </span>
+                    {pool.league_id && <Badge variant="outline">League</Badge>}
+                  </div>
+                  {!pool.myEntry && pool.start_date >= currentWeek && (
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="join" />
+                      <input type="hidden" name="poolId" value={pool.id} />
+                      <Button type="submit" size="sm" variant="outline" disabled={isSubmitting}>
+                        Enter pool
+                      </Button>
+                    </Form>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -47,7 +47,7 @@ export const analyzeMatchup = inngest.createFunction(
       }
 
       console.log(
-        `Gathered data for ${data.awayTeam.name} @ ${data.homeTeam.name}`
+        `Gathered data for ${data.awayTeam.name} ${data.game.neutral_site ? "vs" : "@"} ${data.homeTeam.name}`
       );
       return data;
     });
@@ -120,7 +120,7 @@ When analyzing a matchup, consider:
 - Historical context (similar opponents faced, head-to-head records)
 - Injuries and roster changes
 - Conference strength and competition level
-- Home court advantage
+- Home court advantage, which doesn't apply at neutral sites (the listed home team there is only listing order)
 - Team styles and how they match up
 
 Provide your analysis in a structured JSON format with:
@@ -139,8 +139,13 @@ function buildAnalysisPrompt(matchupData: MatchupData): string {
   const gameDate = new Date(game.game_date).toLocaleDateString();
 
   let prompt = `Analyze this college basketball matchup:\n\n`;
-  prompt += `**${awayTeam.name} @ ${homeTeam.name}**\n`;
+  prompt += `**${awayTeam.name} ${game.neutral_site ? "vs" : "@"} ${homeTeam.name}**\n`;
   prompt += `Date: ${gameDate}\n`;
+  if (game.neutral_site) {
+    prompt += `Site: Neutral${game.venue ? ` (${game.venue})` : ""}. Neither team has home court advantage.\n`;
+  } else if (game.venue) {
+    prompt += `Venue: ${game.venue}\n`;
+  }
   if (game.spread) {
     const favTeamId = game.favorite_team_id;
     const favTeam =
@@ -152,9 +157,9 @@ function buildAnalysisPrompt(matchupData: MatchupData): string {
   prompt += `\n`;
 
   // Add team stats and recent performance
-  prompt += formatTeamData("Away Team", awayTeam);
+  prompt += formatTeamData(game.neutral_site ? "Team" : "Away Team", awayTeam);
   prompt += `\n`;
-  prompt += formatTeamData("Home Team", homeTeam);
+  prompt += formatTeamData(game.neutral_site ? "Team" : "Home Team", homeTeam);
 
   prompt += `\n**TASK:**\nAnalyze this matchup and provide your assessment. Consider the statistical profiles, recent performance, injuries, and any relevant context. `;
   prompt += `Look for patterns like "Team X recently played a similar opponent to Team Y and dominated/struggled in that matchup" to draw meaningful comparisons.\n\n`;
@@ -210,7 +215,7 @@ function formatTeamData(
   if (team.recentGames.length > 0) {
     output += `**Recent Games (Last ${Math.min(5, team.recentGames.length)}):**\n`;
     team.recentGames.slice(0, 5).forEach((game) => {
-      const location = game.was_home ? "vs" : "@";
+      const location = game.site === "home" ? "vs" : game.site === "away" ? "@" : "N";
       const result = game.result === "won" ? "W" : "L";
       const pointDiff = game.point_differential !== null ? `${game.point_differential > 0 ? "+" : ""}${game.point_differential}` : "N/A";
       output += `- ${result} ${location} ${game.opponent_short_name} (${game.team_score}-${game.opponent_score}, ${pointDiff})\n`;
@@ -218,6 +223,12 @@ function formatTeamData(
     output += `\n`;
   }
 
+  // Home/away/neutral splits
+  const { home, away, neutral } = team.siteSplits;
+  if (home.wins + home.losses + away.wins + away.losses + neutral.wins + neutral.losses > 0) {
+    output += `**Record by Site (recent games):** Home ${home.wins}-${home.losses}, Away ${away.wins}-${away.losses}, Neutral ${neutral.wins}-${neutral.losses}\n\n`;
+  }
+
   // Injuries
   if (team.injuries.length > 0) {
     output += `**Injury Report:**\n`;
@@ -0,0 +1,105 @@
+// Helpers for turning The Odds API bookmaker markets into per-book lines and a consensus
+
+export const CONSENSUS_SOURCE = 'consensus'
+
+interface OddsApiOutcome {
+  name: string
+  point?: number
+  price?: number
+}
+
+interface OddsApiBookmaker {
+  key: string
+  markets?: { key: string; outcomes?: OddsApiOutcome[] }[]
+}
+
+// One book's line, with the spread kept signed from the home team's perspective
+export interface BookLine {
+  bookmaker: string
+  homeLine: number | null
+  total: number | null
+  homeMoneyline: number | null
+  awayMoneyline: number | null
+}
+
+// Extract spread, total and moneylines for one bookmaker
+export function extractBookLine(
+  bookmaker: OddsApiBookmaker,
+  homeTeam: string,
+  awayTeam: string
+): BookLine {
+  const market = (key: string) => bookmaker.markets?.find((m) => m.key === key)
+  const outcomeFor = (key: string, name: string) =>
+    market(key)?.outcomes?.find((o) => o.name === name)
+
+  // Both totals outcomes share the same point
+  const totalsOutcome = market('totals')?.outcomes?.[0]
+
+  return {
+    bookmaker: bookmaker.key,
+    homeLine: outcomeFor('spreads', homeTeam)?.point ?? null,
+    total: totalsOutcome?.point ?? null,
+    homeMoneyline: outcomeFor('h2h', homeTeam)?.price ?? null,
+    awayMoneyline: outcomeFor('h2h', awayTeam)?.price ?? null,
+  }
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// Lines are posted in half points
+function roundToHalf(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 2) / 2
+}
+
+function impliedProbability(odds: number): number {
+  return odds < 0 ? -odds / (-odds + 100) : 100 / (odds + 100)
+}
+
+function americanOdds(probability: number): number {
+  return probability >= 0.5
+    ? -Math.round((100 * probability) / (1 - probability))
+    : Math.round((100 * (1 - probability)) / probability)
+}
+
+// Moneylines straddle zero (-105 / +105), so take the median in implied probability
+function medianMoneyline(values: (number | null)[]): number | null {
+  const probability = median(
+    values.filter((v): v is number => v !== null).map(impliedProbability)
+  )
+  return probability === null ? null : americanOdds(probability)
+}
+
+// Median of every book's line, market by market
+export function computeConsensus(lines: BookLine[]): BookLine | null {
+  if (lines.length === 0) return null
+
+  const present = (values: (number | null)[]) =>
+    values.filter((v): v is number => v !== null)
+
+  return {
+    bookmaker: CONSENSUS_SOURCE,
+    homeLine: roundToHalf(median(present(lines.map((l) => l.homeLine)))),
+    total: roundToHalf(median(present(lines.map((l) => l.total)))),
+    homeMoneyline: medianMoneyline(lines.map((l) => l.homeMoneyline)),
+    awayMoneyline: medianMoneyline(lines.map((l) => l.awayMoneyline)),
+  }
+}
+
+// Convert a home-perspective line to the games table convention (unsigned spread + favorite)
+export function toStoredSpread(
+  homeLine: number | null,
+  homeTeamId: string,
+  awayTeamId: string
+): { spread: number | null; favorite_team_id: string | null } {
+  if (homeLine === null) return { spread: null, favorite_team_id: null }
+  if (homeLine === 0) return { spread: 0, favorite_team_id: null }
+  return {
+    spread: Math.abs(homeLine),
+    favorite_team_id: homeLine < 0 ? homeTeamId : awayTeamId,
+  }
+}
@@ -1,6 +1,20 @@
 import { inngest } from '../client'
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { formatInTimeZone } from 'date-fns-tz'
 import { normalizeTeamName } from './team-mapping'
+import {
+  CONSENSUS_SOURCE,
+  computeConsensus,
+  extractBookLine,
+  toStoredSpread,
+  type BookLine,
+} from './bookmaker-lines'
+import { getOddsApiBudget, oddsApiFetch } from '../../lib/odds-api/quota'
+import { EspnScoreProvider } from '../../lib/scores/espn-provider'
+import { matchReports } from '../../lib/scores/reconcile'
+import { TeamResolver } from '../../lib/scrapers/team-resolver'
+
+const RESCHEDULE_WINDOW_DAYS = 45
 
 // Helper function to get or create the Independent conference
 async function getIndependentConference(supabase: any) {
@@ -87,6 +101,52 @@ async function findOrCreateTeam(
   return { ...newTeam!, created: true }
 }
 
+// A postponed game between the same two teams is the one a new external_id replaces.
+// Only games a score provider (or an admin) already marked postponed match: a game
+// still 'scheduled' after tip-off may have been played and just never graded, and
+// voiding its picks on a name match alone could hit a conference rematch.
+async function findRescheduledOriginal(
+  supabase: SupabaseClient,
+  externalId: string,
+  homeTeamId: string,
+  awayTeamId: string,
+  gameDate: Date
+): Promise<{ id: string } | null> {
+  const { data: existing } = await supabase
+    .from('games')
+    .select('id')
+    .eq('external_id', externalId)
+    .maybeSingle()
+
+  if (existing) return null
+
+  const windowStart = new Date(gameDate.getTime() - RESCHEDULE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  const { data: candidates } = await supabase
+    .from('games')
+    .select('id, game_date')
+    .or(
+      `and(home_team_id.eq.${homeTeamId},away_team_id.eq.${awayTeamId}),` +
+        `and(home_team_id.eq.${awayTeamId},away_team_id.eq.${homeTeamId})`
+    )
+    .eq('status', 'postponed')
+    .gte('game_date', windowStart.toISOString())
+    .lt('game_date', gameDate.toISOString())
+    .order('game_date', { ascending: false })
+
+  for (const candidate of candidates || []) {
+    const { data: replacement } = await supabase
+      .from('games')
+      .select('id')
+      .eq('rescheduled_from_game_id', candidate.id)
+      .maybeSingle()
+
+    if (!replacement) return { id: candidate.id }
+  }
+
+  return null
+}
+
 export const scrapeGames = inngest.createFunction(
   {
     id: 'scrape-daily-games',
@@ -99,20 +159,26 @@ export const scrapeGames = inngest.createFunction(
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     )
 
-    // Step 1: Fetch games from The Odds API
+    // Step 1: Make sure this month's Odds API budget still covers the call
+    const budget = await step.run('check-odds-budget', async () => {
+      return await getOddsApiBudget(supabase)
+    })
+
+    if (budget.remaining < budget.scrapeCost) {
+      return { message: `Odds API budget exhausted (${budget.remaining} credits left)` }
+    }
+
+    // Step 2: Fetch games from The Odds API
     const games = await step.run('fetch-games-from-api', async () => {
       const apiKey = process.env.ODDS_API_KEY
       if (!apiKey) {
         throw new Error('ODDS_API_KEY not configured')
       }
 
-      const response = await fetch(
-        `https://api.the-odds-api.com/v4/sports/basketball_ncaab/odds?apiKey=${apiKey}&regions=us&markets=spreads&oddsFormat=american`,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
+      const response = await oddsApiFetch(
+        supabase,
+        'scrape-games',
+        `https://api.the-odds-api.com/v4/sports/basketball_ncaab/odds?apiKey=${apiKey}&regions=us&markets=spreads,totals,h2h&oddsFormat=american`
       )
 
       if (!response.ok) {
@@ -123,15 +189,25 @@ export const scrapeGames = inngest.createFunction(
       return data
     })
 
-    // Step 2: Process and upsert games to database
+    // Step 3: Process and upsert games to database
     const result = await step.run('upsert-games', async () => {
       let gamesProcessed = 0
+      let snapshotsRecorded = 0
+      let bookLinesRecorded = 0
+      let gamesRescheduled = 0
       const errors: string[] = []
       const teamsCreated: string[] = []
 
       // Get the Independent conference once for all auto-created teams
       const independentConf = await getIndependentConference(supabase)
 
+      // Which book's line is official (admin-configurable, defaults to consensus)
+      const { data: oddsSettings } = await supabase
+        .from('odds_settings')
+        .select('official_line_source')
+        .single()
+      const officialSource: string = oddsSettings?.official_line_source ?? CONSENSUS_SOURCE
+
       for (const game of games) {
         try {
           // Extract game data
@@ -170,62 +246,114 @@ export const scrapeGames = inngest.createFunction(
             )
           }
 
-          // Extract spread from bookmakers and determine favorite
-          const spreadsMarket = game.bookmakers?.[0]?.markets?.find(
-            (m: { key: string }) => m.key === 'spreads'
+          // Keep every book's line, then pick the official one (configured book, else consensus)
+          const bookLines: BookLine[] = (game.bookmakers || []).map(
+            (b: { key: string }) => extractBookLine(b, homeTeam, awayTeam)
+          )
+          const consensus = computeConsensus(bookLines)
+          const official =
+            bookLines.find((l) => l.bookmaker === officialSource) ?? consensus
+          const { spread, favorite_team_id: favoriteTeamId } = toStoredSpread(
+            official?.homeLine ?? null,
+            homeTeamData.id,
+            awayTeamData.id
           )
 
-          let favoriteTeamId = null
-          let spread: number | null = null
-
-          if (spreadsMarket?.outcomes) {
-            // Find the outcome with negative spread (the favorite)
-            const favoriteOutcome = spreadsMarket.outcomes.find(
-              (o: { point: number; name: string }) => o.point < 0
-            )
-
-            if (favoriteOutcome) {
-              spread = favoriteOutcome.point
-
-              // Match the favorite outcome's team name to home or away team
-              // The outcome name should match one of the team names from the API
-              if (favoriteOutcome.name === homeTeam) {
-                favoriteTeamId = homeTeamData.id
-              } else if (favoriteOutcome.name === awayTeam) {
-                favoriteTeamId = awayTeamData.id
-              }
-            }
-          }
-
-          // Get conference ID (assume both teams in same conference for now)
-          const { data: homeTeamFull } = await supabase
-            .from('teams')
-            .select('conference_id')
-            .eq('id', homeTeamData.id)
-            .single()
+          // A new external_id for a postponed matchup is its reschedule
+          const original = await findRescheduledOriginal(
+            supabase,
+            game.id,
+            homeTeamData.id,
+            awayTeamData.id,
+            gameDate
+          )
 
           // Upsert game
-          const { error } = await supabase.from('games').upsert(
+          const { data: upsertedGame, error } = await supabase.from('games').upsert(
             {
               external_id: game.id,
               game_date: gameDate.toISOString(),
               home_team_id: homeTeamData.id,
               away_team_id: awayTeamData.id,
-              spread: spread ? Math.abs(spread) : null,
+              spread,
               favorite_team_id: favoriteTeamId,
+              total: official?.total ?? null,
+              home_moneyline: official?.homeMoneyline ?? null,
+              away_moneyline: official?.awayMoneyline ?? null,
+              line_source: official?.bookmaker ?? null,
               status: 'scheduled',
-              conference_id: homeTeamFull?.conference_id,
+              // conference_id and is_conference_game are set by trg_classify_game_conference
               scraped_at: new Date().toISOString(),
             },
             {
               onConflict: 'external_id',
             }
           )
+            .select('id')
+            .single()
 
           if (error) {
             errors.push(`Failed to upsert game: ${error.message}`)
-          } else {
-            gamesProcessed++
+            continue
+          }
+
+          gamesProcessed++
+
+          // Link the rescheduled game to the postponed original so picks can be carried over
+          if (original) {
+            const { error: linkError } = await supabase
+              .from('games')
+              .update({ rescheduled_from_game_id: original.id })
+              .eq('id', upsertedGame.id)
+
+            if (linkError) {
+              errors.push(`Failed to link rescheduled game: ${linkError.message}`)
+            } else {
+              gamesRescheduled++
+            }
+          }
+
+          // Store each book's line plus the consensus for the per-book comparison
+          const linesToStore = consensus ? [...bookLines, consensus] : bookLines
+          if (linesToStore.length > 0) {
+            const { error: linesError } = await supabase
+              .from('game_bookmaker_lines')
+              .upsert(
+                linesToStore.map((line) => ({
+                  game_id: upsertedGame.id,
+                  bookmaker: line.bookmaker,
+                  ...toStoredSpread(line.homeLine, homeTeamData.id, awayTeamData.id),
+                  total: line.total,
+                  home_moneyline: line.homeMoneyline,
+                  away_moneyline: line.awayMoneyline,
+                })),
+                { onConflict: 'game_id,bookmaker' }
+              )
+
+            if (linesError) {
+              errors.push(`Failed to store bookmaker lines: ${linesError.message}`)
+            } else {
+              bookLinesRecorded += linesToStore.length
+            }
+          }
+
+          // Record a line snapshot so the opening line and every move survive the overwrite above
+          if (spread !== null) {
+            const { error: snapshotError } = await supabase
+              .from('game_line_snapshots')
+              .insert({
+                game_id: upsertedGame.id,
+                captured_at: new Date().toISOString(),
+                bookmaker: official?.bookmaker ?? 'unknown',
+                spread,
+                favorite_team_id: favoriteTeamId,
+              })
+
+            if (snapshotError) {
+              errors.push(`Failed to record line snapshot: ${snapshotError.message}`)
+            } else {
+              snapshotsRecorded++
+            }
           }
         } catch (error) {
           errors.push(`Error processing game: ${error instanceof Error ? error.message : String(error)}`)
@@ -235,11 +363,68 @@ export const scrapeGames = inngest.createFunction(
       return {
         totalGames: games.length,
         gamesProcessed,
+        snapshotsRecorded,
+        bookLinesRecorded,
+        gamesRescheduled,
+        officialSource,
         teamsCreated,
         errors,
       }
     })
 
-    return result
+    // Step 4: The Odds API has no venue data, so take venue and neutral site from ESPN's scoreboard
+    const venues = await step.run('fill-venues', async () => {
+      const { data: scrapedGames, error } = await supabase
+        .from('games')
+        .select('id, external_id, home_team_id, away_team_id, game_date')
+        .in(
+          'external_id',
+          games.map((game: { id: string }) => game.id)
+        )
+
+      if (error) {
+        throw new Error(`Failed to fetch scraped games: ${error.message}`)
+      }
+
+      if (!scrapedGames || scrapedGames.length === 0) {
+        return { venuesUpdated: 0, venueErrors: [] }
+      }
+
+      const dates = [
+        ...new Set(scrapedGames.map((game) => formatInTimeZone(game.game_date, 'America/New_York', 'yyyy-MM-dd'))),
+      ]
+      let venuesUpdated = 0
+      const venueErrors: string[] = []
+
+      try {
+        const reports = await new EspnScoreProvider().fetchScores(dates)
+        const matched = await matchReports(reports, scrapedGames, new TeamResolver(supabase))
+
+        for (const report of matched) {
+          if (report.neutralSite === undefined) continue
+
+          const { error: updateError } = await supabase
+            .from('games')
+            .update({
+              venue: report.venue,
+              neutral_site: report.neutralSite,
+            })
+            .eq('id', report.gameId)
+
+          if (updateError) {
+            venueErrors.push(`Failed to update venue for game ${report.gameId}: ${updateError.message}`)
+          } else {
+            venuesUpdated++
+          }
+        }
+      } catch (error) {
+        // Venues are nice to have; a down scoreboard shouldn't fail the scrape
+        venueErrors.push(`ESPN scoreboard: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      return { venuesUpdated, venueErrors }
+    })
+
+    return { ...result, ...venues }
   }
 )
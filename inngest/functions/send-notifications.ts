@@ -0,0 +1,370 @@
+import { inngest } from '../client'
+import { createClient } from '@supabase/supabase-js'
+import { formatInTimeZone } from 'date-fns-tz'
+import { createMailTransport } from '../../lib/mail/transport'
+import {
+  pickReminderEmail,
+  resultsDigestEmail,
+  type DigestPick,
+  type DigestStreak,
+  type ReminderGame,
+} from '../../lib/mail/templates'
+
+const TIMEZONE = 'America/New_York'
+
+// Remind once the day's first unpicked game is this close to tip-off
+const REMINDER_LEAD_MINUTES = 90
+
+interface Recipient {
+  user_id: string
+  email: string
+  username: string
+  timezone: string
+}
+
+interface SlateGame {
+  id: string
+  game_date: string
+  home_team_id: string
+  away_team_id: string
+  home_team: { short_name: string }
+  away_team: { short_name: string }
+}
+
+function createServiceClient() {
+  return createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+function appUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '')
+}
+
+async function getRecipients(
+  supabase: ReturnType<typeof createServiceClient>,
+  kind: 'pick_reminder' | 'results_digest',
+  slateDate: string
+): Promise<Recipient[]> {
+  const [{ data: recipients, error }, { data: delivered, error: deliveredError }] = await Promise.all([
+    supabase.rpc('get_notification_recipients', { notification_kind: kind }),
+    supabase
+      .from('notification_deliveries')
+      .select('user_id')
+      .eq('kind', kind)
+      .eq('slate_date', slateDate),
+  ])
+
+  if (error) {
+    throw new Error(`Failed to fetch recipients: ${error.message}`)
+  }
+  if (deliveredError) {
+    throw new Error(`Failed to fetch deliveries: ${deliveredError.message}`)
+  }
+
+  const alreadySent = new Set((delivered || []).map((row) => row.user_id as string))
+  return ((recipients || []) as Recipient[]).filter((recipient) => !alreadySent.has(recipient.user_id))
+}
+
+/**
+ * Claim the (user, kind, slate) slot before sending so overlapping runs can't double-send
+ * @returns false when another run already claimed it
+ */
+async function claimDelivery(
+  supabase: ReturnType<typeof createServiceClient>,
+  delivery: {
+    user_id: string
+    kind: 'pick_reminder' | 'results_digest'
+    slate_date: string
+    streak_type?: string | null
+    streak_count?: number | null
+  }
+): Promise<boolean> {
+  const { error } = await supabase.from('notification_deliveries').insert(delivery)
+  if (!error) return true
+  if (error.code === '23505') return false
+  throw new Error(`Failed to record delivery: ${error.message}`)
+}
+
+async function releaseDelivery(
+  supabase: ReturnType<typeof createServiceClient>,
+  userId: string,
+  kind: 'pick_reminder' | 'results_digest',
+  slateDate: string
+) {
+  await supabase
+    .from('notification_deliveries')
+    .delete()
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .eq('slate_date', slateDate)
+}
+
+export const sendPickReminders = inngest.createFunction(
+  {
+    id: 'send-pick-reminders',
+    name: 'Email Pick Reminders',
+  },
+  // Every 15 minutes across the afternoon/evening slate (12pm-11pm EST), Nov-Apr
+  { cron: '*/15 17-23,0-4 * 11,12,1-4 *' },
+  async ({ step }) => {
+    const supabase = createServiceClient()
+    // Memoized so every replay of this run works from the same slate and cutoff
+    const now = new Date(await step.run('now', () => new Date().toISOString()))
+    const slateDate = formatInTimeZone(now, TIMEZONE, 'yyyy-MM-dd')
+
+    // Step 1: Today's games that haven't tipped yet
+    const games = await step.run('fetch-open-games', async () => {
+      const { data, error } = await supabase
+        .from('games')
+        .select(
+          'id, game_date, home_team_id, away_team_id, home_team:teams!games_home_team_id_fkey(short_name), away_team:teams!games_away_team_id_fkey(short_name)'
+        )
+        .eq('status', 'scheduled')
+        .gt('game_date', now.toISOString())
+        // The rest of the ET day is always within 24 hours; the date filter below is exact
+        .lte('game_date', new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString())
+        .order('game_date', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to fetch games: ${error.message}`)
+      }
+
+      return ((data || []) as unknown as SlateGame[]).filter(
+        (game) => formatInTimeZone(new Date(game.game_date), TIMEZONE, 'yyyy-MM-dd') === slateDate
+      )
+    })
+
+    if (games.length === 0) {
+      return { message: 'No open games today' }
+    }
+
+    // Step 2: Opted-in users who haven't been reminded today, with their picks and favorites
+    const recipients = await step.run('fetch-recipients', async () => {
+      const candidates = await getRecipients(supabase, 'pick_reminder', slateDate)
+      if (candidates.length === 0) return []
+
+      const userIds = candidates.map((recipient) => recipient.user_id)
+      const [{ data: picks, error: picksError }, { data: favorites, error: favoritesError }] =
+        await Promise.all([
+          supabase
+            .from('picks')
+            .select('user_id, game_id')
+            .in('user_id', userIds)
+            .in('game_id', games.map((game) => game.id)),
+          supabase.from('user_favorite_teams').select('user_id, team_id').in('user_id', userIds),
+        ])
+
+      if (picksError) {
+        throw new Error(`Failed to fetch picks: ${picksError.message}`)
+      }
+      if (favoritesError) {
+        throw new Error(`Failed to fetch favorites: ${favoritesError.message}`)
+      }
+
+      return candidates.map((recipient) => ({
+        ...recipient,
+        pickedGameIds: (picks || [])
+          .filter((pick) => pick.user_id === recipient.user_id)
+          .map((pick) => pick.game_id as string),
+        favoriteTeamIds: (favorites || [])
+          .filter((favorite) => favorite.user_id === recipient.user_id)
+          .map((favorite) => favorite.team_id as string),
+      }))
+    })
+
+    // Step 3: Email anyone whose first unpicked game is about to tip
+    const leadCutoff = now.getTime() + REMINDER_LEAD_MINUTES * 60 * 1000
+    let sent = 0
+    const errors: string[] = []
+
+    for (const recipient of recipients) {
+      const unpicked = games.filter((game) => !recipient.pickedGameIds.includes(game.id))
+      if (unpicked.length === 0 || new Date(unpicked[0].game_date).getTime() > leadCutoff) {
+        continue
+      }
+
+      const reminderGames: ReminderGame[] = unpicked
+        .map((game) => ({
+          id: game.id,
+          game_date: game.game_date,
+          matchup: `${game.away_team.short_name} @ ${game.home_team.short_name}`,
+          isFavorite:
+            recipient.favoriteTeamIds.includes(game.home_team_id) ||
+            recipient.favoriteTeamIds.includes(game.away_team_id),
+        }))
+        // Favorite-team games first, each group by tip time
+        .sort((a, b) => Number(b.isFavorite) - Number(a.isFavorite))
+
+      const result = await step.run(`send-reminder-${recipient.user_id}`, async () => {
+        if (!(await claimDelivery(supabase, { user_id: recipient.user_id, kind: 'pick_reminder', slate_date: slateDate }))) {
+          return { sent: false }
+        }
+
+        try {
+          await createMailTransport().send(
+            pickReminderEmail(recipient.email, recipient.username, reminderGames, appUrl(), recipient.timezone)
+          )
+        } catch (error) {
+          await releaseDelivery(supabase, recipient.user_id, 'pick_reminder', slateDate)
+          return { sent: false, error: error instanceof Error ? error.message : String(error) }
+        }
+
+        return { sent: true }
+      })
+
+      if (result.sent) sent++
+      if ('error' in result && result.error) errors.push(`${recipient.user_id}: ${result.error}`)
+    }
+
+    return { openGames: games.length, recipients: recipients.length, sent, errors }
+  }
+)
+
+export const sendResultsDigests = inngest.createFunction(
+  {
+    id: 'send-results-digests',
+    name: 'Email Nightly Results Digests',
+  },
+  // 4am EST, after the last West Coast games have been graded, Nov-Apr
+  { cron: '0 9 * 11,12,1-4 *' },
+  async ({ step }) => {
+    const supabase = createServiceClient()
+    // Yesterday's slate in Eastern Time, memoized so replays don't drift across midnight
+    const now = new Date(await step.run('now', () => new Date().toISOString()))
+    const slateDate = formatInTimeZone(
+      new Date(now.getTime() - 24 * 60 * 60 * 1000),
+      TIMEZONE,
+      'yyyy-MM-dd'
+    )
+
+    // Step 1: Opted-in users with graded picks on the slate
+    const recipients = await step.run('fetch-recipients', async () => {
+      const candidates = await getRecipients(supabase, 'results_digest', slateDate)
+      if (candidates.length === 0) return []
+
+      const { data: picks, error } = await supabase
+        .from('picks')
+        .select(
+          `
+          user_id,
+          pick_type,
+          picked_team_id,
+          spread_at_pick_time,
+          total_side,
+          total_at_pick_time,
+          odds_at_pick_time,
+          result,
+          units_result,
+          game:games(
+            home_team_id,
+            home_team:teams!games_home_team_id_fkey(short_name),
+            away_team:teams!games_away_team_id_fkey(short_name)
+          )
+        `
+        )
+        .in('user_id', candidates.map((recipient) => recipient.user_id))
+        .eq('game_date_cache', slateDate)
+        .in('result', ['won', 'lost', 'push', 'void'])
+
+      if (error) {
+        throw new Error(`Failed to fetch graded picks: ${error.message}`)
+      }
+
+      return candidates
+        .map((recipient) => ({
+          ...recipient,
+          picks: (picks || [])
+            .filter((pick) => pick.user_id === recipient.user_id)
+            .map((pick): DigestPick => {
+              const game = pick.game as unknown as {
+                home_team_id: string
+                home_team: { short_name: string }
+                away_team: { short_name: string }
+              }
+              const team =
+                pick.picked_team_id === game.home_team_id ? game.home_team.short_name : game.away_team.short_name
+              const matchup = `${game.away_team.short_name} @ ${game.home_team.short_name}`
+              const spread = Number(pick.spread_at_pick_time)
+              const odds = Number(pick.odds_at_pick_time)
+
+              const description =
+                pick.pick_type === 'total'
+                  ? `${pick.total_side === 'over' ? 'Over' : 'Under'} ${pick.total_at_pick_time} (${matchup})`
+                  : pick.pick_type === 'moneyline'
+                    ? `${team} ML ${odds > 0 ? `+${odds}` : odds} (${matchup})`
+                    : `${team} ${spread === 0 ? 'PK' : spread > 0 ? `+${spread}` : spread} (${matchup})`
+
+              return {
+                description,
+                result: pick.result as DigestPick['result'],
+                units: pick.units_result === null ? null : Number(pick.units_result),
+              }
+            }),
+        }))
+        .filter((recipient) => recipient.picks.length > 0)
+    })
+
+    let sent = 0
+    const errors: string[] = []
+
+    // Step 2: Streak now vs. the streak in the previous digest, then send
+    for (const recipient of recipients) {
+      const result = await step.run(`send-digest-${recipient.user_id}`, async () => {
+        const [{ data: streakRows, error: streakError }, { data: previous }] = await Promise.all([
+          supabase.rpc('get_user_current_streak', { user_uuid: recipient.user_id }),
+          supabase
+            .from('notification_deliveries')
+            .select('streak_type, streak_count')
+            .eq('user_id', recipient.user_id)
+            .eq('kind', 'results_digest')
+            .lt('slate_date', slateDate)
+            .order('slate_date', { ascending: false })
+            .limit(1)
+            .maybeSingle(),
+        ])
+
+        if (streakError) {
+          return { sent: false, error: `Failed to fetch streak: ${streakError.message}` }
+        }
+
+        const row = (streakRows || [])[0] as { streak_type: 'won' | 'lost'; streak_count: number } | undefined
+        const streak: DigestStreak = { type: row?.streak_type ?? null, count: row?.streak_count ?? 0 }
+        const previousStreak: DigestStreak | null = previous
+          ? { type: previous.streak_type as DigestStreak['type'], count: previous.streak_count ?? 0 }
+          : null
+
+        const claimed = await claimDelivery(supabase, {
+          user_id: recipient.user_id,
+          kind: 'results_digest',
+          slate_date: slateDate,
+          streak_type: streak.type,
+          streak_count: streak.count,
+        })
+        if (!claimed) return { sent: false }
+
+        try {
+          await createMailTransport().send(
+            resultsDigestEmail(
+              recipient.email,
+              recipient.username,
+              slateDate,
+              recipient.picks,
+              streak,
+              previousStreak,
+              appUrl()
+            )
+          )
+        } catch (error) {
+          await releaseDelivery(supabase, recipient.user_id, 'results_digest', slateDate)
+          return { sent: false, error: error instanceof Error ? error.message : String(error) }
+        }
+
+        return { sent: true }
+      })
+
+      if (result.sent) sent++
+      if ('error' in result && result.error) errors.push(`${recipient.user_id}: ${result.error}`)
+    }
+
+    return { slateDate, recipients: recipients.length, sent, errors }
+  }
+)
@@ -1,18 +1,24 @@
 import { inngest } from '../client'
 import { createClient } from '@supabase/supabase-js'
+import { formatInTimeZone } from 'date-fns-tz'
+import { TeamResolver } from '../../lib/scrapers/team-resolver'
+import { createScoreProviders } from '../../lib/scores/provider'
+import { getOddsApiBudget, shouldPollOddsApiScores, type GamePriority } from '../../lib/odds-api/quota'
+import { isSettled, matchReports, reconcileScores, type MatchedReport } from '../../lib/scores/reconcile'
+
+// Slates, and so the dates providers are asked about, follow Eastern Time
+const SLATE_TIMEZONE = 'America/New_York'
 
 export const updateScores = inngest.createFunction(
   {
     id: 'update-game-scores',
     name: 'Update Game Scores and Pick Results',
   },
-  // Optimized for 500 API calls/month limit:
-  // - Every 30 minutes (not 5) = 2 calls/hour
-  // - 5pm-6am UTC = 12pm-1am EST (covers afternoon/evening games)
-  // - Nov-Mar only (basketball season)
-  // - Smart query below ensures API only called when games are active
-  // Estimated: ~300 calls/month during season
-  { cron: '*/30 17-23,0-5 * 11,12,1-3 *' },
+  // ESPN is free, so runs are every 10 minutes; the Odds API is only asked when
+  // its remaining monthly budget allows (see lib/odds-api/quota)
+  // - Smart query below ensures no provider is called when no games are active
+  // Nov-Apr covers the season through the Final Four
+  { cron: '*/10 * * 11,12,1-4 *' },
   async ({ step }) => {
     const supabase = createClient(
       process.env.SUPABASE_URL!,
@@ -53,66 +59,142 @@ export const updateScores = inngest.createFunction(
       return { message: 'No active games to update' }
     }
 
-    // Step 2: Fetch scores from API (The Odds API or ESPN)
-    const scores = await step.run('fetch-scores', async () => {
-      const apiKey = process.env.ODDS_API_KEY
-      if (!apiKey) {
-        throw new Error('ODDS_API_KEY not configured')
+    // Step 2: Spend an Odds API credit only if the budget allows it for the games at stake
+    const pollOddsApi = await step.run('plan-odds-api', async () => {
+      const { data: pendingPicks, error } = await supabase
+        .from('picks')
+        .select('is_pick_of_day')
+        .in(
+          'game_id',
+          games.map((game) => game.id)
+        )
+        .eq('result', 'pending')
+
+      if (error) {
+        throw new Error(`Failed to fetch pending picks: ${error.message}`)
       }
 
-      // The Odds API provides scores endpoint
-      const response = await fetch(
-        `https://api.the-odds-api.com/v4/sports/basketball_ncaab/scores?apiKey=${apiKey}&daysFrom=1`,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      )
+      const priority: GamePriority = pendingPicks?.some((pick) => pick.is_pick_of_day)
+        ? 'potd'
+        : pendingPicks && pendingPicks.length > 0
+          ? 'picked'
+          : 'none'
+
+      const budget = await getOddsApiBudget(supabase)
+      return shouldPollOddsApiScores(budget, priority)
+    })
 
-      if (!response.ok) {
-        throw new Error(`Odds API error: ${response.statusText}`)
+    // Step 3: Ask each provider in order of trust, stopping once every tipped game is settled
+    const { reports, providerErrors } = await step.run('fetch-scores', async () => {
+      const now = new Date()
+      const providers = createScoreProviders(supabase)
+      const resolver = new TeamResolver(supabase)
+      await resolver.initializeCache()
+
+      const dates = [...new Set(games.map((game) => formatInTimeZone(game.game_date, SLATE_TIMEZONE, 'yyyy-MM-dd')))]
+      const tipped = games.filter((game) => new Date(game.game_date) <= now)
+
+      const matched: MatchedReport[] = []
+      const errors: string[] = []
+      let answered = false
+
+      for (const provider of providers) {
+        const unsettled = tipped.filter(
+          (game) => !isSettled(matched.filter((report) => report.gameId === game.id))
+        )
+        if (answered && unsettled.length === 0) break
+        if (provider.name === 'odds_api' && !pollOddsApi) continue
+
+        try {
+          const providerReports = await provider.fetchScores(dates)
+          matched.push(...(await matchReports(providerReports, games, resolver)))
+          answered = true
+        } catch (error) {
+          // One provider being down is what the others are for
+          errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`)
+        }
       }
 
-      return await response.json()
+      return {
+        reports: matched,
+        providerErrors: errors,
+      }
     })
 
-    // Step 3: Update game scores and status
+    // Step 4: Record every provider's report, then update games with the reconciled score
     const updateResults = await step.run('update-game-scores', async () => {
       let gamesUpdated = 0
       const errors: string[] = []
+      const conflicts: string[] = []
+      const priority = createScoreProviders(supabase).map((provider) => provider.name)
+
+      if (reports.length > 0) {
+        const { error: reportsError } = await supabase.from('game_score_reports').upsert(
+          reports.map((report) => ({
+            game_id: report.gameId,
+            provider: report.provider,
+            provider_event_id: report.eventId,
+            status: report.status,
+            home_score: report.homeScore,
+            away_score: report.awayScore,
+            reported_at: new Date().toISOString(),
+          })),
+          { onConflict: 'game_id,provider' }
+        )
+
+        if (reportsError) {
+          errors.push(`Failed to record score reports: ${reportsError.message}`)
+        }
+      }
 
       for (const game of games) {
         try {
-          const scoreData = scores.find((s: { id: string }) => s.id === game.external_id)
+          const reconciled = reconcileScores(
+            reports.filter((report) => report.gameId === game.id),
+            priority
+          )
 
-          if (!scoreData) {
+          if (!reconciled) {
             continue
           }
 
-          // Determine status
-          let status: 'scheduled' | 'in_progress' | 'completed' = 'scheduled'
-          if (scoreData.completed) {
-            status = 'completed'
-          } else if (new Date(scoreData.commence_time) < new Date()) {
-            status = 'in_progress'
+          for (const other of reconciled.disagreements) {
+            conflicts.push(
+              `Game ${game.id}: ${reconciled.provider} ${reconciled.homeScore}-${reconciled.awayScore}, ` +
+                `${other.provider} ${other.homeScore}-${other.awayScore}`
+            )
           }
 
-          // Extract scores
-          const homeScore = scoreData.scores?.find(
-            (s: { name: string }) => s.name === scoreData.home_team
-          )?.score
-          const awayScore = scoreData.scores?.find(
-            (s: { name: string }) => s.name === scoreData.away_team
-          )?.score
-
-          // Update game
+          const calledOff = reconciled.status === 'postponed' || reconciled.status === 'cancelled'
+
+          // Capture the closing line the first time the game tips off; a called-off game never closed
+          const closingLine =
+            !calledOff && game.status === 'scheduled' && !game.closing_captured_at
+              ? {
+                  closing_spread: game.spread,
+                  closing_favorite_team_id: game.favorite_team_id,
+                  closing_captured_at: new Date().toISOString(),
+                }
+              : {}
+
+          const finalized =
+            reconciled.status === 'completed'
+              ? {
+                  score_provider: reconciled.provider,
+                  score_finalized_at: new Date().toISOString(),
+                }
+              : {}
+
+          // Update game; postponed and cancelled games carry no score and get their picks
+          // voided by grade_pick_results below
           const { error } = await supabase
             .from('games')
             .update({
-              home_score: homeScore ? parseInt(homeScore) : null,
-              away_score: awayScore ? parseInt(awayScore) : null,
-              status,
+              home_score: reconciled.homeScore,
+              away_score: reconciled.awayScore,
+              status: reconciled.status,
+              ...closingLine,
+              ...finalized,
               updated_at: new Date().toISOString(),
             })
             .eq('id', game.id)
@@ -127,12 +209,12 @@ export const updateScores = inngest.createFunction(
         }
       }
 
-      return { gamesUpdated, errors }
+      return { gamesUpdated, errors, conflicts }
     })
 
-    // Step 4: Update pick results for completed games
+    // Step 5: Grade spread and totals picks for completed games
     const pickResults = await step.run('update-pick-results', async () => {
-      const { error } = await supabase.rpc('update_pick_results')
+      const { error } = await supabase.rpc('grade_pick_results')
 
       if (error) {
         throw new Error(`Failed to update pick results: ${error.message}`)
@@ -141,10 +223,24 @@ export const updateScores = inngest.createFunction(
       return { success: true }
     })
 
+    // Step 6: Grade survivor picks and eliminate entrants who lost or missed a deadline
+    const survivorEliminations = await step.run('update-survivor-results', async () => {
+      const { data: eliminated, error } = await supabase.rpc('update_survivor_results')
+
+      if (error) {
+        throw new Error(`Failed to update survivor results: ${error.message}`)
+      }
+
+      return (eliminated as number) ?? 0
+    })
+
     return {
       totalGames: games.length,
       ...updateResults,
+      providerErrors,
+      oddsApiPolled: pollOddsApi,
       pickResultsUpdated: pickResults.success,
+      survivorEliminations,
     }
   }
 )
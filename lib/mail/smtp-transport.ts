@@ -0,0 +1,49 @@
+import { createTransport, type Transporter } from 'nodemailer'
+import type { MailMessage, MailTransport } from './transport'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** Implicit TLS from the first byte (port 465); otherwise STARTTLS when offered */
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+const TIMEOUT_MS = 30_000
+
+/**
+ * SMTP delivery through nodemailer
+ * Sends a multipart/alternative message with text and HTML parts.
+ */
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter
+
+  constructor(private config: SmtpConfig) {
+    this.transporter = createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      name: process.env.SMTP_HELO_NAME || undefined,
+      auth: config.user && config.pass ? { user: config.user, pass: config.pass } : undefined,
+      connectionTimeout: TIMEOUT_MS,
+      greetingTimeout: TIMEOUT_MS,
+      socketTimeout: TIMEOUT_MS,
+    })
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      })
+    } catch (error) {
+      throw new Error(`SMTP send failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { formatInTimeZone } from 'date-fns-tz'
+import type { MailMessage } from './transport'
+
+// Slate dates are Eastern Time; tip times use the recipient's timezone
+const TIMEZONE = 'America/New_York'
+
+export interface ReminderGame {
+  id: string
+  game_date: string
+  matchup: string
+  isFavorite: boolean
+}
+
+export interface DigestPick {
+  description: string
+  result: 'won' | 'lost' | 'push' | 'void'
+  units: number | null
+}
+
+export interface DigestStreak {
+  type: 'won' | 'lost' | null
+  count: number
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function layout(title: string, body: string, appUrl: string): string {
+  return `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #0f172a; max-width: 560px; margin: 0 auto; padding: 24px;">
+    <h2 style="margin: 0 0 16px;">${escapeHtml(title)}</h2>
+    ${body}
+    <p style="margin-top: 24px; font-size: 12px; color: #64748b;">
+      You're getting this because you turned it on in <a href="${appUrl}/settings">your settings</a>.
+    </p>
+  </body>
+</html>`
+}
+
+function formatTip(gameDate: string, timezone: string): string {
+  return formatInTimeZone(new Date(gameDate), timezone, 'h:mm a zzz')
+}
+
+/**
+ * Pre-tip reminder listing the games the user hasn't picked yet
+ * Games should already be ordered favorites first.
+ */
+export function pickReminderEmail(
+  to: string,
+  username: string,
+  games: ReminderGame[],
+  appUrl: string,
+  timezone: string = TIMEZONE
+): MailMessage {
+  const subject =
+    games.length === 1
+      ? `1 game left to pick: ${games[0].matchup} tips at ${formatTip(games[0].game_date, timezone)}`
+      : `${games.length} games left to pick today`
+
+  const lines = games.map(
+    (game) => `${game.isFavorite ? '★ ' : ''}${game.matchup} - ${formatTip(game.game_date, timezone)}`
+  )
+
+  const text = [
+    `Hey @${username}, you haven't picked these games yet:`,
+    '',
+    ...lines,
+    '',
+    `Make your picks: ${appUrl}/`,
+  ].join('\n')
+
+  const rows = games
+    .map(
+      (game) => `<tr>
+        <td style="padding: 6px 0;">${game.isFavorite ? '★ ' : ''}${escapeHtml(game.matchup)}</td>
+        <td style="padding: 6px 0; text-align: right; color: #475569;">${formatTip(game.game_date, timezone)}</td>
+      </tr>`
+    )
+    .join('')
+
+  const html = layout(
+    'Picks are still open',
+    `<p>Hey @${escapeHtml(username)}, you haven't picked these games yet:</p>
+    <table style="width: 100%; border-collapse: collapse;">${rows}</table>
+    <p style="margin-top: 16px;"><a href="${appUrl}/" style="color: #2563eb;">Make your picks</a></p>`,
+    appUrl
+  )
+
+  return { to, subject, text, html }
+}
+
+function describeStreak(streak: DigestStreak): string {
+  if (!streak.type || streak.count === 0) return 'no streak'
+  return `${streak.type === 'won' ? 'W' : 'L'}${streak.count}`
+}
+
+/**
+ * Nightly digest of a slate's graded picks and how the user's streak moved
+ */
+export function resultsDigestEmail(
+  to: string,
+  username: string,
+  slateDate: string,
+  picks: DigestPick[],
+  streak: DigestStreak,
+  previousStreak: DigestStreak | null,
+  appUrl: string
+): MailMessage {
+  const wins = picks.filter((pick) => pick.result === 'won').length
+  const losses = picks.filter((pick) => pick.result === 'lost').length
+  const pushes = picks.filter((pick) => pick.result === 'push').length
+  const units = picks.reduce((sum, pick) => sum + (pick.units ?? 0), 0)
+  const unitsLabel = `${units > 0 ? '+' : ''}${units.toFixed(2)}u`
+  const dayLabel = formatInTimeZone(new Date(`${slateDate}T12:00:00Z`), TIMEZONE, 'EEE, MMM d')
+
+  const streakLine =
+    previousStreak && describeStreak(previousStreak) !== describeStreak(streak)
+      ? `Streak: ${describeStreak(streak)} (was ${describeStreak(previousStreak)})`
+      : `Streak: ${describeStreak(streak)}`
+
+  const resultLabel = (result: DigestPick['result']) =>
+    ({ won: 'W', lost: 'L', push: 'P', void: 'Void' })[result]
+
+  const subject = `${dayLabel}: ${wins}-${losses}${pushes ? `-${pushes}` : ''}, ${unitsLabel}`
+
+  const text = [
+    `Hey @${username}, here's how your ${dayLabel} picks did:`,
+    '',
+    ...picks.map((pick) => `${resultLabel(pick.result)}  ${pick.description}`),
+    '',
+    `Record: ${wins}-${losses}-${pushes}  Units: ${unitsLabel}`,
+    streakLine,
+    '',
+    `All your picks: ${appUrl}/mypicks`,
+  ].join('\n')
+
+  const rows = picks
+    .map(
+      (pick) => `<tr>
+        <td style="padding: 6px 8px 6px 0; font-weight: 600; color: ${
+          pick.result === 'won' ? '#16a34a' : pick.result === 'lost' ? '#dc2626' : '#64748b'
+        };">${resultLabel(pick.result)}</td>
+        <td style="padding: 6px 0;">${escapeHtml(pick.description)}</td>
+      </tr>`
+    )
+    .join('')
+
+  const html = layout(
+    `${dayLabel} results`,
+    `<p>Hey @${escapeHtml(username)}, here's how your picks did:</p>
+    <table style="width: 100%; border-collapse: collapse;">${rows}</table>
+    <p style="margin-top: 16px;"><strong>Record:</strong> ${wins}-${losses}-${pushes} &nbsp; <strong>Units:</strong> ${unitsLabel}</p>
+    <p>${escapeHtml(streakLine)}</p>
+    <p><a href="${appUrl}/mypicks" style="color: #2563eb;">All your picks</a></p>`,
+    appUrl
+  )
+
+  return { to, subject, text, html }
+}
@@ -0,0 +1,70 @@
+import { SmtpTransport } from './smtp-transport'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Anything that can deliver a MailMessage
+ * Notification code only talks to this interface, so the SMTP server (a real relay in
+ * production, a local catcher like Mailpit in development) is purely configuration.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+/**
+ * Logs messages instead of sending them
+ * Only used when asked for, or in development without an SMTP server: it prints
+ * addresses and full bodies, and the delivery is still recorded as sent.
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+/**
+ * Build the transport described by the environment
+ *
+ * MAIL_TRANSPORT  'smtp' or 'console' (defaults to smtp, or console in development
+ *                 when SMTP_HOST isn't set)
+ * SMTP_HOST       e.g. smtp.postmarkapp.com, or localhost for a local catcher
+ * SMTP_PORT       defaults to 465 when SMTP_SECURE=true, otherwise 587
+ * SMTP_SECURE     'true' for implicit TLS; otherwise STARTTLS is used when offered
+ * SMTP_USER/PASS  optional; local catchers usually don't need them
+ * MAIL_FROM       e.g. "CBB Picks <picks@example.com>"
+ */
+export function createMailTransport(): MailTransport {
+  const kind =
+    process.env.MAIL_TRANSPORT ||
+    (!process.env.SMTP_HOST && process.env.NODE_ENV === 'development' ? 'console' : 'smtp')
+
+  if (kind === 'console') {
+    return new ConsoleTransport()
+  }
+
+  if (kind !== 'smtp') {
+    throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`)
+  }
+
+  const host = process.env.SMTP_HOST
+  // Senders release the delivery claim when this throws, so nobody is marked as emailed
+  if (!host) {
+    throw new Error('SMTP_HOST not configured')
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true'
+
+  return new SmtpTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.MAIL_FROM || 'CBB Picks <picks@localhost>',
+  })
+}
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type OddsApiCaller = 'scrape-games' | 'update-scores'
+
+// Plan size; the API reports the real figure once a call has been recorded this month
+const DEFAULT_MONTHLY_QUOTA = 500
+
+// Credits per call before one has been observed: /odds is regions x markets (us x 3),
+// /scores costs 2 with daysFrom
+const DEFAULT_COST: Record<OddsApiCaller, number> = {
+  'scrape-games': 3,
+  'update-scores': 2,
+}
+
+// Minutes a day with games worth polling, 5pm-6am UTC (12pm-1am ET)
+const GAME_WINDOW_MINUTES = 13 * 60
+
+// update-scores runs every 10 minutes, so it can't poll any faster
+const MIN_POLL_MINUTES = 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * How much a game matters when deciding whether to spend a credit on it
+ * potd: someone made it their Pick of the Day; picked: it has pending picks
+ */
+export type GamePriority = 'potd' | 'picked' | 'none'
+
+// Multiplier on the base poll interval; games nobody has a stake in are left to ESPN/NCAA more often
+const PRIORITY_INTERVAL_FACTOR: Record<GamePriority, number> = {
+  potd: 0.5,
+  picked: 1,
+  none: 3,
+}
+
+interface UsageRow {
+  called_at: string
+  caller: OddsApiCaller
+  requests_used: number | null
+  requests_remaining: number | null
+  request_cost: number | null
+}
+
+export interface OddsApiBudget {
+  quota: number
+  used: number
+  remaining: number
+  /** Credits held back so scrape-games can still run every day until the month resets */
+  reserved: number
+  /** Credits update-scores may spend */
+  spendable: number
+  scrapeCost: number
+  scoresCost: number
+  /** Base minutes between score polls that spreads spendable over the rest of the month; null when nothing is spendable */
+  pollIntervalMinutes: number | null
+  lastScoresCallAt: string | null
+  /** Remaining credits at month end if the month-to-date burn rate holds */
+  projectedMonthEnd: number
+  /** Remaining credits at the end of each day this month, up to today */
+  history: { day: string; remaining: number }[]
+}
+
+function parseHeader(response: Response, name: string): number | null {
+  const value = response.headers.get(name)
+  if (value === null) return null
+  const parsed = parseInt(value, 10)
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+/**
+ * fetch() an Odds API URL and record the quota headers it returns
+ * Recording is best-effort; a failed insert is logged and the response is still returned.
+ */
+export async function oddsApiFetch(
+  supabase: SupabaseClient,
+  caller: OddsApiCaller,
+  url: string
+): Promise<Response> {
+  const response = await fetch(url, {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  const { error } = await supabase.from('odds_api_usage').insert({
+    caller,
+    // Never store the apiKey query parameter
+    endpoint: new URL(url).pathname,
+    status_code: response.status,
+    requests_used: parseHeader(response, 'x-requests-used'),
+    requests_remaining: parseHeader(response, 'x-requests-remaining'),
+    request_cost: parseHeader(response, 'x-requests-last'),
+  })
+
+  if (error) {
+    console.error(`Failed to record Odds API usage: ${error.message}`)
+  }
+
+  return response
+}
+
+/**
+ * Where this month's Odds API budget stands and how fast update-scores may spend it
+ * The quota resets at the start of each calendar month (UTC).
+ */
+export async function getOddsApiBudget(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<OddsApiBudget> {
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  const monthEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+
+  const { data, error } = await supabase
+    .from('odds_api_usage')
+    .select('called_at, caller, requests_used, requests_remaining, request_cost')
+    .gte('called_at', monthStart.toISOString())
+    .order('called_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load Odds API usage: ${error.message}`)
+  }
+
+  const rows = (data || []) as UsageRow[]
+  const withHeaders = rows.filter((row) => row.requests_used !== null && row.requests_remaining !== null)
+  const latest = withHeaders[withHeaders.length - 1]
+
+  const costOf = (caller: OddsApiCaller) =>
+    [...rows].reverse().find((row) => row.caller === caller && row.request_cost)?.request_cost ||
+    DEFAULT_COST[caller]
+  const scrapeCost = costOf('scrape-games')
+  const scoresCost = costOf('update-scores')
+
+  const used = latest
+    ? (latest.requests_used as number)
+    : rows.reduce((sum, row) => sum + (row.request_cost ?? DEFAULT_COST[row.caller]), 0)
+  const quota = latest ? used + (latest.requests_remaining as number) : DEFAULT_MONTHLY_QUOTA
+  const remaining = Math.max(0, quota - used)
+
+  const today = now.toISOString().slice(0, 10)
+  const daysAfterToday = Math.round((monthEnd.getTime() - Date.parse(today)) / DAY_MS) - 1
+  const scrapedToday = rows.some((row) => row.caller === 'scrape-games' && row.called_at.startsWith(today))
+  const reserved = (daysAfterToday + (scrapedToday ? 0 : 1)) * scrapeCost
+  const spendable = Math.max(0, remaining - reserved)
+
+  const polls = Math.floor(spendable / scoresCost)
+  const pollIntervalMinutes =
+    polls > 0 ? Math.max(MIN_POLL_MINUTES, (GAME_WINDOW_MINUTES * (daysAfterToday + 1)) / polls) : null
+
+  const elapsed = now.getTime() - monthStart.getTime()
+  const burnPerMs = elapsed > 0 ? used / elapsed : 0
+  const projectedMonthEnd = Math.round(remaining - burnPerMs * (monthEnd.getTime() - now.getTime()))
+
+  // Carry the last known balance through days without calls
+  const history: OddsApiBudget['history'] = []
+  let balance = quota
+  for (let day = monthStart.getTime(); day <= Date.parse(today); day += DAY_MS) {
+    const date = new Date(day).toISOString().slice(0, 10)
+    const lastThatDay = withHeaders.filter((row) => row.called_at.startsWith(date)).pop()
+    if (lastThatDay) balance = lastThatDay.requests_remaining as number
+    history.push({ day: date, remaining: balance })
+  }
+
+  const lastScores = [...rows].reverse().find((row) => row.caller === 'update-scores')
+
+  return {
+    quota,
+    used,
+    remaining,
+    reserved,
+    spendable,
+    scrapeCost,
+    scoresCost,
+    pollIntervalMinutes,
+    lastScoresCallAt: lastScores?.called_at ?? null,
+    projectedMonthEnd,
+    history,
+  }
+}
+
+/**
+ * Whether update-scores should spend a credit on the Odds API this run
+ * @param priority - The most important active game's priority
+ */
+export function shouldPollOddsApiScores(
+  budget: OddsApiBudget,
+  priority: GamePriority,
+  now: Date = new Date()
+): boolean {
+  if (budget.pollIntervalMinutes === null) return false
+  if (!budget.lastScoresCallAt) return true
+
+  const interval = Math.max(MIN_POLL_MINUTES, budget.pollIntervalMinutes * PRIORITY_INTERVAL_FACTOR[priority])
+  const minutesSince = (now.getTime() - new Date(budget.lastScoresCallAt).getTime()) / 60000
+
+  // A minute of slack so cron jitter doesn't skip a slot that's due
+  return minutesSince >= interval - 1
+}
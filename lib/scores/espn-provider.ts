@@ -0,0 +1,65 @@
+import { fetchTournamentGames, type EspnCompetition } from '../../app/lib/tournaments/espn-scraper'
+import type { ScoreProvider, ScoreReport } from './provider'
+
+// ESPN's Division I group; without it the scoreboard only lists featured games
+const DIVISION_I_GROUP = '50'
+
+// Called-off games keep state 'post' without being completed, which would otherwise read as live
+const CALLED_OFF_STATUSES: Record<string, ScoreReport['status']> = {
+  STATUS_POSTPONED: 'postponed',
+  STATUS_CANCELED: 'cancelled',
+  STATUS_CANCELLED: 'cancelled',
+}
+
+/**
+ * ESPN's public scoreboard JSON
+ * Free and unmetered, so it can be polled every run.
+ */
+export class EspnScoreProvider implements ScoreProvider {
+  readonly name = 'espn' as const
+
+  async fetchScores(dates: string[]): Promise<ScoreReport[]> {
+    if (dates.length === 0) return []
+
+    const sorted = [...dates].sort()
+    const data = await fetchTournamentGames({
+      startDate: sorted[0].replace(/-/g, ''),
+      endDate: sorted[sorted.length - 1].replace(/-/g, ''),
+      groups: DIVISION_I_GROUP,
+      limit: 500,
+    })
+
+    return (data.events || []).flatMap((event) =>
+      event.competitions.flatMap((competition) => {
+        const report = this.toReport(competition)
+        return report ? [report] : []
+      })
+    )
+  }
+
+  private toReport(competition: EspnCompetition): ScoreReport | null {
+    const home = competition.competitors.find((c) => c.homeAway === 'home')
+    const away = competition.competitors.find((c) => c.homeAway === 'away')
+    if (!home || !away) return null
+
+    const state = competition.status.type.state
+    const status: ScoreReport['status'] =
+      CALLED_OFF_STATUSES[competition.status.type.name] ??
+      (competition.status.type.completed ? 'completed' : state === 'pre' ? 'scheduled' : 'in_progress')
+    const hasScore = status === 'in_progress' || status === 'completed'
+    const score = (value: string) => (!hasScore || value === '' ? null : parseInt(value, 10))
+
+    return {
+      provider: this.name,
+      eventId: competition.id,
+      startTime: new Date(competition.date).toISOString(),
+      status,
+      homeTeam: home.team.displayName,
+      awayTeam: away.team.displayName,
+      homeScore: score(home.score),
+      awayScore: score(away.score),
+      venue: competition.venue?.fullName ?? null,
+      neutralSite: competition.neutralSite,
+    }
+  }
+}
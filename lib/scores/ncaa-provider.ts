@@ -0,0 +1,34 @@
+import { convertNcaaGameToInternal, fetchNcaaGames } from '../../app/lib/tournaments/ncaa-scraper'
+import type { ScoreProvider, ScoreReport } from './provider'
+
+/**
+ * NCAA.com scoreboard (via the henrygd/ncaa-api mirror)
+ * One request per slate date; used as the tiebreaker and last resort.
+ */
+export class NcaaScoreProvider implements ScoreProvider {
+  readonly name = 'ncaa' as const
+
+  async fetchScores(dates: string[]): Promise<ScoreReport[]> {
+    const reports: ScoreReport[] = []
+
+    for (const date of dates) {
+      const games = await fetchNcaaGames(date)
+
+      for (const game of games) {
+        const converted = convertNcaaGameToInternal(game)
+        reports.push({
+          provider: this.name,
+          eventId: game.game.gameID,
+          startTime: converted.game_date,
+          status: converted.status,
+          homeTeam: converted.home_team_name,
+          awayTeam: converted.away_team_name,
+          homeScore: converted.status === 'scheduled' ? null : converted.home_score,
+          awayScore: converted.status === 'scheduled' ? null : converted.away_score,
+        })
+      }
+    }
+
+    return reports
+  }
+}
@@ -0,0 +1,63 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { oddsApiFetch } from '../odds-api/quota'
+import type { ScoreProvider, ScoreReport } from './provider'
+
+interface OddsApiScore {
+  id: string
+  commence_time: string
+  completed: boolean
+  home_team: string
+  away_team: string
+  scores: { name: string; score: string }[] | null
+}
+
+/**
+ * The Odds API /scores endpoint
+ * Each call counts against the monthly quota, so update-scores asks the budget
+ * (lib/odds-api/quota) before using it.
+ */
+export class OddsApiScoreProvider implements ScoreProvider {
+  readonly name = 'odds_api' as const
+
+  constructor(
+    private apiKey: string,
+    private supabase: SupabaseClient
+  ) {}
+
+  async fetchScores(): Promise<ScoreReport[]> {
+    // daysFrom=1 covers in-progress games and everything completed in the last day
+    const response = await oddsApiFetch(
+      this.supabase,
+      'update-scores',
+      `https://api.the-odds-api.com/v4/sports/basketball_ncaab/scores?apiKey=${this.apiKey}&daysFrom=1`
+    )
+
+    if (!response.ok) {
+      throw new Error(`Odds API error: ${response.statusText}`)
+    }
+
+    const scores = (await response.json()) as OddsApiScore[]
+
+    return scores.map((event) => {
+      const scoreFor = (team: string) => {
+        const score = event.scores?.find((s) => s.name === team)?.score
+        return score ? parseInt(score) : null
+      }
+
+      return {
+        provider: this.name,
+        eventId: event.id,
+        startTime: event.commence_time,
+        status: event.completed
+          ? 'completed'
+          : new Date(event.commence_time) < new Date()
+            ? 'in_progress'
+            : 'scheduled',
+        homeTeam: event.home_team,
+        awayTeam: event.away_team,
+        homeScore: scoreFor(event.home_team),
+        awayScore: scoreFor(event.away_team),
+      }
+    })
+  }
+}
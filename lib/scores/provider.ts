@@ -0,0 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { OddsApiScoreProvider } from './odds-api-provider'
+import { EspnScoreProvider } from './espn-provider'
+import { NcaaScoreProvider } from './ncaa-provider'
+
+export type ScoreProviderName = 'odds_api' | 'espn' | 'ncaa'
+
+/**
+ * One provider's view of a game, in the provider's own team names
+ */
+export interface ScoreReport {
+  provider: ScoreProviderName
+  /** The provider's id for the event; for odds_api this is games.external_id */
+  eventId: string
+  startTime: string
+  status: 'scheduled' | 'in_progress' | 'completed' | 'postponed' | 'cancelled'
+  homeTeam: string
+  awayTeam: string
+  homeScore: number | null
+  awayScore: number | null
+  /** Only ESPN reports where the game is played */
+  venue?: string | null
+  neutralSite?: boolean
+}
+
+/**
+ * Anything that can report scores for a set of slate dates
+ * update-scores only talks to this interface; which providers run, and in what
+ * order of trust, is configuration.
+ */
+export interface ScoreProvider {
+  name: ScoreProviderName
+  /**
+   * @param dates - Eastern Time slate dates (yyyy-MM-dd) of the games being tracked
+   */
+  fetchScores(dates: string[]): Promise<ScoreReport[]>
+}
+
+/**
+ * Build the providers described by the environment, most trusted first
+ *
+ * SCORE_PROVIDERS  comma-separated order, defaults to 'odds_api,espn,ncaa'
+ * ODDS_API_KEY     required for odds_api; without it that provider is skipped
+ *
+ * @param supabase - Service-role client the Odds API provider records its quota usage with
+ */
+export function createScoreProviders(supabase: SupabaseClient): ScoreProvider[] {
+  const names = (process.env.SCORE_PROVIDERS || 'odds_api,espn,ncaa')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+
+  return names.flatMap((name): ScoreProvider[] => {
+    switch (name) {
+      case 'odds_api':
+        return process.env.ODDS_API_KEY ? [new OddsApiScoreProvider(process.env.ODDS_API_KEY, supabase)] : []
+      case 'espn':
+        return [new EspnScoreProvider()]
+      case 'ncaa':
+        return [new NcaaScoreProvider()]
+      default:
+        throw new Error(`Unknown score provider: ${name}`)
+    }
+  })
+}
@@ -0,0 +1,190 @@
+import type { TeamResolver } from '../scrapers/team-resolver'
+import type { ScoreProviderName, ScoreReport } from './provider'
+
+// A report more than this far from a game's tip-off is a different meeting of the same teams
+const MAX_START_DRIFT_MS = 18 * 60 * 60 * 1000
+
+export interface TrackedGame {
+  id: string
+  external_id: string | null
+  home_team_id: string
+  away_team_id: string
+  game_date: string
+}
+
+/**
+ * A provider report lined up with one of our games, scores in our home/away order
+ */
+export interface MatchedReport {
+  gameId: string
+  provider: ScoreProviderName
+  eventId: string
+  status: ScoreReport['status']
+  homeScore: number | null
+  awayScore: number | null
+  venue?: string | null
+  neutralSite?: boolean
+}
+
+export interface ReconciledScore {
+  status: 'in_progress' | 'completed' | 'postponed' | 'cancelled'
+  homeScore: number | null
+  awayScore: number | null
+  /** The provider the score was taken from */
+  provider: ScoreProviderName
+  /** Final scores from other providers that disagreed with the one used */
+  disagreements: MatchedReport[]
+}
+
+/**
+ * Line provider reports up with the games being tracked
+ * Odds API events match on games.external_id; everything else on both teams
+ * (resolved through TeamResolver) and a tip-off within MAX_START_DRIFT_MS.
+ * Neutral-site games may list home and away the other way round, so scores are
+ * flipped into our order.
+ */
+export async function matchReports(
+  reports: ScoreReport[],
+  games: TrackedGame[],
+  resolver: TeamResolver
+): Promise<MatchedReport[]> {
+  const byExternalId = new Map(
+    games.filter((game) => game.external_id).map((game) => [game.external_id as string, game])
+  )
+  const nearAGame = (report: ScoreReport) =>
+    games.some(
+      (game) =>
+        Math.abs(new Date(report.startTime).getTime() - new Date(game.game_date).getTime()) <= MAX_START_DRIFT_MS
+    )
+
+  const resolve = async (name: string, provider: ScoreProviderName) => {
+    try {
+      return (await resolver.resolveTeamId(name, provider)).teamId
+    } catch {
+      return null
+    }
+  }
+
+  const matched: MatchedReport[] = []
+
+  for (const report of reports) {
+    let game = report.provider === 'odds_api' ? byExternalId.get(report.eventId) : undefined
+    let flipped = false
+
+    if (!game) {
+      // Skip the rest of the slate before doing any name matching
+      if (!nearAGame(report)) continue
+
+      const [homeId, awayId] = await Promise.all([
+        resolve(report.homeTeam, report.provider),
+        resolve(report.awayTeam, report.provider),
+      ])
+      if (!homeId || !awayId) continue
+
+      game = games.find(
+        (candidate) =>
+          ((candidate.home_team_id === homeId && candidate.away_team_id === awayId) ||
+            (candidate.home_team_id === awayId && candidate.away_team_id === homeId)) &&
+          Math.abs(new Date(report.startTime).getTime() - new Date(candidate.game_date).getTime()) <=
+            MAX_START_DRIFT_MS
+      )
+      flipped = game?.home_team_id === awayId
+    }
+
+    if (!game) continue
+
+    matched.push({
+      gameId: game.id,
+      provider: report.provider,
+      eventId: report.eventId,
+      status: report.status,
+      homeScore: flipped ? report.awayScore : report.homeScore,
+      awayScore: flipped ? report.homeScore : report.awayScore,
+      venue: report.venue,
+      neutralSite: report.neutralSite,
+    })
+  }
+
+  return matched
+}
+
+function finalScoreKey(report: MatchedReport): string | null {
+  if (report.status !== 'completed' || report.homeScore === null || report.awayScore === null) return null
+  return `${report.homeScore}-${report.awayScore}`
+}
+
+function isCalledOff(report: MatchedReport): report is MatchedReport & { status: 'postponed' | 'cancelled' } {
+  return report.status === 'postponed' || report.status === 'cancelled'
+}
+
+/**
+ * Whether a game's reports are enough to stop asking further providers:
+ * it has a live score, two providers agree on the final, or it was called off
+ */
+export function isSettled(reports: MatchedReport[]): boolean {
+  const finals = reports.map(finalScoreKey).filter((key): key is string => key !== null)
+  if (finals.length > 0) {
+    return finals.some((key, index) => finals.indexOf(key) !== index)
+  }
+  return reports.some(
+    (report) => (report.status === 'in_progress' && report.homeScore !== null) || isCalledOff(report)
+  )
+}
+
+/**
+ * Decide a game's score from every provider's report
+ * A final score beats a live one, and any score beats a postponement or
+ * cancellation. Between finals, the score the most providers agree on wins and ties
+ * go to the most trusted provider (earliest in priority).
+ * @returns null when no provider has a score yet and none has called the game off
+ */
+export function reconcileScores(
+  reports: MatchedReport[],
+  priority: ScoreProviderName[]
+): ReconciledScore | null {
+  const rank = (report: MatchedReport) => priority.indexOf(report.provider)
+  const ordered = [...reports].sort((a, b) => rank(a) - rank(b))
+
+  const finals = ordered.filter((report) => finalScoreKey(report) !== null)
+  if (finals.length > 0) {
+    const groups = new Map<string, MatchedReport[]>()
+    for (const report of finals) {
+      const key = finalScoreKey(report) as string
+      groups.set(key, [...(groups.get(key) || []), report])
+    }
+    // Groups keep priority order, so a stable sort on size breaks ties by trust
+    const [best] = [...groups.values()].sort((a, b) => b.length - a.length)
+
+    return {
+      status: 'completed',
+      homeScore: best[0].homeScore,
+      awayScore: best[0].awayScore,
+      provider: best[0].provider,
+      disagreements: finals.filter((report) => !best.includes(report)),
+    }
+  }
+
+  const live = ordered.find((report) => report.status === 'in_progress' && report.homeScore !== null)
+  if (live) {
+    return {
+      status: 'in_progress',
+      homeScore: live.homeScore,
+      awayScore: live.awayScore,
+      provider: live.provider,
+      disagreements: [],
+    }
+  }
+
+  const calledOff = ordered.find(isCalledOff)
+  if (calledOff) {
+    return {
+      status: calledOff.status,
+      homeScore: null,
+      awayScore: null,
+      provider: calledOff.provider,
+      disagreements: [],
+    }
+  }
+
+  return null
+}
@@ -54,31 +54,18 @@ export class BartTorvikScraper extends BaseScraper<BartTorvikRawTeamStats, TeamS
   }
 
   private teamResolver = new TeamResolver(this.supabase)
-  private currentSeason = this.getCurrentSeason()
+  private currentSeason = 0
 
   protected getJobType(): string {
     return 'team_stats'
   }
 
-  /**
-   * Get current college basketball season
-   * Season runs Nov-Apr, so use year of the spring semester
-   */
-  private getCurrentSeason(): number {
-    const now = new Date()
-    const month = now.getMonth() + 1 // 1-12
-    const year = now.getFullYear()
-
-    // If it's Jan-Jul, we're in the spring semester of that season
-    // If it's Aug-Dec, we're in the fall of the next season
-    return month >= 8 ? year + 1 : year
-  }
-
   /**
    * Scrape team stats from BartTorvik using Playwright
    * (BartTorvik uses Cloudflare protection requiring a real browser)
    */
   protected async scrape(): Promise<BartTorvikRawTeamStats[]> {
+    this.currentSeason = await this.fetchCurrentSeason()
     console.log(`[BartTorvik] Scraping team stats for ${this.currentSeason} season`)
 
     const url = 'https://barttorvik.com/trank.php'
@@ -179,6 +179,19 @@ export abstract class BaseScraper<TRaw, TTransformed> {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
+  /**
+   * Current college basketball season from the seasons table (2026 = 2025-26)
+   */
+  protected async fetchCurrentSeason(): Promise<number> {
+    const { data, error } = await this.supabase.rpc('current_season_id')
+
+    if (error || data === null) {
+      throw new Error(`Failed to determine the current season: ${error?.message ?? 'no seasons'}`)
+    }
+
+    return data as number
+  }
+
   /**
    * Log scraper run start
    */
@@ -64,19 +64,12 @@ export class KenPomScraper extends BaseScraper<KenPomRawTeamStats, TeamStatsReco
   private browser: Browser | null = null
   private page: Page | null = null
   private teamResolver = new TeamResolver(this.supabase)
-  private currentSeason = this.getCurrentSeason()
+  private currentSeason = 0
 
   protected getJobType(): string {
     return 'team_stats'
   }
 
-  private getCurrentSeason(): number {
-    const now = new Date()
-    const month = now.getMonth() + 1
-    const year = now.getFullYear()
-    return month >= 8 ? year + 1 : year
-  }
-
   /**
    * Initialize browser and authenticate
    */
@@ -250,6 +243,7 @@ export class KenPomScraper extends BaseScraper<KenPomRawTeamStats, TeamStatsReco
       throw new Error('Browser not initialized')
     }
 
+    this.currentSeason = await this.fetchCurrentSeason()
     console.log(`[KenPom] Scraping team stats for ${this.currentSeason} season`)
 
     // Navigate to main ratings page
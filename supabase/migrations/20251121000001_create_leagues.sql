@@ -0,0 +1,213 @@
+-- Migration: Create private pick'em leagues
+-- Purpose: Lets users compete in private leagues (owner, invite code, members, settings)
+--          instead of a single global pool. A user can belong to several leagues and
+--          picks one as "active" to scope the slate, others' picks and leaderboards.
+-- Rollback: DROP TABLE league_members, leagues CASCADE; ALTER TABLE profiles DROP COLUMN active_league_id;
+
+-- ============================================================================
+-- LEAGUES
+-- ============================================================================
+
+CREATE TABLE leagues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invite_code TEXT NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+
+  -- Per-league settings
+  invites_open BOOLEAN NOT NULL DEFAULT true,
+  max_members INTEGER CHECK (max_members IS NULL OR max_members >= 2),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_leagues_owner_id ON leagues(owner_id);
+
+-- ============================================================================
+-- LEAGUE MEMBERS
+-- ============================================================================
+
+CREATE TABLE league_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id UUID NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(league_id, user_id)
+);
+
+CREATE INDEX idx_league_members_league_id ON league_members(league_id);
+CREATE INDEX idx_league_members_user_id ON league_members(user_id);
+
+-- Active league per user (NULL = global pool)
+ALTER TABLE profiles
+  ADD COLUMN active_league_id UUID REFERENCES leagues(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_leagues_updated_at BEFORE UPDATE ON leagues
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- SECURITY DEFINER so RLS policies on league_members can call it without recursing
+CREATE OR REPLACE FUNCTION is_league_member(league_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM league_members
+    WHERE league_id = league_uuid AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Owner automatically becomes the first member
+CREATE OR REPLACE FUNCTION add_league_owner_as_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO league_members (league_id, user_id, role)
+  VALUES (NEW.id, NEW.owner_id, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_add_league_owner_as_member
+  AFTER INSERT ON leagues
+  FOR EACH ROW EXECUTE FUNCTION add_league_owner_as_member();
+
+-- Join a league by invite code. Non-members cannot see the league row through RLS,
+-- so the lookup happens here.
+CREATE OR REPLACE FUNCTION join_league_by_code(code TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target leagues%ROWTYPE;
+  member_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO target FROM leagues WHERE invite_code = upper(trim(code));
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Invalid invite code';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM league_members WHERE league_id = target.id AND user_id = auth.uid()) THEN
+    RETURN target.id;
+  END IF;
+
+  IF NOT target.invites_open THEN
+    RAISE EXCEPTION 'This league is not accepting new members';
+  END IF;
+
+  SELECT COUNT(*) INTO member_count FROM league_members WHERE league_id = target.id;
+  IF target.max_members IS NOT NULL AND member_count >= target.max_members THEN
+    RAISE EXCEPTION 'This league is full';
+  END IF;
+
+  INSERT INTO league_members (league_id, user_id, role)
+  VALUES (target.id, auth.uid(), 'member');
+
+  RETURN target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rotate the invite code (owner only)
+CREATE OR REPLACE FUNCTION regenerate_league_invite_code(league_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+  new_code TEXT;
+BEGIN
+  UPDATE leagues
+  SET invite_code = upper(substr(md5(gen_random_uuid()::text), 1, 8))
+  WHERE id = league_uuid AND owner_id = auth.uid()
+  RETURNING invite_code INTO new_code;
+
+  IF new_code IS NULL THEN
+    RAISE EXCEPTION 'Only the league owner can regenerate the invite code';
+  END IF;
+
+  RETURN new_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- League-scoped version of get_all_users_overall_stats()
+CREATE OR REPLACE FUNCTION get_league_users_overall_stats(league_uuid UUID)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_league_member(league_uuid) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pr.id as user_id,
+    pr.username,
+    COUNT(p.id) as total_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE p.result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE p.result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE p.result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM league_members lm
+  JOIN profiles pr ON pr.id = lm.user_id
+  LEFT JOIN picks p ON pr.id = p.user_id
+  WHERE lm.league_id = league_uuid
+  GROUP BY pr.id, pr.username
+  HAVING COUNT(p.id) > 0
+  ORDER BY win_rate DESC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE leagues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE league_members ENABLE ROW LEVEL SECURITY;
+
+-- The owner clause lets INSERT ... RETURNING see the new league before
+-- trg_add_league_owner_as_member has added the owner's membership row
+CREATE POLICY "Members can view their leagues" ON leagues
+  FOR SELECT USING (owner_id = auth.uid() OR is_league_member(id));
+
+CREATE POLICY "Users can create leagues they own" ON leagues
+  FOR INSERT WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update their leagues" ON leagues
+  FOR UPDATE USING (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can delete their leagues" ON leagues
+  FOR DELETE USING (auth.uid() = owner_id);
+
+CREATE POLICY "Members can view league rosters" ON league_members
+  FOR SELECT USING (is_league_member(league_id));
+
+-- Members can leave; owners can remove anyone else from their league
+-- The owner row is never deletable, or the league would lose its owner's access
+CREATE POLICY "Members can leave and owners can remove" ON league_members
+  FOR DELETE USING (
+    role <> 'owner'
+    AND (
+      auth.uid() = user_id
+      OR EXISTS (SELECT 1 FROM leagues l WHERE l.id = league_id AND l.owner_id = auth.uid())
+    )
+  );
+
+COMMENT ON TABLE leagues IS 'Private pick''em leagues with invite codes';
+COMMENT ON TABLE league_members IS 'League membership (a user may belong to several leagues)';
+COMMENT ON COLUMN profiles.active_league_id IS 'League currently scoping the slate and leaderboards (NULL = everyone)';
+COMMENT ON FUNCTION join_league_by_code IS 'Joins the calling user to the league matching the invite code';
+COMMENT ON FUNCTION get_league_users_overall_stats IS 'Overall stats for every member of a league (caller must be a member)';
@@ -0,0 +1,27 @@
+-- Migration: Spread line history
+-- Purpose: scrape-games overwrites games.spread on every run, losing the opening line
+--          and every move after it. Each scrape now appends a snapshot here so the UI
+--          can show open -> current movement and compare it to spread_at_pick_time.
+-- Rollback: DROP TABLE game_line_snapshots CASCADE;
+
+CREATE TABLE game_line_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  bookmaker TEXT NOT NULL,
+  spread DECIMAL(5, 1) NOT NULL, -- Unsigned, same convention as games.spread
+  favorite_team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_game_line_snapshots_game_captured
+  ON game_line_snapshots(game_id, captured_at);
+
+ALTER TABLE game_line_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Public read, written only by the service role from Inngest
+CREATE POLICY "Anyone can view line snapshots" ON game_line_snapshots
+  FOR SELECT USING (true);
+
+COMMENT ON TABLE game_line_snapshots IS 'Point-in-time spread captures per game, one row per scrape';
+COMMENT ON COLUMN game_line_snapshots.spread IS 'Unsigned spread; favorite_team_id gives the side laying the points';
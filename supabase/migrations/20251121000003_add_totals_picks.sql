@@ -0,0 +1,549 @@
+-- Migration: Over/under (totals) picks
+-- Purpose: Adds totals as a second pick type next to spread picks.
+--          - games.total stores the posted over/under from The Odds API
+--          - picks.pick_type distinguishes spread and total picks; a user can hold
+--            one of each per game
+--          - grade_pick_results() grades both types; update_pick_results() stays
+--            spread-only so existing callers keep working
+--          - Spread metrics now ignore totals picks, and totals get their own functions
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+ALTER TABLE games ADD COLUMN total DECIMAL(5, 1);
+
+ALTER TABLE picks
+  ADD COLUMN pick_type TEXT NOT NULL DEFAULT 'spread' CHECK (pick_type IN ('spread', 'total')),
+  ADD COLUMN total_side TEXT CHECK (total_side IN ('over', 'under')),
+  ADD COLUMN total_at_pick_time DECIMAL(5, 1);
+
+-- Totals picks have no team side and no spread
+ALTER TABLE picks ALTER COLUMN picked_team_id DROP NOT NULL;
+ALTER TABLE picks ALTER COLUMN spread_at_pick_time DROP NOT NULL;
+
+ALTER TABLE picks ADD CONSTRAINT picks_type_fields_check CHECK (
+  (pick_type = 'spread' AND picked_team_id IS NOT NULL AND total_side IS NULL)
+  OR (pick_type = 'total' AND total_side IS NOT NULL AND total_at_pick_time IS NOT NULL AND picked_team_id IS NULL)
+);
+
+-- Pick of the Day remains a spread-only feature
+ALTER TABLE picks ADD CONSTRAINT picks_potd_spread_only CHECK (
+  pick_type = 'spread' OR is_pick_of_day = false
+);
+
+-- One pick per type per game
+ALTER TABLE picks DROP CONSTRAINT picks_user_id_game_id_key;
+ALTER TABLE picks ADD CONSTRAINT picks_user_game_type_key UNIQUE (user_id, game_id, pick_type);
+
+CREATE INDEX idx_picks_pick_type ON picks(pick_type);
+
+-- ============================================================================
+-- GRADING
+-- ============================================================================
+
+-- Spread grading, unchanged except that it no longer touches totals picks
+CREATE OR REPLACE FUNCTION update_pick_results()
+RETURNS void AS $$
+BEGIN
+  UPDATE picks p
+  SET result = CASE
+    -- Team picked is favorite and covered the spread
+    -- Favorites must overcome the spread, so we SUBTRACT it from their score
+    WHEN p.picked_team_id = g.favorite_team_id AND (
+         (g.home_team_id = p.picked_team_id AND g.home_score - p.spread_at_pick_time > g.away_score) OR
+         (g.away_team_id = p.picked_team_id AND g.away_score - p.spread_at_pick_time > g.home_score)
+    )
+    THEN 'won'::pick_result
+
+    -- Team picked is underdog and covered the spread
+    -- Underdogs get the benefit of the spread, so we ADD it to their score
+    WHEN p.picked_team_id != g.favorite_team_id AND (
+         (g.home_team_id = p.picked_team_id AND g.home_score + p.spread_at_pick_time > g.away_score) OR
+         (g.away_team_id = p.picked_team_id AND g.away_score + p.spread_at_pick_time > g.home_score)
+    )
+    THEN 'won'::pick_result
+
+    -- Push (exactly the spread) - check both favorite and underdog formulas
+    WHEN (p.picked_team_id = g.favorite_team_id AND (
+           (g.home_team_id = p.picked_team_id AND g.home_score - p.spread_at_pick_time = g.away_score) OR
+           (g.away_team_id = p.picked_team_id AND g.away_score - p.spread_at_pick_time = g.home_score)
+         )) OR
+         (p.picked_team_id != g.favorite_team_id AND (
+           (g.home_team_id = p.picked_team_id AND g.home_score + p.spread_at_pick_time = g.away_score) OR
+           (g.away_team_id = p.picked_team_id AND g.away_score + p.spread_at_pick_time = g.home_score)
+         ))
+    THEN 'push'::pick_result
+
+    -- Otherwise, lost
+    ELSE 'lost'::pick_result
+  END,
+  locked_at = CASE
+    WHEN p.locked_at IS NULL THEN g.game_date
+    ELSE p.locked_at
+  END
+  FROM games g
+  WHERE p.game_id = g.id
+    AND p.pick_type = 'spread'
+    AND g.status = 'completed'
+    AND g.home_score IS NOT NULL
+    AND g.away_score IS NOT NULL
+    AND p.result = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Totals grading: combined score against the total locked in at pick time
+CREATE OR REPLACE FUNCTION update_total_pick_results()
+RETURNS void AS $$
+BEGIN
+  UPDATE picks p
+  SET result = CASE
+    WHEN (g.home_score + g.away_score) = p.total_at_pick_time THEN 'push'::pick_result
+    WHEN p.total_side = 'over' AND (g.home_score + g.away_score) > p.total_at_pick_time THEN 'won'::pick_result
+    WHEN p.total_side = 'under' AND (g.home_score + g.away_score) < p.total_at_pick_time THEN 'won'::pick_result
+    ELSE 'lost'::pick_result
+  END,
+  locked_at = CASE
+    WHEN p.locked_at IS NULL THEN g.game_date
+    ELSE p.locked_at
+  END
+  FROM games g
+  WHERE p.game_id = g.id
+    AND p.pick_type = 'total'
+    AND g.status = 'completed'
+    AND g.home_score IS NOT NULL
+    AND g.away_score IS NOT NULL
+    AND p.result = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Successor to update_pick_results(): grades every pick type
+CREATE OR REPLACE FUNCTION grade_pick_results()
+RETURNS void AS $$
+BEGIN
+  PERFORM update_pick_results();
+  PERFORM update_total_pick_results();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- SPREAD METRICS (exclude totals picks)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_user_overall_stats(user_uuid UUID)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM picks
+  WHERE user_id = user_uuid AND result IS NOT NULL AND pick_type = 'spread';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_conference_stats(user_uuid UUID)
+RETURNS TABLE (
+  conference_id UUID,
+  conference_name TEXT,
+  conference_short_name TEXT,
+  is_power_conference BOOLEAN,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.name,
+    c.short_name,
+    c.is_power_conference,
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses,
+    ROUND(
+      COUNT(*) FILTER (WHERE p.result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE p.result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM picks p
+  JOIN games g ON p.game_id = g.id
+  JOIN conferences c ON g.conference_id = c.id
+  WHERE p.user_id = user_uuid
+    AND p.result IS NOT NULL
+    AND p.pick_type = 'spread'
+  GROUP BY c.id, c.name, c.short_name, c.is_power_conference
+  ORDER BY total_picks DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_current_streak(user_uuid UUID)
+RETURNS TABLE (
+  streak_type pick_result,
+  streak_count INTEGER
+) AS $$
+DECLARE
+  latest_result pick_result;
+  current_streak INT := 0;
+BEGIN
+  -- Get the most recent result
+  SELECT result INTO latest_result
+  FROM picks
+  WHERE user_id = user_uuid AND result IN ('won', 'lost') AND pick_type = 'spread'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  -- If no picks found, return null
+  IF latest_result IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Count consecutive results of the same type
+  WITH ordered_picks AS (
+    SELECT
+      result,
+      created_at,
+      ROW_NUMBER() OVER (ORDER BY created_at DESC) as rn
+    FROM picks
+    WHERE user_id = user_uuid AND result IN ('won', 'lost') AND pick_type = 'spread'
+  )
+  SELECT COUNT(*)::INTEGER INTO current_streak
+  FROM ordered_picks
+  WHERE result = latest_result
+    AND rn <= (
+      SELECT COALESCE(MIN(rn), 0)
+      FROM ordered_picks
+      WHERE result != latest_result
+    );
+
+  -- If no break in streak found, count all matching picks
+  IF current_streak = 0 THEN
+    SELECT COUNT(*)::INTEGER INTO current_streak
+    FROM ordered_picks
+    WHERE result = latest_result;
+  END IF;
+
+  RETURN QUERY SELECT latest_result, current_streak;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_all_users_overall_stats()
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pr.id as user_id,
+    pr.username,
+    COUNT(p.id) as total_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE p.result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE p.result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE p.result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM profiles pr
+  LEFT JOIN picks p ON pr.id = p.user_id AND p.pick_type = 'spread'
+  GROUP BY pr.id, pr.username
+  HAVING COUNT(p.id) > 0
+  ORDER BY win_rate DESC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_league_users_overall_stats(league_uuid UUID)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_league_member(league_uuid) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pr.id as user_id,
+    pr.username,
+    COUNT(p.id) as total_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE p.result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE p.result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE p.result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM league_members lm
+  JOIN profiles pr ON pr.id = lm.user_id
+  LEFT JOIN picks p ON pr.id = p.user_id AND p.pick_type = 'spread'
+  WHERE lm.league_id = league_uuid
+  GROUP BY pr.id, pr.username
+  HAVING COUNT(p.id) > 0
+  ORDER BY win_rate DESC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_weekly_stats(user_uuid UUID)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  week_start DATE,
+  week_end DATE
+) AS $$
+DECLARE
+  week_start_date DATE;
+  week_end_date DATE;
+BEGIN
+  -- Calculate current week boundaries (Monday to Sunday)
+  week_start_date := DATE_TRUNC('week', CURRENT_DATE)::DATE;
+  week_end_date := (week_start_date + INTERVAL '6 days')::DATE;
+
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    week_start_date,
+    week_end_date
+  FROM picks
+  WHERE user_id = user_uuid
+    AND result IS NOT NULL
+    AND pick_type = 'spread'
+    AND DATE(created_at) >= week_start_date
+    AND DATE(created_at) <= week_end_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_weekly_conference_stats(user_uuid UUID)
+RETURNS TABLE (
+  conference_id UUID,
+  conference_name TEXT,
+  conference_short_name TEXT,
+  is_power_conference BOOLEAN,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  win_rate NUMERIC
+) AS $$
+DECLARE
+  week_start_date DATE;
+  week_end_date DATE;
+BEGIN
+  -- Calculate current week boundaries (Monday to Sunday)
+  week_start_date := DATE_TRUNC('week', CURRENT_DATE)::DATE;
+  week_end_date := (week_start_date + INTERVAL '6 days')::DATE;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.name,
+    c.short_name,
+    c.is_power_conference,
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses,
+    ROUND(
+      COUNT(*) FILTER (WHERE p.result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE p.result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM picks p
+  JOIN games g ON p.game_id = g.id
+  JOIN conferences c ON g.conference_id = c.id
+  WHERE p.user_id = user_uuid
+    AND p.result IS NOT NULL
+    AND p.pick_type = 'spread'
+    AND DATE(p.created_at) >= week_start_date
+    AND DATE(p.created_at) <= week_end_date
+  GROUP BY c.id, c.name, c.short_name, c.is_power_conference
+  ORDER BY total_picks DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_weekly_streak(user_uuid UUID)
+RETURNS TABLE (
+  streak_type pick_result,
+  streak_count INTEGER
+) AS $$
+DECLARE
+  latest_result pick_result;
+  current_streak INT := 0;
+  week_start_date DATE;
+  week_end_date DATE;
+BEGIN
+  -- Calculate current week boundaries (Monday to Sunday)
+  week_start_date := DATE_TRUNC('week', CURRENT_DATE)::DATE;
+  week_end_date := (week_start_date + INTERVAL '6 days')::DATE;
+
+  -- Get the most recent result within the week
+  SELECT result INTO latest_result
+  FROM picks
+  WHERE user_id = user_uuid
+    AND result IN ('won', 'lost')
+    AND pick_type = 'spread'
+    AND DATE(created_at) >= week_start_date
+    AND DATE(created_at) <= week_end_date
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  -- If no picks found, return null
+  IF latest_result IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Count consecutive results of the same type within the week
+  WITH ordered_picks AS (
+    SELECT
+      result,
+      created_at,
+      ROW_NUMBER() OVER (ORDER BY created_at DESC) as rn
+    FROM picks
+    WHERE user_id = user_uuid
+      AND result IN ('won', 'lost')
+      AND pick_type = 'spread'
+      AND DATE(created_at) >= week_start_date
+      AND DATE(created_at) <= week_end_date
+  )
+  SELECT COUNT(*)::INTEGER INTO current_streak
+  FROM ordered_picks
+  WHERE result = latest_result
+    AND rn <= (
+      SELECT COALESCE(MIN(rn), 0)
+      FROM ordered_picks
+      WHERE result != latest_result
+    );
+
+  -- If no break in streak found, count all matching picks
+  IF current_streak = 0 THEN
+    SELECT COUNT(*)::INTEGER INTO current_streak
+    FROM ordered_picks
+    WHERE result = latest_result;
+  END IF;
+
+  RETURN QUERY SELECT latest_result, current_streak;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- TOTALS METRICS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_user_totals_stats(user_uuid UUID)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  over_picks BIGINT,
+  over_wins BIGINT,
+  under_picks BIGINT,
+  under_wins BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    COUNT(*) FILTER (WHERE total_side = 'over') as over_picks,
+    COUNT(*) FILTER (WHERE total_side = 'over' AND result = 'won') as over_wins,
+    COUNT(*) FILTER (WHERE total_side = 'under') as under_picks,
+    COUNT(*) FILTER (WHERE total_side = 'under' AND result = 'won') as under_wins
+  FROM picks
+  WHERE user_id = user_uuid AND result IS NOT NULL AND pick_type = 'total';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_weekly_totals_stats(user_uuid UUID)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  over_picks BIGINT,
+  over_wins BIGINT,
+  under_picks BIGINT,
+  under_wins BIGINT
+) AS $$
+DECLARE
+  week_start_date DATE;
+  week_end_date DATE;
+BEGIN
+  -- Calculate current week boundaries (Monday to Sunday)
+  week_start_date := DATE_TRUNC('week', CURRENT_DATE)::DATE;
+  week_end_date := (week_start_date + INTERVAL '6 days')::DATE;
+
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    COUNT(*) FILTER (WHERE total_side = 'over') as over_picks,
+    COUNT(*) FILTER (WHERE total_side = 'over' AND result = 'won') as over_wins,
+    COUNT(*) FILTER (WHERE total_side = 'under') as under_picks,
+    COUNT(*) FILTER (WHERE total_side = 'under' AND result = 'won') as under_wins
+  FROM picks
+  WHERE user_id = user_uuid
+    AND result IS NOT NULL
+    AND pick_type = 'total'
+    AND DATE(created_at) >= week_start_date
+    AND DATE(created_at) <= week_end_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN games.total IS 'Posted over/under (combined points) from the first bookmaker';
+COMMENT ON COLUMN picks.pick_type IS 'spread = team side against the spread, total = over/under';
+COMMENT ON FUNCTION grade_pick_results IS 'Grades pending spread and totals picks for completed games';
+COMMENT ON FUNCTION get_user_totals_stats IS 'Win/loss/push record for a user''s over/under picks';
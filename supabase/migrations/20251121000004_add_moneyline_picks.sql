@@ -0,0 +1,163 @@
+-- Migration: Moneyline picks
+-- Purpose: Adds straight-up picks priced with American odds as a third pick type.
+--          - games.home_moneyline / away_moneyline store the h2h market from The Odds API
+--          - picks.odds_at_pick_time locks in the price the user got
+--          - Profit is tracked in units: a 1-unit stake per pick, so +150 pays 1.5
+--            units and -200 pays 0.5 units; a loss costs 1 unit
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN home_moneyline INTEGER,
+  ADD COLUMN away_moneyline INTEGER;
+
+ALTER TABLE picks ADD COLUMN odds_at_pick_time INTEGER;
+
+ALTER TABLE picks DROP CONSTRAINT picks_pick_type_check;
+ALTER TABLE picks ADD CONSTRAINT picks_pick_type_check CHECK (
+  pick_type IN ('spread', 'total', 'moneyline')
+);
+
+ALTER TABLE picks DROP CONSTRAINT picks_type_fields_check;
+ALTER TABLE picks ADD CONSTRAINT picks_type_fields_check CHECK (
+  (pick_type = 'spread' AND picked_team_id IS NOT NULL AND total_side IS NULL)
+  OR (pick_type = 'total' AND total_side IS NOT NULL AND total_at_pick_time IS NOT NULL AND picked_team_id IS NULL)
+  OR (pick_type = 'moneyline' AND picked_team_id IS NOT NULL AND odds_at_pick_time IS NOT NULL AND total_side IS NULL)
+);
+
+-- ============================================================================
+-- GRADING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_moneyline_pick_results()
+RETURNS void AS $$
+BEGIN
+  UPDATE picks p
+  SET result = CASE
+    WHEN g.home_score = g.away_score THEN 'push'::pick_result
+    WHEN (g.home_team_id = p.picked_team_id AND g.home_score > g.away_score) OR
+         (g.away_team_id = p.picked_team_id AND g.away_score > g.home_score)
+    THEN 'won'::pick_result
+    ELSE 'lost'::pick_result
+  END,
+  locked_at = CASE
+    WHEN p.locked_at IS NULL THEN g.game_date
+    ELSE p.locked_at
+  END
+  FROM games g
+  WHERE p.game_id = g.id
+    AND p.pick_type = 'moneyline'
+    AND g.status = 'completed'
+    AND g.home_score IS NOT NULL
+    AND g.away_score IS NOT NULL
+    AND p.result = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION grade_pick_results()
+RETURNS void AS $$
+BEGIN
+  PERFORM update_pick_results();
+  PERFORM update_total_pick_results();
+  PERFORM update_moneyline_pick_results();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- UNITS
+-- ============================================================================
+
+-- Net units for a 1-unit stake at the given American odds
+CREATE OR REPLACE FUNCTION moneyline_units(odds INTEGER, pick_outcome pick_result)
+RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN pick_outcome = 'won' AND odds > 0 THEN odds::NUMERIC / 100
+    WHEN pick_outcome = 'won' AND odds < 0 THEN 100::NUMERIC / ABS(odds)
+    WHEN pick_outcome = 'lost' THEN -1::NUMERIC
+    ELSE 0::NUMERIC
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION get_user_moneyline_stats(user_uuid UUID)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  units NUMERIC,
+  roi NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    ROUND(COALESCE(SUM(moneyline_units(odds_at_pick_time, result)), 0), 2) as units,
+    ROUND(
+      SUM(moneyline_units(odds_at_pick_time, result)) /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost', 'push')), 0) * 100,
+      2
+    ) as roi
+  FROM picks
+  WHERE user_id = user_uuid AND result IS NOT NULL AND pick_type = 'moneyline';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_weekly_moneyline_stats(user_uuid UUID)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  units NUMERIC,
+  roi NUMERIC
+) AS $$
+DECLARE
+  week_start_date DATE;
+  week_end_date DATE;
+BEGIN
+  -- Calculate current week boundaries (Monday to Sunday)
+  week_start_date := DATE_TRUNC('week', CURRENT_DATE)::DATE;
+  week_end_date := (week_start_date + INTERVAL '6 days')::DATE;
+
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    ROUND(COALESCE(SUM(moneyline_units(odds_at_pick_time, result)), 0), 2) as units,
+    ROUND(
+      SUM(moneyline_units(odds_at_pick_time, result)) /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost', 'push')), 0) * 100,
+      2
+    ) as roi
+  FROM picks
+  WHERE user_id = user_uuid
+    AND result IS NOT NULL
+    AND pick_type = 'moneyline'
+    AND DATE(created_at) >= week_start_date
+    AND DATE(created_at) <= week_end_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN games.home_moneyline IS 'American odds for the home team to win straight up';
+COMMENT ON COLUMN picks.odds_at_pick_time IS 'American odds locked in for moneyline picks';
+COMMENT ON FUNCTION moneyline_units IS 'Net units won or lost on a 1-unit stake at American odds';
+COMMENT ON FUNCTION get_user_moneyline_stats IS 'Moneyline record plus profit in units and ROI (units per graded pick)';
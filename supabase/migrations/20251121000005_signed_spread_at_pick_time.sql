@@ -0,0 +1,67 @@
+-- Migration: Signed, side-specific spread at pick time
+-- Purpose: spread_at_pick_time was stored unsigned and update_pick_results() decided
+--          whether to add or subtract it by comparing the pick to the game's *current*
+--          favorite_team_id. A favorite flip after the pick, or a NULL favorite, graded
+--          the pick against the wrong side.
+--          spread_at_pick_time now holds the signed line for the side the user took
+--          (negative = laying points, positive = getting points) and grading uses it directly.
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Sign existing spread picks from the line in effect when the pick was last saved:
+-- the latest snapshot at or before updated_at, falling back to the game's favorite.
+UPDATE picks p
+SET spread_at_pick_time = CASE
+  WHEN p.spread_at_pick_time = 0 THEN 0
+  WHEN COALESCE(
+    (
+      SELECT s.favorite_team_id
+      FROM game_line_snapshots s
+      WHERE s.game_id = p.game_id
+        AND s.captured_at <= p.updated_at
+      ORDER BY s.captured_at DESC
+      LIMIT 1
+    ),
+    g.favorite_team_id
+  ) = p.picked_team_id
+    THEN -ABS(p.spread_at_pick_time)
+  ELSE ABS(p.spread_at_pick_time)
+END
+FROM games g
+WHERE p.game_id = g.id
+  AND p.pick_type = 'spread';
+
+-- ============================================================================
+-- GRADING
+-- ============================================================================
+
+-- The picked side covers when its score plus its own signed line beats the opponent
+CREATE OR REPLACE FUNCTION update_pick_results()
+RETURNS void AS $$
+BEGIN
+  UPDATE picks p
+  SET result = CASE
+    WHEN g.home_team_id = p.picked_team_id AND g.home_score + p.spread_at_pick_time > g.away_score THEN 'won'::pick_result
+    WHEN g.away_team_id = p.picked_team_id AND g.away_score + p.spread_at_pick_time > g.home_score THEN 'won'::pick_result
+    WHEN g.home_team_id = p.picked_team_id AND g.home_score + p.spread_at_pick_time = g.away_score THEN 'push'::pick_result
+    WHEN g.away_team_id = p.picked_team_id AND g.away_score + p.spread_at_pick_time = g.home_score THEN 'push'::pick_result
+    ELSE 'lost'::pick_result
+  END,
+  locked_at = CASE
+    WHEN p.locked_at IS NULL THEN g.game_date
+    ELSE p.locked_at
+  END
+  FROM games g
+  WHERE p.game_id = g.id
+    AND p.pick_type = 'spread'
+    AND g.status = 'completed'
+    AND g.home_score IS NOT NULL
+    AND g.away_score IS NOT NULL
+    AND p.result = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN picks.spread_at_pick_time IS 'Signed line for the picked side when the pick was saved (negative = laying points)';
+COMMENT ON FUNCTION update_pick_results IS 'Grades pending spread picks using the signed line stored on each pick';
@@ -0,0 +1,134 @@
+-- Migration: Per-bookmaker lines and a selectable official line
+-- Purpose: scrape-games kept only the first bookmaker in the API response, so the
+--          "official" line was arbitrary. Every book's line is now stored per game,
+--          along with a 'consensus' row (median across books). An admin chooses which
+--          book, or the consensus, feeds games.spread/total/moneylines, which is the
+--          line picks lock against.
+-- Rollback: DROP TABLE game_bookmaker_lines, odds_settings CASCADE;
+--           ALTER TABLE games DROP COLUMN line_source;
+
+-- ============================================================================
+-- ADMIN FLAG
+-- ============================================================================
+
+-- Referenced by the stat chain admin policies; make sure it exists and can't be self-granted
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION prevent_is_admin_self_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_admin IS DISTINCT FROM OLD.is_admin AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'is_admin can only be changed by the service role';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER profiles_prevent_is_admin_self_update
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_is_admin_self_update();
+
+-- ============================================================================
+-- BOOKMAKER LINES
+-- ============================================================================
+
+CREATE TABLE game_bookmaker_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  bookmaker TEXT NOT NULL, -- The Odds API bookmaker key, or 'consensus'
+  spread DECIMAL(5, 1), -- Unsigned, same convention as games.spread
+  favorite_team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  total DECIMAL(5, 1),
+  home_moneyline INTEGER,
+  away_moneyline INTEGER,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(game_id, bookmaker)
+);
+
+CREATE INDEX idx_game_bookmaker_lines_game ON game_bookmaker_lines(game_id);
+
+CREATE TRIGGER update_game_bookmaker_lines_updated_at BEFORE UPDATE ON game_bookmaker_lines
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE game_bookmaker_lines ENABLE ROW LEVEL SECURITY;
+
+-- Public read, written only by the service role from Inngest
+CREATE POLICY "Anyone can view bookmaker lines" ON game_bookmaker_lines
+  FOR SELECT USING (true);
+
+-- Which source the official line on the game row came from
+ALTER TABLE games ADD COLUMN line_source TEXT;
+
+-- ============================================================================
+-- OFFICIAL LINE SETTING
+-- ============================================================================
+
+-- Single-row settings table
+CREATE TABLE odds_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  official_line_source TEXT NOT NULL DEFAULT 'consensus',
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO odds_settings (id) VALUES (true);
+
+CREATE TRIGGER update_odds_settings_updated_at BEFORE UPDATE ON odds_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE odds_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view odds settings" ON odds_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can update odds settings" ON odds_settings
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_admin = true
+    )
+  );
+
+-- Re-point upcoming games at the configured source, falling back to consensus
+-- when the chosen book has no line for a game. Started games keep their line.
+CREATE OR REPLACE FUNCTION apply_official_line_source()
+RETURNS INTEGER AS $$
+DECLARE
+  source TEXT;
+  updated_count INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only admins can change the official line source';
+  END IF;
+
+  SELECT official_line_source INTO source FROM odds_settings;
+
+  UPDATE games g
+  SET spread = l.spread,
+      favorite_team_id = l.favorite_team_id,
+      total = l.total,
+      home_moneyline = l.home_moneyline,
+      away_moneyline = l.away_moneyline,
+      line_source = l.bookmaker
+  FROM (
+    SELECT DISTINCT ON (bl.game_id) bl.*
+    FROM game_bookmaker_lines bl
+    WHERE bl.bookmaker IN (source, 'consensus')
+    ORDER BY bl.game_id, (bl.bookmaker = source) DESC
+  ) l
+  WHERE l.game_id = g.id
+    AND g.status = 'scheduled'
+    AND g.game_date > NOW();
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE game_bookmaker_lines IS 'Latest line from each bookmaker per game, plus a median consensus row';
+COMMENT ON COLUMN games.line_source IS 'Bookmaker key (or consensus) the official spread/total/moneylines came from';
+COMMENT ON TABLE odds_settings IS 'Single-row app settings for odds ingestion';
+COMMENT ON FUNCTION apply_official_line_source IS 'Admin-only: re-applies the configured official line source to upcoming games';
@@ -0,0 +1,92 @@
+-- Migration: Closing line value (CLV)
+-- Purpose: Captures each game's official spread at tip-off (update-scores.ts writes it
+--          on the scheduled -> in_progress/completed transition) and measures each spread
+--          pick against it. CLV = spread_at_pick_time - closing line for the picked side,
+--          so positive CLV means the user got a better number than the market closed at.
+
+ALTER TABLE games
+  ADD COLUMN closing_spread DECIMAL(5, 1), -- Unsigned, same convention as games.spread
+  ADD COLUMN closing_favorite_team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  ADD COLUMN closing_captured_at TIMESTAMPTZ;
+
+-- Signed closing line for a given side, matching picks.spread_at_pick_time
+CREATE OR REPLACE FUNCTION closing_line_for_team(
+  team_uuid UUID,
+  closing_spread DECIMAL,
+  closing_favorite_team_id UUID
+)
+RETURNS DECIMAL AS $$
+  SELECT CASE
+    WHEN closing_spread IS NULL THEN NULL
+    WHEN closing_favorite_team_id IS NULL THEN 0
+    WHEN closing_favorite_team_id = team_uuid THEN -closing_spread
+    ELSE closing_spread
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Spread picks on games with a captured close, with their CLV
+CREATE OR REPLACE VIEW pick_clv WITH (security_invoker = true) AS
+SELECT
+  p.id AS pick_id,
+  p.user_id,
+  p.game_id,
+  g.conference_id,
+  p.spread_at_pick_time,
+  closing_line_for_team(p.picked_team_id, g.closing_spread, g.closing_favorite_team_id) AS closing_line,
+  p.spread_at_pick_time
+    - closing_line_for_team(p.picked_team_id, g.closing_spread, g.closing_favorite_team_id) AS clv
+FROM picks p
+JOIN games g ON p.game_id = g.id
+WHERE p.pick_type = 'spread'
+  AND g.closing_captured_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION get_user_clv_stats(user_uuid UUID)
+RETURNS TABLE (
+  picks_with_close BIGINT,
+  avg_clv NUMERIC,
+  beat_close_pct NUMERIC,
+  matched_close_pct NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as picks_with_close,
+    ROUND(AVG(c.clv), 2) as avg_clv,
+    ROUND(COUNT(*) FILTER (WHERE c.clv > 0)::NUMERIC / NULLIF(COUNT(*), 0) * 100, 2) as beat_close_pct,
+    ROUND(COUNT(*) FILTER (WHERE c.clv = 0)::NUMERIC / NULLIF(COUNT(*), 0) * 100, 2) as matched_close_pct
+  FROM pick_clv c
+  WHERE c.user_id = user_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_conference_clv_stats(user_uuid UUID)
+RETURNS TABLE (
+  conference_id UUID,
+  conference_name TEXT,
+  conference_short_name TEXT,
+  is_power_conference BOOLEAN,
+  picks_with_close BIGINT,
+  avg_clv NUMERIC,
+  beat_close_pct NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    conf.id,
+    conf.name,
+    conf.short_name,
+    conf.is_power_conference,
+    COUNT(*) as picks_with_close,
+    ROUND(AVG(c.clv), 2) as avg_clv,
+    ROUND(COUNT(*) FILTER (WHERE c.clv > 0)::NUMERIC / NULLIF(COUNT(*), 0) * 100, 2) as beat_close_pct
+  FROM pick_clv c
+  JOIN conferences conf ON c.conference_id = conf.id
+  WHERE c.user_id = user_uuid
+  GROUP BY conf.id, conf.name, conf.short_name, conf.is_power_conference
+  ORDER BY picks_with_close DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN games.closing_spread IS 'Official spread at tip-off (unsigned); closing_favorite_team_id gives the side laying points';
+COMMENT ON VIEW pick_clv IS 'Spread picks with the closing line for the picked side and CLV (positive = beat the close)';
+COMMENT ON FUNCTION get_user_clv_stats IS 'Average CLV and share of picks that beat the closing line';
@@ -0,0 +1,183 @@
+-- Migration: Confidence-points weekly pick'em
+-- Purpose: For a week's slate (Monday-Sunday, the same windows as get_user_weekly_stats,
+--          keyed by game date), a user ranks their spread picks and assigns unique
+--          point values 1..N. Each cover earns that pick's points.
+--          - set_confidence_order() is the only writer: it validates ownership and week,
+--            keeps locked picks' values, and assigns the rest in the user's order
+--          - A partial unique index enforces one pick per point value per user per week
+--          - A trigger rejects confidence_points written directly by API clients, since
+--            "Users can update own picks" would otherwise let them set any value
+-- Rollback: DROP TRIGGER trg_protect_confidence_points ON picks; DROP FUNCTION protect_confidence_points;
+--           ALTER TABLE picks DROP COLUMN confidence_points, DROP COLUMN confidence_week;
+
+ALTER TABLE picks
+  ADD COLUMN confidence_points INTEGER CHECK (confidence_points > 0),
+  ADD COLUMN confidence_week DATE GENERATED ALWAYS AS (
+    date_trunc('week', game_date_cache::timestamp)::date
+  ) STORED;
+
+CREATE UNIQUE INDEX idx_unique_confidence_per_user_week
+  ON picks (user_id, confidence_week, confidence_points)
+  WHERE confidence_points IS NOT NULL;
+
+CREATE INDEX idx_picks_confidence_week ON picks (confidence_week)
+  WHERE confidence_points IS NOT NULL;
+
+-- Only spread picks carry confidence points
+ALTER TABLE picks ADD CONSTRAINT picks_confidence_spread_only CHECK (
+  pick_type = 'spread' OR confidence_points IS NULL
+);
+
+-- ============================================================================
+-- ORDERING
+-- ============================================================================
+
+-- Assign confidence points for a user's week from an ordered list of their unlocked
+-- spread picks (most confident first). N is the number of spread picks that week.
+-- Locked picks keep their value; locked picks that were never ranked take the lowest
+-- free values so leaving a pick unranked can't free up a high value for later.
+CREATE OR REPLACE FUNCTION set_confidence_order(week_start DATE, ordered_pick_ids UUID[])
+RETURNS void AS $$
+DECLARE
+  total_picks INTEGER;
+  free_values INTEGER[];
+  unlocked_ids UUID[];
+  unranked_locked_ids UUID[];
+  i INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT COUNT(*) INTO total_picks
+  FROM picks
+  WHERE user_id = auth.uid() AND pick_type = 'spread' AND confidence_week = week_start;
+
+  -- Unlocked picks for the week; the submitted order must be exactly this set
+  SELECT COALESCE(array_agg(p.id), '{}') INTO unlocked_ids
+  FROM picks p
+  JOIN games g ON p.game_id = g.id
+  WHERE p.user_id = auth.uid()
+    AND p.pick_type = 'spread'
+    AND p.confidence_week = week_start
+    AND g.status = 'scheduled'
+    AND g.game_date > NOW();
+
+  IF cardinality(ordered_pick_ids) <> cardinality(unlocked_ids)
+     OR NOT (ordered_pick_ids @> unlocked_ids AND unlocked_ids @> ordered_pick_ids) THEN
+    RAISE EXCEPTION 'Confidence order must include each of your unlocked picks for the week exactly once';
+  END IF;
+
+  -- Locked picks that never got a value
+  SELECT COALESCE(array_agg(p.id ORDER BY g.game_date), '{}') INTO unranked_locked_ids
+  FROM picks p
+  JOIN games g ON p.game_id = g.id
+  WHERE p.user_id = auth.uid()
+    AND p.pick_type = 'spread'
+    AND p.confidence_week = week_start
+    AND p.confidence_points IS NULL
+    AND NOT (p.id = ANY(unlocked_ids));
+
+  -- Values not held by locked picks, lowest first
+  SELECT COALESCE(array_agg(v ORDER BY v), '{}') INTO free_values
+  FROM generate_series(1, total_picks) v
+  WHERE v NOT IN (
+    SELECT p.confidence_points
+    FROM picks p
+    WHERE p.user_id = auth.uid()
+      AND p.pick_type = 'spread'
+      AND p.confidence_week = week_start
+      AND p.confidence_points IS NOT NULL
+      AND NOT (p.id = ANY(unlocked_ids))
+  );
+
+  -- Clear unlocked values first so reassignments can't collide on the unique index
+  UPDATE picks SET confidence_points = NULL WHERE id = ANY(unlocked_ids);
+
+  FOR i IN 1..cardinality(unranked_locked_ids) LOOP
+    UPDATE picks SET confidence_points = free_values[i] WHERE id = unranked_locked_ids[i];
+  END LOOP;
+
+  -- Highest remaining values go to the first picks in the submitted order
+  FOR i IN 1..cardinality(ordered_pick_ids) LOOP
+    UPDATE picks
+    SET confidence_points = free_values[cardinality(free_values) - i + 1]
+    WHERE id = ordered_pick_ids[i];
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deliberately SECURITY INVOKER: inside set_confidence_order (and for the service role)
+-- current_user is the function owner, so only direct client writes are rejected
+CREATE OR REPLACE FUNCTION protect_confidence_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.confidence_points IS NOT NULL)
+    OR (TG_OP = 'UPDATE' AND NEW.confidence_points IS DISTINCT FROM OLD.confidence_points) THEN
+    RAISE EXCEPTION 'Confidence points can only be set through set_confidence_order';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_protect_confidence_points
+  BEFORE INSERT OR UPDATE ON picks
+  FOR EACH ROW EXECUTE FUNCTION protect_confidence_points();
+
+-- ============================================================================
+-- LEADERBOARD
+-- ============================================================================
+
+-- Weekly confidence points, optionally limited to a league's members
+CREATE OR REPLACE FUNCTION get_weekly_confidence_leaderboard(
+  week_start DATE,
+  league_uuid UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  points BIGINT,
+  points_possible BIGINT,
+  points_pending BIGINT,
+  ranked_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT
+) AS $$
+BEGIN
+  IF league_uuid IS NOT NULL AND NOT is_league_member(league_uuid) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pr.id as user_id,
+    pr.username,
+    COALESCE(SUM(p.confidence_points) FILTER (WHERE p.result = 'won'), 0) as points,
+    COALESCE(SUM(p.confidence_points) FILTER (WHERE p.result IN ('won', 'lost', 'push')), 0) as points_possible,
+    COALESCE(SUM(p.confidence_points) FILTER (WHERE p.result = 'pending'), 0) as points_pending,
+    COUNT(p.id) as ranked_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses
+  FROM picks p
+  JOIN profiles pr ON pr.id = p.user_id
+  WHERE p.confidence_week = week_start
+    AND p.confidence_points IS NOT NULL
+    AND (
+      league_uuid IS NULL
+      OR p.user_id IN (SELECT lm.user_id FROM league_members lm WHERE lm.league_id = league_uuid)
+    )
+  GROUP BY pr.id, pr.username
+  ORDER BY points DESC, points_pending DESC, pr.username;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN picks.confidence_points IS 'Confidence value 1..N within the pick''s week; earned on a cover';
+COMMENT ON COLUMN picks.confidence_week IS 'Monday of the game''s week, derived from game_date_cache';
+COMMENT ON FUNCTION set_confidence_order IS 'Assigns confidence points for the caller''s week from an ordered list of unlocked picks';
+COMMENT ON FUNCTION protect_confidence_points IS 'Rejects client writes to picks.confidence_points outside set_confidence_order';
+COMMENT ON FUNCTION get_weekly_confidence_leaderboard IS 'Confidence points earned per user for a week, optionally scoped to a league';
@@ -0,0 +1,343 @@
+-- Migration: Survivor pools
+-- Purpose: Elimination contest. Each period (a Monday-Sunday week, or a single day for
+--          March) every entrant picks one team to win straight up and can never use the
+--          same team twice in a pool (same burn rule as fantasy_team_usage). A loss, or
+--          no pick by the period deadline, eliminates the entrant.
+--          - Periods are Eastern Time dates, matching the games slate
+--          - A period's deadline is its first tip-off; entries close at the first deadline
+--          - update_survivor_results() grades picks and eliminates entrants after scores finalize
+-- Rollback: DROP TABLE survivor_picks, survivor_entries, survivor_pools CASCADE;
+
+-- ============================================================================
+-- POOLS
+-- ============================================================================
+
+CREATE TABLE survivor_pools (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  league_id UUID REFERENCES leagues(id) ON DELETE CASCADE, -- NULL = open to everyone
+  period_type TEXT NOT NULL DEFAULT 'week' CHECK (period_type IN ('week', 'day')),
+  start_date DATE NOT NULL, -- First period; normalized to a Monday for weekly pools
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_survivor_pools_league_id ON survivor_pools(league_id);
+
+CREATE TABLE survivor_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES survivor_pools(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'alive' CHECK (status IN ('alive', 'eliminated')),
+  eliminated_period DATE,
+  eliminated_at TIMESTAMPTZ,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(pool_id, user_id)
+);
+
+CREATE INDEX idx_survivor_entries_pool_id ON survivor_entries(pool_id);
+CREATE INDEX idx_survivor_entries_user_id ON survivor_entries(user_id);
+
+CREATE TABLE survivor_picks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES survivor_entries(id) ON DELETE CASCADE,
+  pool_id UUID NOT NULL REFERENCES survivor_pools(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  result TEXT NOT NULL DEFAULT 'pending' CHECK (result IN ('pending', 'won', 'lost')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(entry_id, period_start)
+);
+
+-- Burn rule: a team can only be used once per entry. A voided pick (the game was
+-- postponed or cancelled, see void_and_reschedule_games) gives the team back.
+CREATE UNIQUE INDEX idx_survivor_picks_entry_team ON survivor_picks(entry_id, team_id)
+  WHERE result IS DISTINCT FROM 'void';
+
+CREATE INDEX idx_survivor_picks_pool_id ON survivor_picks(pool_id);
+CREATE INDEX idx_survivor_picks_game_id ON survivor_picks(game_id);
+
+CREATE TRIGGER update_survivor_pools_updated_at BEFORE UPDATE ON survivor_pools
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_survivor_picks_updated_at BEFORE UPDATE ON survivor_picks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Period a tip-off falls in, as an Eastern Time date (Monday for weekly pools)
+CREATE OR REPLACE FUNCTION survivor_period_start(period_type TEXT, tip_off TIMESTAMPTZ)
+RETURNS DATE AS $$
+  SELECT CASE period_type
+    WHEN 'day' THEN (tip_off AT TIME ZONE 'America/New_York')::date
+    ELSE date_trunc('week', tip_off AT TIME ZONE 'America/New_York')::date
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- First tip-off of a period; NULL when no games are scheduled in it
+CREATE OR REPLACE FUNCTION survivor_period_deadline(pool_uuid UUID, period DATE)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT MIN(g.game_date)
+  FROM games g, survivor_pools sp
+  WHERE sp.id = pool_uuid
+    AND g.status <> 'cancelled'
+    AND survivor_period_start(sp.period_type, g.game_date) = period;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Pools are visible to everyone, or to league members when tied to a league
+CREATE OR REPLACE FUNCTION can_view_survivor_pool(pool_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM survivor_pools
+    WHERE id = pool_uuid
+      AND (league_id IS NULL OR owner_id = auth.uid() OR is_league_member(league_id))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Weekly pools always start on a Monday
+CREATE OR REPLACE FUNCTION normalize_survivor_pool_start()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.period_type = 'week' THEN
+    NEW.start_date := date_trunc('week', NEW.start_date::timestamp)::date;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_normalize_survivor_pool_start
+  BEFORE INSERT OR UPDATE OF start_date, period_type ON survivor_pools
+  FOR EACH ROW EXECUTE FUNCTION normalize_survivor_pool_start();
+
+-- ============================================================================
+-- ENTRY AND PICKS
+-- ============================================================================
+
+-- Enter a pool; entries close at the first period's deadline
+CREATE OR REPLACE FUNCTION join_survivor_pool(pool_uuid UUID)
+RETURNS UUID AS $$
+DECLARE
+  target survivor_pools%ROWTYPE;
+  entry_uuid UUID;
+  first_deadline TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO target FROM survivor_pools WHERE id = pool_uuid;
+
+  IF target.id IS NULL OR NOT can_view_survivor_pool(pool_uuid) THEN
+    RAISE EXCEPTION 'Survivor pool not found';
+  END IF;
+
+  SELECT id INTO entry_uuid FROM survivor_entries
+  WHERE pool_id = pool_uuid AND user_id = auth.uid();
+
+  IF entry_uuid IS NOT NULL THEN
+    RETURN entry_uuid;
+  END IF;
+
+  first_deadline := survivor_period_deadline(pool_uuid, target.start_date);
+  IF target.start_date < survivor_period_start(target.period_type, NOW())
+     OR (first_deadline IS NOT NULL AND first_deadline <= NOW()) THEN
+    RAISE EXCEPTION 'Entries for this pool are closed';
+  END IF;
+
+  INSERT INTO survivor_entries (pool_id, user_id)
+  VALUES (pool_uuid, auth.uid())
+  RETURNING id INTO entry_uuid;
+
+  RETURN entry_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Make or change the caller's pick for the period the game falls in
+CREATE OR REPLACE FUNCTION make_survivor_pick(pool_uuid UUID, game_uuid UUID, team_uuid UUID)
+RETURNS UUID AS $$
+DECLARE
+  target survivor_pools%ROWTYPE;
+  entry survivor_entries%ROWTYPE;
+  game games%ROWTYPE;
+  period DATE;
+  deadline TIMESTAMPTZ;
+  pick_uuid UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO target FROM survivor_pools WHERE id = pool_uuid;
+  SELECT * INTO entry FROM survivor_entries WHERE pool_id = pool_uuid AND user_id = auth.uid();
+
+  IF entry.id IS NULL THEN
+    RAISE EXCEPTION 'You have not entered this pool';
+  END IF;
+
+  IF entry.status <> 'alive' THEN
+    RAISE EXCEPTION 'You have been eliminated from this pool';
+  END IF;
+
+  SELECT * INTO game FROM games WHERE id = game_uuid;
+
+  IF game.id IS NULL OR team_uuid NOT IN (game.home_team_id, game.away_team_id) THEN
+    RAISE EXCEPTION 'That team is not playing in this game';
+  END IF;
+
+  period := survivor_period_start(target.period_type, game.game_date);
+  deadline := survivor_period_deadline(pool_uuid, period);
+
+  IF period < target.start_date THEN
+    RAISE EXCEPTION 'This game is before the pool starts';
+  END IF;
+
+  IF game.status <> 'scheduled' OR deadline <= NOW() THEN
+    RAISE EXCEPTION 'Picks for this period are locked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM survivor_picks
+    WHERE entry_id = entry.id
+      AND team_id = team_uuid
+      AND period_start <> period
+      AND result IS DISTINCT FROM 'void'
+  ) THEN
+    RAISE EXCEPTION 'You have already used this team';
+  END IF;
+
+  INSERT INTO survivor_picks (entry_id, pool_id, user_id, period_start, game_id, team_id)
+  VALUES (entry.id, pool_uuid, auth.uid(), period, game_uuid, team_uuid)
+  ON CONFLICT (entry_id, period_start) DO UPDATE
+    SET game_id = EXCLUDED.game_id,
+        team_id = EXCLUDED.team_id,
+        result = 'pending'
+  RETURNING id INTO pick_uuid;
+
+  RETURN pick_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GRADING
+-- ============================================================================
+
+-- Grade survivor picks on completed games and eliminate entrants who lost or missed
+-- a period's deadline. Called from Inngest after scores update.
+-- Returns the number of entrants eliminated.
+CREATE OR REPLACE FUNCTION update_survivor_results()
+RETURNS INTEGER AS $$
+DECLARE
+  eliminated_count INTEGER;
+  missed_count INTEGER;
+BEGIN
+  UPDATE survivor_picks sp
+  SET result = CASE
+    WHEN (sp.team_id = g.home_team_id AND g.home_score > g.away_score)
+      OR (sp.team_id = g.away_team_id AND g.away_score > g.home_score) THEN 'won'
+    ELSE 'lost'
+  END
+  FROM games g
+  WHERE sp.game_id = g.id
+    AND sp.result = 'pending'
+    AND g.status = 'completed'
+    AND g.home_score IS NOT NULL
+    AND g.away_score IS NOT NULL;
+
+  -- A loss eliminates
+  UPDATE survivor_entries e
+  SET status = 'eliminated',
+      eliminated_period = (
+        SELECT MIN(sp.period_start) FROM survivor_picks sp
+        WHERE sp.entry_id = e.id AND sp.result = 'lost'
+      ),
+      eliminated_at = NOW()
+  WHERE e.status = 'alive'
+    AND EXISTS (
+      SELECT 1 FROM survivor_picks sp
+      WHERE sp.entry_id = e.id AND sp.result = 'lost'
+    );
+
+  GET DIAGNOSTICS eliminated_count = ROW_COUNT;
+
+  -- So does no pick by a period's deadline
+  UPDATE survivor_entries e
+  SET status = 'eliminated',
+      eliminated_period = missed.period,
+      eliminated_at = NOW()
+  FROM (
+    SELECT e2.id AS entry_id, MIN(periods.period) AS period
+    FROM survivor_entries e2
+    JOIN survivor_pools p ON p.id = e2.pool_id
+    CROSS JOIN LATERAL (
+      SELECT s::date AS period
+      FROM generate_series(
+        p.start_date,
+        survivor_period_start(p.period_type, NOW()),
+        CASE p.period_type WHEN 'day' THEN INTERVAL '1 day' ELSE INTERVAL '1 week' END
+      ) s
+    ) periods
+    WHERE e2.status = 'alive'
+      AND survivor_period_deadline(p.id, periods.period) <= NOW()
+      AND NOT EXISTS (
+        SELECT 1 FROM survivor_picks sp
+        WHERE sp.entry_id = e2.id AND sp.period_start = periods.period
+      )
+    GROUP BY e2.id
+  ) missed
+  WHERE e.id = missed.entry_id;
+
+  GET DIAGNOSTICS missed_count = ROW_COUNT;
+
+  RETURN eliminated_count + missed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE survivor_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survivor_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survivor_picks ENABLE ROW LEVEL SECURITY;
+
+-- Checked against the row itself rather than can_view_survivor_pool(id), so
+-- INSERT ... RETURNING can see the pool being created
+CREATE POLICY "Users can view open and league pools" ON survivor_pools
+  FOR SELECT USING (league_id IS NULL OR owner_id = auth.uid() OR is_league_member(league_id));
+
+-- League pools can only be created by members of that league
+CREATE POLICY "Users can create pools they own" ON survivor_pools
+  FOR INSERT WITH CHECK (
+    auth.uid() = owner_id
+    AND (league_id IS NULL OR is_league_member(league_id))
+  );
+
+CREATE POLICY "Owners can delete their pools" ON survivor_pools
+  FOR DELETE USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can view entries in visible pools" ON survivor_entries
+  FOR SELECT USING (can_view_survivor_pool(pool_id));
+
+-- Other entrants' picks stay hidden until the period locks
+CREATE POLICY "Users can view own and locked survivor picks" ON survivor_picks
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR (
+      can_view_survivor_pool(pool_id)
+      AND survivor_period_deadline(pool_id, period_start) <= NOW()
+    )
+  );
+
+COMMENT ON TABLE survivor_pools IS 'Survivor (elimination) contests; one straight-up pick per period, no team reuse';
+COMMENT ON TABLE survivor_entries IS 'Entrants in a survivor pool and whether they are still alive';
+COMMENT ON TABLE survivor_picks IS 'One pick per entry per period; UNIQUE(entry_id, team_id) enforces the burn rule';
+COMMENT ON FUNCTION make_survivor_pick IS 'Makes or changes the caller''s pick for the game''s period, enforcing deadline and burn rule';
+COMMENT ON FUNCTION update_survivor_results IS 'Grades survivor picks and eliminates entrants who lost or missed a deadline';
@@ -0,0 +1,7 @@
+-- Migration: Add 'void' pick result
+-- Purpose: Picks on postponed or cancelled games are voided rather than left pending.
+--          Kept in its own migration because a new enum value can't be used in the
+--          transaction that adds it; 20251121000011 builds on it.
+-- Rollback: Not reversible (Postgres can't drop enum values); update void picks to 'pending' instead.
+
+ALTER TYPE pick_result ADD VALUE IF NOT EXISTS 'void';
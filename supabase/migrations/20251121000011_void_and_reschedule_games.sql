@@ -0,0 +1,163 @@
+-- Migration: Void picks on postponed/cancelled games and link rescheduled games
+-- Purpose: update_pick_results() only grades completed games, so picks on postponed or
+--          cancelled games sat as 'pending' forever. They're now voided: win rates and
+--          streaks already only count won/lost, units treat void as 0 and ROI counts
+--          graded picks only, so a void drops out of every rate.
+--          - games.rescheduled_from_game_id links a rescheduled game (new external_id,
+--            detected by scrape-games.ts) to the original so users can carry a pick over
+--          - Survivor picks on a voided game are voided too and the entrant survives
+-- Rollback: ALTER TABLE games DROP COLUMN rescheduled_from_game_id;
+--           UPDATE picks SET result = 'pending' WHERE result = 'void';
+
+ALTER TABLE games
+  ADD COLUMN rescheduled_from_game_id UUID REFERENCES games(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_games_rescheduled_from ON games(rescheduled_from_game_id)
+  WHERE rescheduled_from_game_id IS NOT NULL;
+
+-- ============================================================================
+-- GRADING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION void_pick_results()
+RETURNS void AS $$
+BEGIN
+  UPDATE picks p
+  SET result = 'void'
+  FROM games g
+  WHERE p.game_id = g.id
+    AND g.status IN ('postponed', 'cancelled')
+    AND p.result = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION grade_pick_results()
+RETURNS void AS $$
+BEGIN
+  PERFORM update_pick_results();
+  PERFORM update_total_pick_results();
+  PERFORM update_moneyline_pick_results();
+  PERFORM void_pick_results();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A voided game never closed, so it has no CLV
+CREATE OR REPLACE VIEW pick_clv WITH (security_invoker = true) AS
+SELECT
+  p.id AS pick_id,
+  p.user_id,
+  p.game_id,
+  g.conference_id,
+  p.spread_at_pick_time,
+  closing_line_for_team(p.picked_team_id, g.closing_spread, g.closing_favorite_team_id) AS closing_line,
+  p.spread_at_pick_time
+    - closing_line_for_team(p.picked_team_id, g.closing_spread, g.closing_favorite_team_id) AS clv
+FROM picks p
+JOIN games g ON p.game_id = g.id
+WHERE p.pick_type = 'spread'
+  AND p.result <> 'void'
+  AND g.closing_captured_at IS NOT NULL;
+
+-- Voided picks per market, shown alongside the records
+CREATE OR REPLACE FUNCTION get_user_void_counts(user_uuid UUID)
+RETURNS TABLE (
+  pick_type TEXT,
+  voided BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT p.pick_type, COUNT(*) as voided
+  FROM picks p
+  WHERE p.user_id = user_uuid
+    AND p.result = 'void'
+  GROUP BY p.pick_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- SURVIVOR
+-- ============================================================================
+
+ALTER TABLE survivor_picks DROP CONSTRAINT survivor_picks_result_check;
+ALTER TABLE survivor_picks ADD CONSTRAINT survivor_picks_result_check
+  CHECK (result IN ('pending', 'won', 'lost', 'void'));
+
+CREATE OR REPLACE FUNCTION update_survivor_results()
+RETURNS INTEGER AS $$
+DECLARE
+  eliminated_count INTEGER;
+  missed_count INTEGER;
+BEGIN
+  UPDATE survivor_picks sp
+  SET result = CASE
+    WHEN (sp.team_id = g.home_team_id AND g.home_score > g.away_score)
+      OR (sp.team_id = g.away_team_id AND g.away_score > g.home_score) THEN 'won'
+    ELSE 'lost'
+  END
+  FROM games g
+  WHERE sp.game_id = g.id
+    AND sp.result = 'pending'
+    AND g.status = 'completed'
+    AND g.home_score IS NOT NULL
+    AND g.away_score IS NOT NULL;
+
+  -- The game never happened, so the entrant survives the period
+  UPDATE survivor_picks sp
+  SET result = 'void'
+  FROM games g
+  WHERE sp.game_id = g.id
+    AND sp.result = 'pending'
+    AND g.status IN ('postponed', 'cancelled');
+
+  -- A loss eliminates
+  UPDATE survivor_entries e
+  SET status = 'eliminated',
+      eliminated_period = (
+        SELECT MIN(sp.period_start) FROM survivor_picks sp
+        WHERE sp.entry_id = e.id AND sp.result = 'lost'
+      ),
+      eliminated_at = NOW()
+  WHERE e.status = 'alive'
+    AND EXISTS (
+      SELECT 1 FROM survivor_picks sp
+      WHERE sp.entry_id = e.id AND sp.result = 'lost'
+    );
+
+  GET DIAGNOSTICS eliminated_count = ROW_COUNT;
+
+  -- So does no pick by a period's deadline
+  UPDATE survivor_entries e
+  SET status = 'eliminated',
+      eliminated_period = missed.period,
+      eliminated_at = NOW()
+  FROM (
+    SELECT e2.id AS entry_id, MIN(periods.period) AS period
+    FROM survivor_entries e2
+    JOIN survivor_pools p ON p.id = e2.pool_id
+    CROSS JOIN LATERAL (
+      SELECT s::date AS period
+      FROM generate_series(
+        p.start_date,
+        survivor_period_start(p.period_type, NOW()),
+        CASE p.period_type WHEN 'day' THEN INTERVAL '1 day' ELSE INTERVAL '1 week' END
+      ) s
+    ) periods
+    WHERE e2.status = 'alive'
+      AND survivor_period_deadline(p.id, periods.period) <= NOW()
+      AND NOT EXISTS (
+        SELECT 1 FROM survivor_picks sp
+        WHERE sp.entry_id = e2.id AND sp.period_start = periods.period
+      )
+    GROUP BY e2.id
+  ) missed
+  WHERE e.id = missed.entry_id;
+
+  GET DIAGNOSTICS missed_count = ROW_COUNT;
+
+  RETURN eliminated_count + missed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN games.rescheduled_from_game_id IS 'Original (postponed) game this one replaces, detected when the rescheduled game is scraped';
+COMMENT ON FUNCTION void_pick_results IS 'Voids pending picks on postponed or cancelled games';
+COMMENT ON FUNCTION get_user_void_counts IS 'Number of voided picks per pick type for a user';
@@ -0,0 +1,226 @@
+-- Migration: Unit staking and bankroll tracking
+-- Purpose: Lets users stake 0.5-5 units per pick and tracks a running bankroll.
+--          - picks.stake holds the units risked (1 for every existing pick)
+--          - picks.units_result is the net units, set when the pick is graded:
+--            spread and totals pay at -110, moneyline at the locked-in odds
+--          - get_user_bankroll_stats / get_user_bankroll_history feed /metrics and /mypicks
+--            with the current season's (August-July) bankroll and ROI
+--          - Moneyline units and ROI are now stake-weighted
+-- Rollback: DROP FUNCTION get_user_bankroll_history, get_user_bankroll_stats,
+--           update_pick_units, pick_units; restore grade_pick_results from 0011 and the
+--           moneyline stats from 0004; ALTER TABLE picks DROP COLUMN units_result, DROP COLUMN stake;
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+ALTER TABLE picks
+  ADD COLUMN stake NUMERIC(3,1) NOT NULL DEFAULT 1
+    CONSTRAINT picks_stake_range CHECK (stake BETWEEN 0.5 AND 5),
+  ADD COLUMN units_result NUMERIC(8,2);
+
+-- ============================================================================
+-- UNITS
+-- ============================================================================
+
+-- Net units for a graded pick: spread and totals are priced at the standard -110
+CREATE OR REPLACE FUNCTION pick_units(
+  pick_stake NUMERIC,
+  pick_kind TEXT,
+  odds INTEGER,
+  pick_outcome pick_result
+)
+RETURNS NUMERIC AS $$
+  SELECT ROUND(
+    pick_stake * moneyline_units(
+      CASE WHEN pick_kind = 'moneyline' THEN COALESCE(odds, -110) ELSE -110 END,
+      pick_outcome
+    ),
+    2
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Settles units for every graded pick (pushes and voids settle at 0)
+CREATE OR REPLACE FUNCTION update_pick_units()
+RETURNS void AS $$
+BEGIN
+  UPDATE picks
+  SET units_result = pick_units(stake, pick_type, odds_at_pick_time, result)
+  WHERE result IS NOT NULL
+    AND result <> 'pending'
+    AND units_result IS DISTINCT FROM pick_units(stake, pick_type, odds_at_pick_time, result);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION grade_pick_results()
+RETURNS void AS $$
+BEGIN
+  PERFORM update_pick_results();
+  PERFORM update_total_pick_results();
+  PERFORM update_moneyline_pick_results();
+  PERFORM void_pick_results();
+  PERFORM update_pick_units();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill picks graded before stakes existed (all at 1 unit)
+SELECT update_pick_units();
+
+-- ============================================================================
+-- MONEYLINE STATS (stake-weighted)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_user_moneyline_stats(user_uuid UUID)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  units NUMERIC,
+  roi NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    ROUND(COALESCE(SUM(units_result), 0), 2) as units,
+    ROUND(
+      SUM(units_result) /
+      NULLIF(SUM(stake) FILTER (WHERE result IN ('won', 'lost', 'push')), 0) * 100,
+      2
+    ) as roi
+  FROM picks
+  WHERE user_id = user_uuid AND result IS NOT NULL AND pick_type = 'moneyline';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_user_weekly_moneyline_stats(user_uuid UUID)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  units NUMERIC,
+  roi NUMERIC
+) AS $$
+DECLARE
+  week_start_date DATE;
+  week_end_date DATE;
+BEGIN
+  -- Calculate current week boundaries (Monday to Sunday)
+  week_start_date := DATE_TRUNC('week', CURRENT_DATE)::DATE;
+  week_end_date := (week_start_date + INTERVAL '6 days')::DATE;
+
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    ROUND(COALESCE(SUM(units_result), 0), 2) as units,
+    ROUND(
+      SUM(units_result) /
+      NULLIF(SUM(stake) FILTER (WHERE result IN ('won', 'lost', 'push')), 0) * 100,
+      2
+    ) as roi
+  FROM picks
+  WHERE user_id = user_uuid
+    AND result IS NOT NULL
+    AND pick_type = 'moneyline'
+    AND DATE(created_at) >= week_start_date
+    AND DATE(created_at) <= week_end_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- BANKROLL
+-- ============================================================================
+
+-- Season bankroll across every pick type; voided picks were never really staked
+CREATE OR REPLACE FUNCTION get_user_bankroll_stats(user_uuid UUID)
+RETURNS TABLE (
+  graded_picks BIGINT,
+  units_staked NUMERIC,
+  units_net NUMERIC,
+  roi NUMERIC
+) AS $$
+DECLARE
+  -- Current season by the Aug-Jul rule used elsewhere (month >= 8 ? year + 1 : year)
+  today DATE := (NOW() AT TIME ZONE 'America/New_York')::DATE;
+  season_start DATE := make_date(
+    EXTRACT(YEAR FROM today)::INTEGER - CASE WHEN EXTRACT(MONTH FROM today) >= 8 THEN 0 ELSE 1 END,
+    8,
+    1
+  );
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as graded_picks,
+    COALESCE(SUM(stake), 0) as units_staked,
+    ROUND(COALESCE(SUM(units_result), 0), 2) as units_net,
+    ROUND(SUM(units_result) / NULLIF(SUM(stake), 0) * 100, 2) as roi
+  FROM picks
+  WHERE user_id = user_uuid
+    AND result IN ('won', 'lost', 'push')
+    AND units_result IS NOT NULL
+    AND game_date_cache >= season_start;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Net units per game day this season with the running total, for the bankroll chart
+CREATE OR REPLACE FUNCTION get_user_bankroll_history(user_uuid UUID)
+RETURNS TABLE (
+  day DATE,
+  units NUMERIC,
+  cumulative_units NUMERIC
+) AS $$
+DECLARE
+  -- Current season by the Aug-Jul rule used elsewhere (month >= 8 ? year + 1 : year)
+  today DATE := (NOW() AT TIME ZONE 'America/New_York')::DATE;
+  season_start DATE := make_date(
+    EXTRACT(YEAR FROM today)::INTEGER - CASE WHEN EXTRACT(MONTH FROM today) >= 8 THEN 0 ELSE 1 END,
+    8,
+    1
+  );
+BEGIN
+  RETURN QUERY
+  SELECT
+    daily.day,
+    daily.units,
+    SUM(daily.units) OVER (ORDER BY daily.day) as cumulative_units
+  FROM (
+    SELECT
+      game_date_cache as day,
+      ROUND(SUM(units_result), 2) as units
+    FROM picks
+    WHERE user_id = user_uuid
+      AND result IN ('won', 'lost', 'push')
+      AND units_result IS NOT NULL
+      AND game_date_cache >= season_start
+    GROUP BY game_date_cache
+  ) daily
+  ORDER BY daily.day;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN picks.stake IS 'Units risked on the pick, 0.5 to 5';
+COMMENT ON COLUMN picks.units_result IS 'Net units once graded: stake at -110 for spread/totals, at odds_at_pick_time for moneyline';
+COMMENT ON FUNCTION pick_units IS 'Net units for a stake, pricing spread/totals at -110 and moneyline at the locked odds';
+COMMENT ON FUNCTION get_user_moneyline_stats IS 'Moneyline record plus stake-weighted profit in units and ROI (units per unit staked)';
+COMMENT ON FUNCTION get_user_bankroll_stats IS 'Units staked, net units and ROI across the current season''s graded picks';
+COMMENT ON FUNCTION get_user_bankroll_history IS 'Daily net units and running bankroll by game date for the current season';
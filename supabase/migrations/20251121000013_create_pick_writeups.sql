@@ -0,0 +1,111 @@
+-- Migration: Pick write-ups, reactions and replies
+-- Purpose: Lets users explain a pick and other users discuss it.
+--          - pick_writeups holds one optional rationale per pick (keyed by pick_id)
+--          - A write-up can be written or edited until the game locks, and is only
+--            visible to other users after it locks (same rule as survivor picks)
+--          - pick_writeup_reactions / pick_writeup_replies open once the game locks
+-- Rollback: DROP TABLE pick_writeup_replies, pick_writeup_reactions, pick_writeups CASCADE;
+--           DROP FUNCTION pick_is_locked;
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE pick_writeups (
+  pick_id UUID PRIMARY KEY REFERENCES picks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_pick_writeups_user_id ON pick_writeups(user_id);
+CREATE INDEX idx_pick_writeups_created_at ON pick_writeups(created_at DESC);
+
+CREATE TABLE pick_writeup_reactions (
+  pick_id UUID NOT NULL REFERENCES pick_writeups(pick_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (emoji IN ('🔥', '👍', '😂', '🤔', '🧊')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (pick_id, user_id, emoji)
+);
+
+CREATE TABLE pick_writeup_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pick_id UUID NOT NULL REFERENCES pick_writeups(pick_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 1000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_pick_writeup_replies_pick_id ON pick_writeup_replies(pick_id, created_at);
+
+CREATE TRIGGER update_pick_writeups_updated_at BEFORE UPDATE ON pick_writeups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- A pick locks when its game tips off (or is no longer scheduled), matching savePick()
+CREATE OR REPLACE FUNCTION pick_is_locked(pick_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT g.status <> 'scheduled' OR g.game_date <= NOW()
+     FROM picks p
+     JOIN games g ON g.id = p.game_id
+     WHERE p.id = pick_uuid),
+    FALSE
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+ALTER TABLE pick_writeups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pick_writeup_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pick_writeup_replies ENABLE ROW LEVEL SECURITY;
+
+-- Other users only see a write-up once the game locks
+CREATE POLICY "Users can view own and locked write-ups" ON pick_writeups
+  FOR SELECT USING (auth.uid() = user_id OR pick_is_locked(pick_id));
+
+CREATE POLICY "Users can write up their own unlocked picks" ON pick_writeups
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM picks WHERE picks.id = pick_id AND picks.user_id = auth.uid())
+    AND NOT pick_is_locked(pick_id)
+  );
+
+CREATE POLICY "Users can edit write-ups until the game locks" ON pick_writeups
+  FOR UPDATE USING (auth.uid() = user_id AND NOT pick_is_locked(pick_id))
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete write-ups until the game locks" ON pick_writeups
+  FOR DELETE USING (auth.uid() = user_id AND NOT pick_is_locked(pick_id));
+
+-- Reactions and replies follow the write-up's visibility
+CREATE POLICY "Users can view reactions on visible write-ups" ON pick_writeup_reactions
+  FOR SELECT USING (EXISTS (SELECT 1 FROM pick_writeups w WHERE w.pick_id = pick_writeup_reactions.pick_id));
+
+CREATE POLICY "Users can react to locked write-ups" ON pick_writeup_reactions
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND pick_is_locked(pick_id));
+
+CREATE POLICY "Users can remove own reactions" ON pick_writeup_reactions
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view replies on visible write-ups" ON pick_writeup_replies
+  FOR SELECT USING (EXISTS (SELECT 1 FROM pick_writeups w WHERE w.pick_id = pick_writeup_replies.pick_id));
+
+CREATE POLICY "Users can reply to locked write-ups" ON pick_writeup_replies
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND pick_is_locked(pick_id));
+
+CREATE POLICY "Users can delete own replies" ON pick_writeup_replies
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON TABLE pick_writeups IS 'Optional rationale for a pick; hidden from other users until the game locks';
+COMMENT ON TABLE pick_writeup_reactions IS 'Emoji reactions on write-ups, one of each emoji per user';
+COMMENT ON TABLE pick_writeup_replies IS 'Replies to write-ups, allowed once the game locks';
+COMMENT ON FUNCTION pick_is_locked IS 'True once the pick''s game has tipped off or is no longer scheduled';
@@ -0,0 +1,52 @@
+-- Migration: Enforce pick locking in the database
+-- Purpose: The "game has already started" check only lived in savePick(), so any
+--          authenticated client could upsert, edit (including is_pick_of_day) or delete
+--          a pick through the API after tip-off. A trigger now rejects those writes.
+--          - Applies to writes made directly by API clients (the anon/authenticated roles)
+--          - SECURITY DEFINER functions (grading, set_confidence_order) and the service
+--            role run as their owner and are unaffected
+--          - Rejections raise SQLSTATE PT423, which PostgREST returns as HTTP 423 with
+--            code "PT423" so the app can show a clear message
+-- Rollback: DROP TRIGGER trg_enforce_pick_lock ON picks; DROP FUNCTION enforce_pick_lock, game_is_locked;
+
+-- ============================================================================
+-- LOCK CHECK
+-- ============================================================================
+
+-- A game locks at tip-off, or as soon as it is no longer scheduled
+CREATE OR REPLACE FUNCTION game_is_locked(game_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT status <> 'scheduled' OR game_date <= NOW() FROM games WHERE id = game_uuid),
+    FALSE
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Deliberately SECURITY INVOKER: current_user must be the caller's role, not the owner
+CREATE OR REPLACE FUNCTION enforce_pick_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND game_is_locked(OLD.game_id) THEN
+    RAISE EXCEPTION 'Picks are locked once the game starts'
+      USING ERRCODE = 'PT423', HINT = 'pick_locked';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND game_is_locked(NEW.game_id) THEN
+    RAISE EXCEPTION 'Picks are locked once the game starts'
+      USING ERRCODE = 'PT423', HINT = 'pick_locked';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_enforce_pick_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON picks
+  FOR EACH ROW EXECUTE FUNCTION enforce_pick_lock();
+
+COMMENT ON FUNCTION game_is_locked IS 'True once a game has tipped off or is no longer scheduled';
+COMMENT ON FUNCTION enforce_pick_lock IS 'Rejects client writes to picks on locked games with SQLSTATE PT423';
@@ -0,0 +1,51 @@
+-- Migration: Hide other users' picks until each game locks
+-- Purpose: 20251103201100_allow_viewing_all_picks opened every pick to every user, so
+--          sides could be copied before tip-off. Other users' picks are now only visible
+--          once their game locks (game_is_locked() from 20251121000014).
+--          - get_game_pick_counts() exposes only how many others have picked a game,
+--            so the slate can still show "3 picks" beforehand
+--          - Leaderboards and stats already run as SECURITY DEFINER and are unaffected
+-- Rollback: DROP POLICY "Users can view own picks and picks on locked games" ON picks;
+--           CREATE POLICY "Users can view all picks" ON picks FOR SELECT USING (true);
+--           DROP FUNCTION get_game_pick_counts;
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+DROP POLICY "Users can view all picks" ON picks;
+
+CREATE POLICY "Users can view own picks and picks on locked games" ON picks
+  FOR SELECT USING (auth.uid() = user_id OR game_is_locked(game_id));
+
+-- ============================================================================
+-- AGGREGATE COUNTS
+-- ============================================================================
+
+-- Number of other users with a spread pick on each game, optionally limited to a
+-- league the caller belongs to. Counts only, never sides.
+CREATE OR REPLACE FUNCTION get_game_pick_counts(game_uuids UUID[], league_uuid UUID DEFAULT NULL)
+RETURNS TABLE (
+  game_id UUID,
+  pick_count BIGINT
+) AS $$
+BEGIN
+  IF league_uuid IS NOT NULL AND NOT is_league_member(league_uuid) THEN
+    RAISE EXCEPTION 'Not a member of this league';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.game_id, COUNT(*) as pick_count
+  FROM picks p
+  WHERE p.game_id = ANY(game_uuids)
+    AND p.pick_type = 'spread'
+    AND p.user_id <> auth.uid()
+    AND (
+      league_uuid IS NULL
+      OR p.user_id IN (SELECT lm.user_id FROM league_members lm WHERE lm.league_id = league_uuid)
+    )
+  GROUP BY p.game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_game_pick_counts IS 'How many other users picked each game (spread picks), without revealing sides';
@@ -0,0 +1,283 @@
+-- Migration: Pick revision history and late-change audit
+-- Purpose: savePick() upserts, so switching sides, re-taking a moved line or moving the
+--          Pick of the Day overwrote the previous pick with no trace. Every change to a
+--          pick's content is now recorded in pick_revisions.
+--          - Grading columns (result, units_result, locked_at, confidence) are not content
+--            and don't create revisions
+--          - Deleted picks keep their history (pick_id has no foreign key); picks removed
+--            because their game or user was deleted aren't logged, since that history is
+--            cascaded away with them
+--          - games.completed_at records when a game went final, so changes made after an
+--            earlier game of the day finished can be detected
+--          - get_suspicious_pick_revisions() is an admin-only report of those changes
+-- Rollback: DROP TRIGGER trg_log_pick_revision ON picks; DROP TRIGGER trg_set_game_completed_at ON games;
+--           DROP FUNCTION get_suspicious_pick_revisions, log_pick_revision, pick_line_in_effect, set_game_completed_at;
+--           DROP TABLE pick_revisions; ALTER TABLE games DROP COLUMN completed_at;
+
+-- ============================================================================
+-- GAME COMPLETION TIME
+-- ============================================================================
+
+ALTER TABLE games ADD COLUMN completed_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION set_game_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.completed_at = NOW();
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_set_game_completed_at
+  BEFORE UPDATE OF status ON games
+  FOR EACH ROW EXECUTE FUNCTION set_game_completed_at();
+
+COMMENT ON COLUMN games.completed_at IS 'When the game was marked completed (NULL for games finished before this was tracked)';
+
+-- ============================================================================
+-- PICK REVISIONS
+-- ============================================================================
+
+CREATE TABLE pick_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pick_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  pick_type TEXT NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('created', 'updated', 'deleted')),
+  old_picked_team_id UUID,
+  new_picked_team_id UUID,
+  old_total_side TEXT,
+  new_total_side TEXT,
+  old_line NUMERIC(6, 1),
+  new_line NUMERIC(6, 1),
+  old_is_pick_of_day BOOLEAN,
+  new_is_pick_of_day BOOLEAN,
+  old_stake NUMERIC(3, 1),
+  new_stake NUMERIC(3, 1),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_pick_revisions_pick_id ON pick_revisions(pick_id, changed_at);
+CREATE INDEX idx_pick_revisions_game_id ON pick_revisions(game_id);
+CREATE INDEX idx_pick_revisions_user_changed ON pick_revisions(user_id, changed_at DESC);
+
+-- The line the pick was taken at: signed spread, total, or American odds
+CREATE OR REPLACE FUNCTION pick_line_in_effect(
+  pick_kind TEXT,
+  spread NUMERIC,
+  total NUMERIC,
+  odds INTEGER
+)
+RETURNS NUMERIC AS $$
+  SELECT CASE pick_kind
+    WHEN 'total' THEN total
+    WHEN 'moneyline' THEN odds::NUMERIC
+    ELSE spread
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION log_pick_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO pick_revisions (
+      pick_id, user_id, game_id, pick_type, change_type,
+      new_picked_team_id, new_total_side, new_line, new_is_pick_of_day, new_stake
+    ) VALUES (
+      NEW.id, NEW.user_id, NEW.game_id, NEW.pick_type, 'created',
+      NEW.picked_team_id, NEW.total_side,
+      pick_line_in_effect(NEW.pick_type, NEW.spread_at_pick_time, NEW.total_at_pick_time, NEW.odds_at_pick_time),
+      NEW.is_pick_of_day, NEW.stake
+    );
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- A cascade from deleting the game or user: a revision pointing at it would fail its
+    -- foreign key and reject the whole delete
+    IF NOT EXISTS (SELECT 1 FROM games WHERE id = OLD.game_id)
+      OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+      RETURN OLD;
+    END IF;
+
+    INSERT INTO pick_revisions (
+      pick_id, user_id, game_id, pick_type, change_type,
+      old_picked_team_id, old_total_side, old_line, old_is_pick_of_day, old_stake
+    ) VALUES (
+      OLD.id, OLD.user_id, OLD.game_id, OLD.pick_type, 'deleted',
+      OLD.picked_team_id, OLD.total_side,
+      pick_line_in_effect(OLD.pick_type, OLD.spread_at_pick_time, OLD.total_at_pick_time, OLD.odds_at_pick_time),
+      OLD.is_pick_of_day, OLD.stake
+    );
+    RETURN OLD;
+  END IF;
+
+  -- Grading and confidence updates leave the pick itself unchanged
+  IF NEW.picked_team_id IS NOT DISTINCT FROM OLD.picked_team_id
+    AND NEW.total_side IS NOT DISTINCT FROM OLD.total_side
+    AND NEW.spread_at_pick_time IS NOT DISTINCT FROM OLD.spread_at_pick_time
+    AND NEW.total_at_pick_time IS NOT DISTINCT FROM OLD.total_at_pick_time
+    AND NEW.odds_at_pick_time IS NOT DISTINCT FROM OLD.odds_at_pick_time
+    AND NEW.is_pick_of_day IS NOT DISTINCT FROM OLD.is_pick_of_day
+    AND NEW.stake IS NOT DISTINCT FROM OLD.stake
+    AND NEW.game_id IS NOT DISTINCT FROM OLD.game_id
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO pick_revisions (
+    pick_id, user_id, game_id, pick_type, change_type,
+    old_picked_team_id, new_picked_team_id,
+    old_total_side, new_total_side,
+    old_line, new_line,
+    old_is_pick_of_day, new_is_pick_of_day,
+    old_stake, new_stake
+  ) VALUES (
+    NEW.id, NEW.user_id, NEW.game_id, NEW.pick_type, 'updated',
+    OLD.picked_team_id, NEW.picked_team_id,
+    OLD.total_side, NEW.total_side,
+    pick_line_in_effect(OLD.pick_type, OLD.spread_at_pick_time, OLD.total_at_pick_time, OLD.odds_at_pick_time),
+    pick_line_in_effect(NEW.pick_type, NEW.spread_at_pick_time, NEW.total_at_pick_time, NEW.odds_at_pick_time),
+    OLD.is_pick_of_day, NEW.is_pick_of_day,
+    OLD.stake, NEW.stake
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_log_pick_revision
+  AFTER INSERT OR UPDATE OR DELETE ON picks
+  FOR EACH ROW EXECUTE FUNCTION log_pick_revision();
+
+-- Existing picks start with their current state as the first revision
+INSERT INTO pick_revisions (
+  pick_id, user_id, game_id, pick_type, change_type,
+  new_picked_team_id, new_total_side, new_line, new_is_pick_of_day, new_stake, changed_at
+)
+SELECT
+  p.id, p.user_id, p.game_id, p.pick_type, 'created',
+  p.picked_team_id, p.total_side,
+  pick_line_in_effect(p.pick_type, p.spread_at_pick_time, p.total_at_pick_time, p.odds_at_pick_time),
+  p.is_pick_of_day, p.stake, p.created_at
+FROM picks p;
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+ALTER TABLE pick_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger
+CREATE POLICY "Users can view own pick revisions" ON pick_revisions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all pick revisions" ON pick_revisions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.is_admin = true)
+  );
+
+-- ============================================================================
+-- AUDIT REPORT
+-- ============================================================================
+
+-- Revisions worth a second look:
+--   potd_after_final  - Pick of the Day moved on or off a game after another game that
+--                       day had already gone final
+--   after_lock        - any change recorded at or after the game's tip-off
+CREATE OR REPLACE FUNCTION get_suspicious_pick_revisions(since_date DATE DEFAULT (CURRENT_DATE - 30))
+RETURNS TABLE (
+  revision_id UUID,
+  changed_at TIMESTAMPTZ,
+  user_id UUID,
+  username TEXT,
+  game_id UUID,
+  matchup TEXT,
+  game_date TIMESTAMPTZ,
+  pick_type TEXT,
+  change_type TEXT,
+  old_is_pick_of_day BOOLEAN,
+  new_is_pick_of_day BOOLEAN,
+  flag TEXT,
+  detail TEXT
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true)
+    AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only admins can view the pick audit';
+  END IF;
+
+  RETURN QUERY
+  WITH revisions AS (
+    SELECT
+      r.*,
+      g.game_date AS tipoff,
+      DATE(g.game_date AT TIME ZONE 'America/New_York') AS game_day,
+      away.short_name || ' @ ' || home.short_name AS matchup
+    FROM pick_revisions r
+    JOIN games g ON g.id = r.game_id
+    JOIN teams home ON home.id = g.home_team_id
+    JOIN teams away ON away.id = g.away_team_id
+    WHERE r.changed_at >= since_date
+  ),
+  potd_after_final AS (
+    SELECT
+      r.id,
+      'potd_after_final'::TEXT AS flag,
+      (
+        SELECT ea.short_name || ' @ ' || eh.short_name || ' went final at ' ||
+          to_char(e.completed_at AT TIME ZONE 'America/New_York', 'HH12:MI AM') || ' ET'
+        FROM games e
+        JOIN teams eh ON eh.id = e.home_team_id
+        JOIN teams ea ON ea.id = e.away_team_id
+        WHERE e.id <> r.game_id
+          AND DATE(e.game_date AT TIME ZONE 'America/New_York') = r.game_day
+          AND e.completed_at <= r.changed_at
+        ORDER BY e.completed_at
+        LIMIT 1
+      ) AS detail
+    FROM revisions r
+    WHERE COALESCE(r.old_is_pick_of_day, false) <> COALESCE(r.new_is_pick_of_day, false)
+  ),
+  after_lock AS (
+    SELECT
+      r.id,
+      'after_lock'::TEXT AS flag,
+      'Changed ' || to_char(r.changed_at - r.tipoff, 'HH24:MI') || ' after tip-off' AS detail
+    FROM revisions r
+    WHERE r.changed_at >= r.tipoff
+  ),
+  flagged AS (
+    SELECT * FROM potd_after_final WHERE potd_after_final.detail IS NOT NULL
+    UNION ALL
+    SELECT * FROM after_lock
+  )
+  SELECT
+    r.id,
+    r.changed_at,
+    r.user_id,
+    pr.username,
+    r.game_id,
+    r.matchup,
+    r.tipoff,
+    r.pick_type,
+    r.change_type,
+    r.old_is_pick_of_day,
+    r.new_is_pick_of_day,
+    f.flag,
+    f.detail
+  FROM flagged f
+  JOIN revisions r ON r.id = f.id
+  JOIN profiles pr ON pr.id = r.user_id
+  ORDER BY r.changed_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE pick_revisions IS 'Every change to a pick''s side, line, Pick of the Day flag or stake';
+COMMENT ON COLUMN pick_revisions.old_line IS 'Line in effect: signed spread, total, or American odds depending on pick_type';
+COMMENT ON FUNCTION log_pick_revision IS 'Records pick inserts, content updates and deletes in pick_revisions';
+COMMENT ON FUNCTION get_suspicious_pick_revisions IS 'Admin report of Pick of the Day switches after an earlier game went final, and changes after tip-off';
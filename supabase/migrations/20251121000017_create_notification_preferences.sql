@@ -0,0 +1,94 @@
+-- Migration: Email notification preferences and delivery log
+-- Purpose: Users miss slates because nothing reminds them. Two opt-in emails are sent
+--          from Inngest crons (inngest/functions/send-notifications.ts):
+--          - pick reminders before the day's first unpicked game tips off
+--          - a nightly digest of graded picks and streak changes
+--          notification_deliveries records each send, so crons that run every few minutes
+--          send at most one email of each kind per user per slate, and the digest can
+--          compare today's streak with the one in the previous digest.
+-- Rollback: DROP FUNCTION get_notification_recipients;
+--           DROP TABLE notification_deliveries, notification_preferences;
+
+-- ============================================================================
+-- PREFERENCES
+-- ============================================================================
+
+CREATE TABLE notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pick_reminders BOOLEAN NOT NULL DEFAULT false,
+  results_digest BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences" ON notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences" ON notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- DELIVERIES
+-- ============================================================================
+
+CREATE TABLE notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('pick_reminder', 'results_digest')),
+  slate_date DATE NOT NULL,
+  -- Streak at the time of a results digest, for the next digest to compare against
+  streak_type pick_result,
+  streak_count INTEGER,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, kind, slate_date)
+);
+
+CREATE INDEX idx_notification_deliveries_user_kind ON notification_deliveries(user_id, kind, slate_date DESC);
+
+-- Written by the service role only
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification deliveries" ON notification_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- RECIPIENTS
+-- ============================================================================
+
+-- Opted-in users with their email address (auth.users isn't exposed through the API)
+CREATE OR REPLACE FUNCTION get_notification_recipients(notification_kind TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  username TEXT
+) AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the service role can list notification recipients';
+  END IF;
+
+  RETURN QUERY
+  SELECT np.user_id, u.email::TEXT, p.username
+  FROM notification_preferences np
+  JOIN auth.users u ON u.id = np.user_id
+  JOIN profiles p ON p.id = np.user_id
+  WHERE u.email IS NOT NULL
+    AND CASE notification_kind
+      WHEN 'pick_reminder' THEN np.pick_reminders
+      WHEN 'results_digest' THEN np.results_digest
+      ELSE false
+    END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE notification_preferences IS 'Per-user opt-in for pick reminder and results digest emails';
+COMMENT ON TABLE notification_deliveries IS 'One row per notification email sent, keyed by user, kind and slate date';
+COMMENT ON FUNCTION get_notification_recipients IS 'Service-role only: opted-in users and their email for a notification kind';
@@ -0,0 +1,318 @@
+-- Migration: In-app notification center
+-- Purpose: A bell in the nav with an inbox of events, generated in the database where
+--          the state changes so every writer (crons, admin tools, the app) produces them:
+--          - pick_graded / potd_result / streak_milestone when a pick's result is set
+--            (update_pick_results and the totals/moneyline graders)
+--          - ranking_published when someone the user follows publishes a ranking
+--          - bracket_busted when a tournament game goes final against a bracket pick,
+--            or knocks out the user's champion
+--          Users can mute types (notification_preferences.muted_notification_types).
+--          user_follows is new: following is only used for ranking notifications so far.
+-- Rollback: DROP TRIGGER trg_notify_pick_graded ON picks;
+--           DROP TRIGGER trg_notify_ranking_published ON user_rankings;
+--           DROP TRIGGER trg_notify_bracket_busts ON games;
+--           DROP FUNCTION notify_pick_graded, notify_ranking_published, notify_bracket_busts,
+--             create_notification, mark_notifications_read;
+--           DROP TABLE notifications, user_follows;
+--           ALTER TABLE notification_preferences DROP COLUMN muted_notification_types;
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'pick_graded', 'potd_result', 'streak_milestone', 'ranking_published', 'bracket_busted'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+CREATE TABLE user_follows (
+  follower_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  followee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (follower_id, followee_id),
+  CHECK (follower_id <> followee_id)
+);
+
+CREATE INDEX idx_user_follows_followee ON user_follows(followee_id);
+
+ALTER TABLE notification_preferences
+  ADD COLUMN muted_notification_types TEXT[] NOT NULL DEFAULT '{}';
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_follows ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are written by triggers and marked read through mark_notifications_read()
+CREATE POLICY "Users can view own notifications" ON notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their follows and followers" ON user_follows
+  FOR SELECT USING (auth.uid() = follower_id OR auth.uid() = followee_id);
+
+CREATE POLICY "Users can follow others" ON user_follows
+  FOR INSERT WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow" ON user_follows
+  FOR DELETE USING (auth.uid() = follower_id);
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Insert a notification unless the user muted its type. Only called from triggers.
+CREATE OR REPLACE FUNCTION create_notification(
+  user_uuid UUID,
+  notification_type TEXT,
+  notification_title TEXT,
+  notification_body TEXT DEFAULT NULL,
+  notification_link TEXT DEFAULT NULL,
+  notification_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = user_uuid AND notification_type = ANY(muted_notification_types)
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  VALUES (user_uuid, notification_type, notification_title, notification_body, notification_link, notification_data);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Clients must not be able to notify arbitrary users
+REVOKE EXECUTE ON FUNCTION create_notification FROM PUBLIC, anon, authenticated;
+
+-- Mark the caller's notifications read: the given ids, or all when NULL
+CREATE OR REPLACE FUNCTION mark_notifications_read(notification_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE notifications
+  SET read_at = NOW()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (notification_ids IS NULL OR id = ANY(notification_ids));
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PICK GRADING EVENTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION notify_pick_graded()
+RETURNS TRIGGER AS $$
+DECLARE
+  matchup TEXT;
+  selection TEXT;
+  streak RECORD;
+BEGIN
+  IF NEW.result IS NOT DISTINCT FROM OLD.result OR NEW.result NOT IN ('won', 'lost', 'push') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    away.short_name || ' @ ' || home.short_name,
+    CASE NEW.pick_type
+      WHEN 'total' THEN INITCAP(NEW.total_side) || ' ' || NEW.total_at_pick_time
+      WHEN 'moneyline' THEN picked.short_name || ' ML' || COALESCE(
+        ' ' || CASE WHEN NEW.odds_at_pick_time > 0 THEN '+' ELSE '' END || NEW.odds_at_pick_time, ''
+      )
+      ELSE picked.short_name || ' ' || CASE
+        WHEN NEW.spread_at_pick_time = 0 THEN 'PK'
+        WHEN NEW.spread_at_pick_time > 0 THEN '+' || NEW.spread_at_pick_time
+        ELSE NEW.spread_at_pick_time::TEXT
+      END
+    END
+  INTO matchup, selection
+  FROM games g
+  JOIN teams home ON home.id = g.home_team_id
+  JOIN teams away ON away.id = g.away_team_id
+  LEFT JOIN teams picked ON picked.id = NEW.picked_team_id
+  WHERE g.id = NEW.game_id;
+
+  IF NEW.is_pick_of_day AND NEW.result IN ('won', 'lost') THEN
+    PERFORM create_notification(
+      NEW.user_id,
+      'potd_result',
+      CASE NEW.result WHEN 'won' THEN 'Pick of the Day won!' ELSE 'Pick of the Day lost' END,
+      selection || ' (' || matchup || ')',
+      '/mypicks',
+      jsonb_build_object('pick_id', NEW.id, 'result', NEW.result)
+    );
+  ELSE
+    PERFORM create_notification(
+      NEW.user_id,
+      'pick_graded',
+      'Pick ' || CASE NEW.result WHEN 'won' THEN 'won' WHEN 'lost' THEN 'lost' ELSE 'pushed' END || ': ' || selection,
+      matchup,
+      '/mypicks',
+      jsonb_build_object('pick_id', NEW.id, 'result', NEW.result)
+    );
+  END IF;
+
+  -- Winning streaks against the spread: 3, 5, then every 5
+  IF NEW.pick_type = 'spread' AND NEW.result = 'won' THEN
+    SELECT * INTO streak FROM get_user_current_streak(NEW.user_id);
+
+    -- A user's picks graded in one statement all see the same final streak, so skip
+    -- a milestone that was just announced
+    IF streak.streak_type = 'won'
+      AND (streak.streak_count IN (3, 5) OR (streak.streak_count >= 10 AND streak.streak_count % 5 = 0))
+      AND NOT EXISTS (
+        SELECT 1 FROM notifications n
+        WHERE n.user_id = NEW.user_id
+          AND n.type = 'streak_milestone'
+          AND (n.data ->> 'count')::INTEGER = streak.streak_count
+          AND n.created_at > NOW() - INTERVAL '1 day'
+      )
+    THEN
+      PERFORM create_notification(
+        NEW.user_id,
+        'streak_milestone',
+        streak.streak_count || ' straight wins!',
+        'You''re on a ' || streak.streak_count || '-pick winning streak against the spread.',
+        '/metrics',
+        jsonb_build_object('count', streak.streak_count)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_notify_pick_graded
+  AFTER UPDATE OF result ON picks
+  FOR EACH ROW EXECUTE FUNCTION notify_pick_graded();
+
+-- ============================================================================
+-- RANKING EVENTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION notify_ranking_published()
+RETURNS TRIGGER AS $$
+DECLARE
+  author TEXT;
+  follower RECORD;
+BEGIN
+  IF NEW.published_at IS NULL OR (TG_OP = 'UPDATE' AND OLD.published_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT username INTO author FROM profiles WHERE id = NEW.user_id;
+
+  FOR follower IN
+    SELECT follower_id FROM user_follows WHERE followee_id = NEW.user_id
+  LOOP
+    PERFORM create_notification(
+      follower.follower_id,
+      'ranking_published',
+      '@' || COALESCE(author, 'someone') || ' published a ranking',
+      NEW.title || ' (Week ' || NEW.week || ')',
+      '/rankings',
+      jsonb_build_object('ranking_id', NEW.id, 'author_id', NEW.user_id)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_notify_ranking_published
+  AFTER INSERT OR UPDATE OF published_at ON user_rankings
+  FOR EACH ROW EXECUTE FUNCTION notify_ranking_published();
+
+-- ============================================================================
+-- BRACKET EVENTS
+-- ============================================================================
+
+-- bracket_picks.picks is keyed by game id: { "<game_id>": { "winner_team_id": ... } }
+CREATE OR REPLACE FUNCTION notify_bracket_busts()
+RETURNS TRIGGER AS $$
+DECLARE
+  winner_id UUID;
+  loser_id UUID;
+  winner_name TEXT;
+  loser_name TEXT;
+  bracket RECORD;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' OR NEW.tournament_id IS NULL
+    OR NEW.home_score IS NULL OR NEW.away_score IS NULL OR NEW.home_score = NEW.away_score THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.home_score > NEW.away_score THEN
+    winner_id := NEW.home_team_id;
+    loser_id := NEW.away_team_id;
+  ELSE
+    winner_id := NEW.away_team_id;
+    loser_id := NEW.home_team_id;
+  END IF;
+
+  SELECT short_name INTO winner_name FROM teams WHERE id = winner_id;
+  SELECT short_name INTO loser_name FROM teams WHERE id = loser_id;
+
+  FOR bracket IN
+    SELECT
+      bp.user_id,
+      bp.champion_team_id,
+      picked.short_name AS picked_name,
+      (bp.picks -> NEW.id::TEXT ->> 'winner_team_id')::UUID AS picked_team_id
+    FROM bracket_picks bp
+    LEFT JOIN teams picked ON picked.id = (bp.picks -> NEW.id::TEXT ->> 'winner_team_id')::UUID
+    WHERE bp.tournament_id = NEW.tournament_id
+      AND (bp.picks ? NEW.id::TEXT OR bp.champion_team_id = loser_id)
+  LOOP
+    CONTINUE WHEN bracket.picked_team_id = winner_id AND bracket.champion_team_id IS DISTINCT FROM loser_id;
+
+    PERFORM create_notification(
+      bracket.user_id,
+      'bracket_busted',
+      CASE WHEN bracket.champion_team_id = loser_id
+        THEN 'Your champion ' || loser_name || ' is out'
+        ELSE 'Bracket pick busted'
+      END,
+      CASE WHEN bracket.picked_team_id IS NOT NULL AND bracket.picked_team_id <> winner_id
+        THEN 'You had ' || COALESCE(bracket.picked_name, 'another team') || '; '
+        ELSE ''
+      END || winner_name || ' beat ' || loser_name || ' ' ||
+        GREATEST(NEW.home_score, NEW.away_score) || '-' || LEAST(NEW.home_score, NEW.away_score),
+      '/tournaments/' || NEW.tournament_id,
+      jsonb_build_object('game_id', NEW.id, 'tournament_id', NEW.tournament_id)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_notify_bracket_busts
+  AFTER UPDATE OF status ON games
+  FOR EACH ROW EXECUTE FUNCTION notify_bracket_busts();
+
+COMMENT ON TABLE notifications IS 'In-app notification inbox, written by triggers when picks, rankings and brackets change';
+COMMENT ON TABLE user_follows IS 'Who follows whom; followers are notified of new published rankings';
+COMMENT ON COLUMN notification_preferences.muted_notification_types IS 'Notification types the user has turned off in the inbox';
+COMMENT ON FUNCTION mark_notifications_read IS 'Marks the caller''s notifications read (given ids, or all when NULL)';
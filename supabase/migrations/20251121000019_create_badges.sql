@@ -0,0 +1,308 @@
+-- Migration: Achievement badges
+-- Purpose: Badges for milestones, awarded by a small rule engine in the database:
+--          - badges is the catalog; each badge names a rule and a threshold, so new tiers
+--            (a 15-game streak, 500 picks) are a row, not code
+--          - award_badges() evaluates every rule and inserts what's newly earned; it never
+--            revokes. It runs after grading (for users whose games just went final) and
+--            when a Stat Chain session completes
+--          - Repeatable badges (streaks, perfect POTD weeks, CLV months) are keyed by period
+--          - Earning a badge sends a badge_earned notification; the backfill below doesn't
+--          Streaks follow get_user_current_streak (spread picks, won/lost, by created_at);
+--          weeks follow the weekly metrics functions (Monday-Sunday).
+-- Rollback: DROP TRIGGER trg_award_stat_chain_badges ON stat_chain_sessions;
+--           DROP TRIGGER trg_notify_badge_earned ON user_badges;
+--           DROP FUNCTION award_stat_chain_badges, notify_badge_earned, award_badges;
+--           DROP TABLE user_badges, badges;
+--           restore grade_pick_results from 0012 and notifications_type_check from 0018
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE badges (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  rule TEXT NOT NULL CHECK (rule IN (
+    'spread_wins',
+    'cover_streak',
+    'graded_picks',
+    'potd_perfect_week',
+    'beat_the_close',
+    'stat_chain_perfect'
+  )),
+  threshold INTEGER NOT NULL DEFAULT 1,
+  repeatable BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE user_badges (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  badge_id TEXT NOT NULL REFERENCES badges(id) ON DELETE CASCADE,
+  -- '' for one-time badges; the streak's first pick, week start or month for repeatable ones
+  period TEXT NOT NULL DEFAULT '',
+  earned_on DATE NOT NULL,
+  context JSONB NOT NULL DEFAULT '{}'::jsonb,
+  awarded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, badge_id, period)
+);
+
+CREATE INDEX idx_user_badges_badge ON user_badges (badge_id);
+
+INSERT INTO badges (id, name, description, icon, rule, threshold, repeatable, sort_order) VALUES
+  ('first_cover', 'First Cover', 'Won your first pick against the spread', 'check', 'spread_wins', 1, false, 10),
+  ('cover_streak_5', 'Heating Up', 'Covered 5 straight picks against the spread', 'flame', 'cover_streak', 5, true, 20),
+  ('cover_streak_10', 'On Fire', 'Covered 10 straight picks against the spread', 'zap', 'cover_streak', 10, true, 30),
+  ('potd_perfect_week', 'Perfect Week', 'Won at least 5 Picks of the Day in a week without a loss', 'star', 'potd_perfect_week', 5, true, 40),
+  ('beat_the_close', 'Sharp Month', 'Beat the closing line on 60% of a month''s spread picks (20+ picks)', 'trending-up', 'beat_the_close', 60, true, 50),
+  ('stat_chain_perfect', 'Flawless Chain', 'Solved a Stat Chain puzzle without a mistake', 'link', 'stat_chain_perfect', 1, false, 60),
+  ('century', 'Century', 'Had 100 picks graded', 'medal', 'graded_picks', 100, false, 70),
+  ('graded_500', 'Lifer', 'Had 500 picks graded', 'trophy', 'graded_picks', 500, false, 80);
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+ALTER TABLE badges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_badges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view badges" ON badges
+  FOR SELECT USING (true);
+
+-- Badges are public: they're shown next to usernames. Only award_badges() writes them.
+CREATE POLICY "Anyone can view earned badges" ON user_badges
+  FOR SELECT USING (true);
+
+-- ============================================================================
+-- RULE ENGINE
+-- ============================================================================
+
+-- Awards every badge the given users (NULL = everyone) have earned but don't hold yet.
+-- Week and month badges are only awarded once the period is over (Eastern Time).
+CREATE OR REPLACE FUNCTION award_badges(user_uuids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  today DATE := (NOW() AT TIME ZONE 'America/New_York')::DATE;
+  awarded INTEGER := 0;
+  inserted INTEGER;
+BEGIN
+  -- spread_wins: the Nth spread pick won
+  INSERT INTO user_badges (user_id, badge_id, earned_on, context)
+  SELECT w.user_id, b.id, w.game_date_cache, jsonb_build_object('pick_id', w.id)
+  FROM badges b
+  JOIN (
+    SELECT p.id, p.user_id, p.game_date_cache,
+      ROW_NUMBER() OVER (PARTITION BY p.user_id ORDER BY p.created_at) AS n
+    FROM picks p
+    WHERE p.pick_type = 'spread'
+      AND p.result = 'won'
+      AND (user_uuids IS NULL OR p.user_id = ANY(user_uuids))
+  ) w ON w.n = b.threshold
+  WHERE b.rule = 'spread_wins'
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  awarded := awarded + inserted;
+
+  -- cover_streak: a run of N spread wins; each run counts once, keyed by its first pick
+  WITH results AS (
+    SELECT p.id, p.user_id, p.result, p.game_date_cache, p.created_at,
+      ROW_NUMBER() OVER (PARTITION BY p.user_id ORDER BY p.created_at)
+        - ROW_NUMBER() OVER (PARTITION BY p.user_id, p.result ORDER BY p.created_at) AS run_id
+    FROM picks p
+    WHERE p.pick_type = 'spread'
+      AND p.result IN ('won', 'lost')
+      AND (user_uuids IS NULL OR p.user_id = ANY(user_uuids))
+  ),
+  runs AS (
+    SELECT user_id, game_date_cache,
+      FIRST_VALUE(id) OVER w AS first_pick_id,
+      ROW_NUMBER() OVER w AS run_length
+    FROM results
+    WHERE result = 'won'
+    WINDOW w AS (PARTITION BY user_id, run_id ORDER BY created_at)
+  )
+  INSERT INTO user_badges (user_id, badge_id, period, earned_on, context)
+  SELECT r.user_id, b.id, r.first_pick_id::TEXT, r.game_date_cache,
+    jsonb_build_object('length', b.threshold)
+  FROM badges b
+  JOIN runs r ON r.run_length = b.threshold
+  WHERE b.rule = 'cover_streak'
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  awarded := awarded + inserted;
+
+  -- graded_picks: the Nth pick of any type graded won, lost or push
+  INSERT INTO user_badges (user_id, badge_id, earned_on, context)
+  SELECT g.user_id, b.id, g.game_date_cache, jsonb_build_object('count', b.threshold)
+  FROM badges b
+  JOIN (
+    SELECT p.user_id, p.game_date_cache,
+      ROW_NUMBER() OVER (PARTITION BY p.user_id ORDER BY p.game_date_cache, p.created_at) AS n
+    FROM picks p
+    WHERE p.result IN ('won', 'lost', 'push')
+      AND (user_uuids IS NULL OR p.user_id = ANY(user_uuids))
+  ) g ON g.n = b.threshold
+  WHERE b.rule = 'graded_picks'
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  awarded := awarded + inserted;
+
+  -- potd_perfect_week: at least N POTD wins in a finished week, no losses (pushes are fine)
+  INSERT INTO user_badges (user_id, badge_id, period, earned_on, context)
+  SELECT wk.user_id, b.id, wk.week_start::TEXT, wk.last_pick_date,
+    jsonb_build_object('wins', wk.wins)
+  FROM badges b
+  JOIN (
+    SELECT p.user_id,
+      DATE_TRUNC('week', p.game_date_cache)::DATE AS week_start,
+      MAX(p.game_date_cache) AS last_pick_date,
+      COUNT(*) FILTER (WHERE p.result = 'won') AS wins,
+      COUNT(*) FILTER (WHERE p.result NOT IN ('won', 'push')) AS misses
+    FROM picks p
+    WHERE p.is_pick_of_day = true
+      AND p.result <> 'void'
+      AND (user_uuids IS NULL OR p.user_id = ANY(user_uuids))
+    GROUP BY p.user_id, DATE_TRUNC('week', p.game_date_cache)
+  ) wk ON wk.wins >= b.threshold AND wk.misses = 0
+  WHERE b.rule = 'potd_perfect_week'
+    AND wk.week_start + 7 <= today
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  awarded := awarded + inserted;
+
+  -- beat_the_close: positive CLV on at least N% of a finished month's spread picks (20+ with a close)
+  INSERT INTO user_badges (user_id, badge_id, period, earned_on, context)
+  SELECT m.user_id, b.id, TO_CHAR(m.month_start, 'YYYY-MM'),
+    (m.month_start + INTERVAL '1 month - 1 day')::DATE,
+    jsonb_build_object('picks', m.picks, 'beat', m.beat)
+  FROM badges b
+  JOIN (
+    SELECT c.user_id,
+      DATE_TRUNC('month', p.game_date_cache)::DATE AS month_start,
+      COUNT(*) AS picks,
+      COUNT(*) FILTER (WHERE c.clv > 0) AS beat
+    FROM pick_clv c
+    JOIN picks p ON p.id = c.pick_id
+    WHERE user_uuids IS NULL OR c.user_id = ANY(user_uuids)
+    GROUP BY c.user_id, DATE_TRUNC('month', p.game_date_cache)
+  ) m ON m.picks >= 20 AND m.beat * 100 >= b.threshold * m.picks
+  WHERE b.rule = 'beat_the_close'
+    AND (m.month_start + INTERVAL '1 month')::DATE <= today
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  awarded := awarded + inserted;
+
+  -- stat_chain_perfect: the first puzzle completed with every group and no mistakes
+  INSERT INTO user_badges (user_id, badge_id, earned_on, context)
+  SELECT DISTINCT ON (s.user_id, b.id)
+    s.user_id, b.id, (s.completed_at AT TIME ZONE 'America/New_York')::DATE,
+    jsonb_build_object('puzzle_id', s.puzzle_id)
+  FROM badges b
+  JOIN stat_chain_sessions s ON s.completed_at IS NOT NULL AND s.mistakes = 0
+  WHERE b.rule = 'stat_chain_perfect'
+    AND (user_uuids IS NULL OR s.user_id = ANY(user_uuids))
+    AND cardinality(s.solved_groups) > 0
+    AND cardinality(s.solved_groups) >= (
+      SELECT COUNT(*) FROM stat_chain_groups g WHERE g.puzzle_id = s.puzzle_id
+    )
+  ORDER BY s.user_id, b.id, s.completed_at
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  awarded := awarded + inserted;
+
+  RETURN awarded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+REVOKE EXECUTE ON FUNCTION award_badges FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- AWARDING
+-- ============================================================================
+
+-- Grading checks badges for everyone whose games went final in the last two days, which
+-- also catches weeks and months that just ended. Anyone missed catches up on their next
+-- graded pick, since award_badges() looks at the whole history.
+CREATE OR REPLACE FUNCTION grade_pick_results()
+RETURNS void AS $$
+BEGIN
+  PERFORM update_pick_results();
+  PERFORM update_total_pick_results();
+  PERFORM update_moneyline_pick_results();
+  PERFORM void_pick_results();
+  PERFORM update_pick_units();
+  PERFORM award_badges(ARRAY(
+    SELECT DISTINCT p.user_id
+    FROM picks p
+    JOIN games g ON g.id = p.game_id
+    WHERE g.completed_at > NOW() - INTERVAL '2 days'
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION award_stat_chain_badges()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM award_badges(ARRAY[NEW.user_id]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_award_stat_chain_badges
+  AFTER UPDATE OF completed_at ON stat_chain_sessions
+  FOR EACH ROW
+  WHEN (OLD.completed_at IS NULL AND NEW.completed_at IS NOT NULL)
+  EXECUTE FUNCTION award_stat_chain_badges();
+
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+
+ALTER TABLE notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'pick_graded',
+  'potd_result',
+  'streak_milestone',
+  'ranking_published',
+  'bracket_busted',
+  'badge_earned'
+));
+
+CREATE OR REPLACE FUNCTION notify_badge_earned()
+RETURNS TRIGGER AS $$
+DECLARE
+  badge badges%ROWTYPE;
+BEGIN
+  SELECT * INTO badge FROM badges WHERE id = NEW.badge_id;
+
+  PERFORM create_notification(
+    NEW.user_id,
+    'badge_earned',
+    'Badge earned: ' || badge.name,
+    badge.description,
+    '/metrics',
+    jsonb_build_object('badge_id', NEW.badge_id, 'period', NEW.period)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_notify_badge_earned
+  AFTER INSERT ON user_badges
+  FOR EACH ROW EXECUTE FUNCTION notify_badge_earned();
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Award existing history quietly; nobody needs fifty notifications for old picks
+ALTER TABLE user_badges DISABLE TRIGGER trg_notify_badge_earned;
+SELECT award_badges();
+ALTER TABLE user_badges ENABLE TRIGGER trg_notify_badge_earned;
+
+COMMENT ON TABLE badges IS 'Badge catalog; rule and threshold drive award_badges()';
+COMMENT ON TABLE user_badges IS 'Badges each user has earned, one row per badge and period';
+COMMENT ON COLUMN user_badges.period IS 'Empty for one-time badges; streak start pick, week start or YYYY-MM for repeatable ones';
+COMMENT ON COLUMN user_badges.earned_on IS 'Slate date the badge was earned (not when it was awarded)';
+COMMENT ON FUNCTION award_badges IS 'Awards newly earned badges to the given users (NULL = all); returns how many were awarded';
@@ -0,0 +1,766 @@
+-- Migration: First-class seasons
+-- Purpose: "Current season" was computed ad hoc (month >= 8 ? year + 1 : year) in several
+--          places and no metrics function filtered by season, so all-time and current
+--          records were mixed together.
+--          - seasons: one row per season, keyed by the year it ends (2026 = 2025-26),
+--            matching team_stats.season and the scrapers
+--          - A date belongs to the season it falls in, or in the offseason to the next one
+--            (season_for_date); past the last seeded season it's the next one, or the
+--            Aug-Jul season if that is later
+--          - current_season_id() is the season today belongs to, and adds its row (with
+--            estimated dates) when the season hasn't been seeded yet
+--          - Every non-weekly metrics function takes season_year (NULL = all time)
+--          - user_rankings.season and fantasy_seasons now reference seasons
+--          - get_stat_chain_leaderboard() for per-season Stat Chain standings
+-- Rollback: DROP FUNCTION get_stat_chain_leaderboard, in_season, current_season_id, ensure_season,
+--           season_for_date, season_year_for_date;
+--           ALTER TABLE fantasy_seasons DROP COLUMN season_id;
+--           ALTER TABLE user_rankings DROP CONSTRAINT user_rankings_season_fkey;
+--           DROP VIEW season_date_ranges; DROP TABLE seasons;
+--           restore the metrics functions from their previous migrations (user_uuid only)
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE seasons (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date > start_date)
+);
+
+CREATE TRIGGER update_seasons_updated_at BEFORE UPDATE ON seasons
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Opening night through the national championship game
+INSERT INTO seasons (id, name, start_date, end_date) VALUES
+  (2024, '2023-24', '2023-11-06', '2024-04-08'),
+  (2025, '2024-25', '2024-11-04', '2025-04-07'),
+  (2026, '2025-26', '2025-11-03', '2026-04-06');
+
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view seasons" ON seasons
+  FOR SELECT USING (true);
+
+-- ============================================================================
+-- SEASON HELPERS
+-- ============================================================================
+
+-- The fallback for dates no seeded season covers: August through July, named for the
+-- year it ends
+CREATE OR REPLACE FUNCTION season_year_for_date(target_date DATE)
+RETURNS INTEGER AS $$
+  SELECT EXTRACT(YEAR FROM target_date)::INTEGER
+    + CASE WHEN EXTRACT(MONTH FROM target_date) >= 8 THEN 1 ELSE 0 END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The dates each season owns: from the day after the previous season ended through its
+-- own end, so offseason dates belong to the season that follows
+CREATE OR REPLACE VIEW season_date_ranges AS
+SELECT
+  s.id AS season_id,
+  COALESCE(LAG(s.end_date) OVER w + 1, '-infinity'::DATE) AS from_date,
+  s.end_date AS to_date
+FROM seasons s
+WINDOW w AS (ORDER BY s.start_date);
+
+-- After the last seeded season, the offseason still belongs to the next season; the
+-- Aug-Jul rule takes over once a date is past that, so no row owns every later date
+CREATE OR REPLACE FUNCTION season_for_date(target_date DATE)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(
+    (SELECT r.season_id FROM season_date_ranges r WHERE target_date BETWEEN r.from_date AND r.to_date),
+    GREATEST(
+      (SELECT MAX(s.id) + 1 FROM seasons s WHERE s.end_date < target_date),
+      season_year_for_date(target_date)
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Add a season that hasn't been seeded, with estimated dates: opening night on the first
+-- Monday of November, the title game on the first Monday on or after April 3. Correct
+-- the row once the schedule is out.
+CREATE OR REPLACE FUNCTION ensure_season(season_year INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  nov_first DATE := make_date(season_year - 1, 11, 1);
+  apr_third DATE := make_date(season_year, 4, 3);
+BEGIN
+  INSERT INTO seasons (id, name, start_date, end_date)
+  VALUES (
+    season_year,
+    (season_year - 1) || '-' || RIGHT(season_year::TEXT, 2),
+    nov_first + ((8 - EXTRACT(ISODOW FROM nov_first)::INTEGER) % 7),
+    apr_third + ((8 - EXTRACT(ISODOW FROM apr_third)::INTEGER) % 7)
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN season_year;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only current_season_id (and the migration) add seasons; callers can't pick the year
+REVOKE EXECUTE ON FUNCTION ensure_season FROM PUBLIC, anon, authenticated;
+
+-- Volatile because it may add the season's row, so pages and scrapers always find it
+CREATE OR REPLACE FUNCTION current_season_id()
+RETURNS INTEGER AS $$
+  SELECT ensure_season(season_for_date((NOW() AT TIME ZONE 'America/New_York')::DATE));
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Metrics filter: NULL season_year means all time
+CREATE OR REPLACE FUNCTION in_season(target_date DATE, season_year INTEGER)
+RETURNS BOOLEAN AS $$
+  SELECT season_year IS NULL OR season_for_date(target_date) = season_year;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- RANKINGS AND FANTASY
+-- ============================================================================
+
+-- Rankings were saved with the season's starting year (2025 for 2025-26); re-derive the
+-- season from when each ranking was created
+-- Seasons with no seeded row (rankings or fantasy seasons from after 2025-26) get one
+-- before the foreign keys go on
+SELECT ensure_season(season_id)
+FROM (
+  SELECT season_for_date((created_at AT TIME ZONE 'America/New_York')::DATE) AS season_id FROM user_rankings
+  UNION
+  SELECT season_for_date(start_date) FROM fantasy_seasons
+) referenced;
+
+UPDATE user_rankings
+SET season = season_for_date((created_at AT TIME ZONE 'America/New_York')::DATE)
+WHERE season IS DISTINCT FROM season_for_date((created_at AT TIME ZONE 'America/New_York')::DATE);
+
+ALTER TABLE user_rankings
+  ADD CONSTRAINT user_rankings_season_fkey FOREIGN KEY (season) REFERENCES seasons(id);
+
+ALTER TABLE fantasy_seasons ADD COLUMN season_id INTEGER REFERENCES seasons(id);
+
+UPDATE fantasy_seasons SET season_id = season_for_date(start_date);
+
+-- ============================================================================
+-- CLV VIEW
+-- ============================================================================
+
+-- Same as 0011 plus the pick's slate date, so CLV can be filtered by season
+CREATE OR REPLACE VIEW pick_clv WITH (security_invoker = true) AS
+SELECT
+  p.id AS pick_id,
+  p.user_id,
+  p.game_id,
+  g.conference_id,
+  p.spread_at_pick_time,
+  closing_line_for_team(p.picked_team_id, g.closing_spread, g.closing_favorite_team_id) AS closing_line,
+  p.spread_at_pick_time
+    - closing_line_for_team(p.picked_team_id, g.closing_spread, g.closing_favorite_team_id) AS clv,
+  p.game_date_cache
+FROM picks p
+JOIN games g ON p.game_id = g.id
+WHERE p.pick_type = 'spread'
+  AND p.result <> 'void'
+  AND g.closing_captured_at IS NOT NULL;
+
+-- ============================================================================
+-- SPREAD METRICS
+-- ============================================================================
+-- Adding a parameter creates a new overload, so the old signatures are dropped first;
+-- otherwise calls passing only user_uuid would be ambiguous.
+
+DROP FUNCTION get_user_overall_stats(UUID);
+CREATE FUNCTION get_user_overall_stats(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM picks
+  WHERE user_id = user_uuid AND result IS NOT NULL AND pick_type = 'spread'
+    AND in_season(game_date_cache, season_year);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_user_conference_stats(UUID);
+CREATE FUNCTION get_user_conference_stats(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  conference_id UUID,
+  conference_name TEXT,
+  conference_short_name TEXT,
+  is_power_conference BOOLEAN,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.name,
+    c.short_name,
+    c.is_power_conference,
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses,
+    ROUND(
+      COUNT(*) FILTER (WHERE p.result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE p.result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM picks p
+  JOIN games g ON p.game_id = g.id
+  JOIN conferences c ON g.conference_id = c.id
+  WHERE p.user_id = user_uuid
+    AND p.result IS NOT NULL
+    AND p.pick_type = 'spread'
+    AND in_season(p.game_date_cache, season_year)
+  GROUP BY c.id, c.name, c.short_name, c.is_power_conference
+  ORDER BY total_picks DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- For a past season, the streak the user finished it on
+DROP FUNCTION get_user_current_streak(UUID);
+CREATE FUNCTION get_user_current_streak(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  streak_type pick_result,
+  streak_count INTEGER
+) AS $$
+DECLARE
+  latest_result pick_result;
+  current_streak INT := 0;
+BEGIN
+  -- Get the most recent result
+  SELECT result INTO latest_result
+  FROM picks
+  WHERE user_id = user_uuid AND result IN ('won', 'lost') AND pick_type = 'spread'
+    AND in_season(game_date_cache, season_year)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  -- If no picks found, return null
+  IF latest_result IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Count consecutive results of the same type
+  WITH ordered_picks AS (
+    SELECT
+      result,
+      created_at,
+      ROW_NUMBER() OVER (ORDER BY created_at DESC) as rn
+    FROM picks
+    WHERE user_id = user_uuid AND result IN ('won', 'lost') AND pick_type = 'spread'
+      AND in_season(game_date_cache, season_year)
+  )
+  SELECT COUNT(*)::INTEGER INTO current_streak
+  FROM ordered_picks
+  WHERE result = latest_result
+    AND rn <= (
+      SELECT COALESCE(MIN(rn), 0)
+      FROM ordered_picks
+      WHERE result != latest_result
+    );
+
+  -- If no break in streak found, count all matching picks
+  IF current_streak = 0 THEN
+    SELECT COUNT(*)::INTEGER INTO current_streak
+    FROM picks
+    WHERE user_id = user_uuid AND result = latest_result AND pick_type = 'spread'
+      AND in_season(game_date_cache, season_year);
+  END IF;
+
+  RETURN QUERY SELECT latest_result, current_streak;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_all_users_overall_stats();
+CREATE FUNCTION get_all_users_overall_stats(season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pr.id as user_id,
+    pr.username,
+    COUNT(p.id) as total_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE p.result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE p.result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE p.result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM profiles pr
+  LEFT JOIN picks p ON pr.id = p.user_id AND p.pick_type = 'spread'
+    AND in_season(p.game_date_cache, season_year)
+  GROUP BY pr.id, pr.username
+  HAVING COUNT(p.id) > 0
+  ORDER BY win_rate DESC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_league_users_overall_stats(UUID);
+CREATE FUNCTION get_league_users_overall_stats(league_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_league_member(league_uuid) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pr.id as user_id,
+    pr.username,
+    COUNT(p.id) as total_picks,
+    COUNT(*) FILTER (WHERE p.result = 'won') as wins,
+    COUNT(*) FILTER (WHERE p.result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE p.result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE p.result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE p.result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate
+  FROM league_members lm
+  JOIN profiles pr ON pr.id = lm.user_id
+  LEFT JOIN picks p ON pr.id = p.user_id AND p.pick_type = 'spread'
+    AND in_season(p.game_date_cache, season_year)
+  WHERE lm.league_id = league_uuid
+  GROUP BY pr.id, pr.username
+  HAVING COUNT(p.id) > 0
+  ORDER BY win_rate DESC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PICK OF THE DAY METRICS
+-- ============================================================================
+
+DROP FUNCTION get_user_potd_stats(UUID);
+CREATE FUNCTION get_user_potd_stats(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  total_potd BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC(5, 2)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*)::BIGINT as total_potd,
+    COUNT(*) FILTER (WHERE result = 'won')::BIGINT as wins,
+    COUNT(*) FILTER (WHERE result = 'lost')::BIGINT as losses,
+    COUNT(*) FILTER (WHERE result = 'push')::BIGINT as pushes,
+    CASE
+      WHEN COUNT(*) FILTER (WHERE result IN ('won', 'lost')) = 0 THEN 0
+      ELSE ROUND(
+        COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+        COUNT(*) FILTER (WHERE result IN ('won', 'lost'))::NUMERIC * 100,
+        2
+      )
+    END as win_rate
+  FROM picks
+  WHERE user_id = user_uuid
+    AND is_pick_of_day = true
+    AND result != 'pending'
+    AND in_season(game_date_cache, season_year);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_user_potd_streak(UUID);
+CREATE FUNCTION get_user_potd_streak(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  streak_type pick_result,
+  streak_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ordered_potd AS (
+    SELECT
+      result,
+      locked_at,
+      ROW_NUMBER() OVER (ORDER BY locked_at DESC) as rn,
+      result = LAG(result) OVER (ORDER BY locked_at DESC) as is_same
+    FROM picks
+    WHERE user_id = user_uuid
+      AND is_pick_of_day = true
+      AND result IN ('won', 'lost')
+      AND locked_at IS NOT NULL
+      AND in_season(game_date_cache, season_year)
+    ORDER BY locked_at DESC
+  ),
+  streak_calc AS (
+    SELECT
+      result,
+      COUNT(*) as count
+    FROM ordered_potd
+    WHERE rn = 1 OR is_same = true
+    GROUP BY result
+    LIMIT 1
+  )
+  SELECT
+    result as streak_type,
+    COALESCE(count::INTEGER, 0) as streak_count
+  FROM streak_calc;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_user_potd_comparison(UUID);
+CREATE FUNCTION get_user_potd_comparison(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  pick_type TEXT,
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC(5, 2)
+) AS $$
+BEGIN
+  RETURN QUERY
+  -- POTD stats
+  SELECT
+    'Pick of the Day'::TEXT as pick_type,
+    COUNT(*)::BIGINT as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won')::BIGINT as wins,
+    COUNT(*) FILTER (WHERE result = 'lost')::BIGINT as losses,
+    COUNT(*) FILTER (WHERE result = 'push')::BIGINT as pushes,
+    CASE
+      WHEN COUNT(*) FILTER (WHERE result IN ('won', 'lost')) = 0 THEN 0
+      ELSE ROUND(
+        COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+        COUNT(*) FILTER (WHERE result IN ('won', 'lost'))::NUMERIC * 100,
+        2
+      )
+    END as win_rate
+  FROM picks
+  WHERE user_id = user_uuid
+    AND is_pick_of_day = true
+    AND result != 'pending'
+    AND in_season(game_date_cache, season_year)
+
+  UNION ALL
+
+  -- Regular picks stats
+  SELECT
+    'Regular Picks'::TEXT as pick_type,
+    COUNT(*)::BIGINT as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won')::BIGINT as wins,
+    COUNT(*) FILTER (WHERE result = 'lost')::BIGINT as losses,
+    COUNT(*) FILTER (WHERE result = 'push')::BIGINT as pushes,
+    CASE
+      WHEN COUNT(*) FILTER (WHERE result IN ('won', 'lost')) = 0 THEN 0
+      ELSE ROUND(
+        COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+        COUNT(*) FILTER (WHERE result IN ('won', 'lost'))::NUMERIC * 100,
+        2
+      )
+    END as win_rate
+  FROM picks
+  WHERE user_id = user_uuid
+    AND is_pick_of_day = false
+    AND result != 'pending'
+    AND in_season(game_date_cache, season_year)
+  ORDER BY pick_type DESC; -- POTD first, Regular second
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- TOTALS AND MONEYLINE METRICS
+-- ============================================================================
+
+DROP FUNCTION get_user_totals_stats(UUID);
+CREATE FUNCTION get_user_totals_stats(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  over_picks BIGINT,
+  over_wins BIGINT,
+  under_picks BIGINT,
+  under_wins BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    COUNT(*) FILTER (WHERE total_side = 'over') as over_picks,
+    COUNT(*) FILTER (WHERE total_side = 'over' AND result = 'won') as over_wins,
+    COUNT(*) FILTER (WHERE total_side = 'under') as under_picks,
+    COUNT(*) FILTER (WHERE total_side = 'under' AND result = 'won') as under_wins
+  FROM picks
+  WHERE user_id = user_uuid AND result IS NOT NULL AND pick_type = 'total'
+    AND in_season(game_date_cache, season_year);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_user_moneyline_stats(UUID);
+CREATE FUNCTION get_user_moneyline_stats(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  total_picks BIGINT,
+  wins BIGINT,
+  losses BIGINT,
+  pushes BIGINT,
+  win_rate NUMERIC,
+  units NUMERIC,
+  roi NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as total_picks,
+    COUNT(*) FILTER (WHERE result = 'won') as wins,
+    COUNT(*) FILTER (WHERE result = 'lost') as losses,
+    COUNT(*) FILTER (WHERE result = 'push') as pushes,
+    ROUND(
+      COUNT(*) FILTER (WHERE result = 'won')::NUMERIC /
+      NULLIF(COUNT(*) FILTER (WHERE result IN ('won', 'lost')), 0) * 100,
+      2
+    ) as win_rate,
+    ROUND(COALESCE(SUM(units_result), 0), 2) as units,
+    ROUND(
+      SUM(units_result) /
+      NULLIF(SUM(stake) FILTER (WHERE result IN ('won', 'lost', 'push')), 0) * 100,
+      2
+    ) as roi
+  FROM picks
+  WHERE user_id = user_uuid AND result IS NOT NULL AND pick_type = 'moneyline'
+    AND in_season(game_date_cache, season_year);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- CLV, VOIDS AND BANKROLL
+-- ============================================================================
+
+DROP FUNCTION get_user_clv_stats(UUID);
+CREATE FUNCTION get_user_clv_stats(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  picks_with_close BIGINT,
+  avg_clv NUMERIC,
+  beat_close_pct NUMERIC,
+  matched_close_pct NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as picks_with_close,
+    ROUND(AVG(c.clv), 2) as avg_clv,
+    ROUND(COUNT(*) FILTER (WHERE c.clv > 0)::NUMERIC / NULLIF(COUNT(*), 0) * 100, 2) as beat_close_pct,
+    ROUND(COUNT(*) FILTER (WHERE c.clv = 0)::NUMERIC / NULLIF(COUNT(*), 0) * 100, 2) as matched_close_pct
+  FROM pick_clv c
+  WHERE c.user_id = user_uuid
+    AND in_season(c.game_date_cache, season_year);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_user_conference_clv_stats(UUID);
+CREATE FUNCTION get_user_conference_clv_stats(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  conference_id UUID,
+  conference_name TEXT,
+  conference_short_name TEXT,
+  is_power_conference BOOLEAN,
+  picks_with_close BIGINT,
+  avg_clv NUMERIC,
+  beat_close_pct NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    conf.id,
+    conf.name,
+    conf.short_name,
+    conf.is_power_conference,
+    COUNT(*) as picks_with_close,
+    ROUND(AVG(c.clv), 2) as avg_clv,
+    ROUND(COUNT(*) FILTER (WHERE c.clv > 0)::NUMERIC / NULLIF(COUNT(*), 0) * 100, 2) as beat_close_pct
+  FROM pick_clv c
+  JOIN conferences conf ON c.conference_id = conf.id
+  WHERE c.user_id = user_uuid
+    AND in_season(c.game_date_cache, season_year)
+  GROUP BY conf.id, conf.name, conf.short_name, conf.is_power_conference
+  ORDER BY picks_with_close DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_user_void_counts(UUID);
+CREATE FUNCTION get_user_void_counts(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  pick_type TEXT,
+  voided BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT p.pick_type, COUNT(*) as voided
+  FROM picks p
+  WHERE p.user_id = user_uuid
+    AND p.result = 'void'
+    AND in_season(p.game_date_cache, season_year)
+  GROUP BY p.pick_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_user_bankroll_stats(UUID);
+CREATE FUNCTION get_user_bankroll_stats(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  graded_picks BIGINT,
+  units_staked NUMERIC,
+  units_net NUMERIC,
+  roi NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) as graded_picks,
+    COALESCE(SUM(stake), 0) as units_staked,
+    ROUND(COALESCE(SUM(units_result), 0), 2) as units_net,
+    ROUND(SUM(units_result) / NULLIF(SUM(stake), 0) * 100, 2) as roi
+  FROM picks
+  WHERE user_id = user_uuid
+    AND result IN ('won', 'lost', 'push')
+    AND units_result IS NOT NULL
+    AND in_season(game_date_cache, season_year);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION get_user_bankroll_history(UUID);
+CREATE FUNCTION get_user_bankroll_history(user_uuid UUID, season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  day DATE,
+  units NUMERIC,
+  cumulative_units NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    daily.day,
+    daily.units,
+    SUM(daily.units) OVER (ORDER BY daily.day) as cumulative_units
+  FROM (
+    SELECT
+      game_date_cache as day,
+      ROUND(SUM(units_result), 2) as units
+    FROM picks
+    WHERE user_id = user_uuid
+      AND result IN ('won', 'lost', 'push')
+      AND units_result IS NOT NULL
+      AND in_season(game_date_cache, season_year)
+    GROUP BY game_date_cache
+  ) daily
+  ORDER BY daily.day;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- STAT CHAIN
+-- ============================================================================
+
+-- Sessions are private, so standings are aggregated here; a solve is all groups found
+CREATE OR REPLACE FUNCTION get_stat_chain_leaderboard(season_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  played BIGINT,
+  solved BIGINT,
+  perfect BIGINT,
+  avg_mistakes NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH finished AS (
+    SELECT
+      s.user_id,
+      s.mistakes,
+      cardinality(s.solved_groups) >= (
+        SELECT COUNT(*) FROM stat_chain_groups g WHERE g.puzzle_id = s.puzzle_id
+      ) AS is_solved
+    FROM stat_chain_sessions s
+    JOIN stat_chain_puzzles pz ON pz.id = s.puzzle_id
+    WHERE s.completed_at IS NOT NULL
+      AND in_season(pz.puzzle_date, season_year)
+  )
+  SELECT
+    f.user_id,
+    pr.username,
+    COUNT(*) as played,
+    COUNT(*) FILTER (WHERE f.is_solved) as solved,
+    COUNT(*) FILTER (WHERE f.is_solved AND f.mistakes = 0) as perfect,
+    ROUND(AVG(f.mistakes), 2) as avg_mistakes
+  FROM finished f
+  JOIN profiles pr ON pr.id = f.user_id
+  GROUP BY f.user_id, pr.username
+  ORDER BY
+    COUNT(*) FILTER (WHERE f.is_solved) DESC,
+    COUNT(*) FILTER (WHERE f.is_solved AND f.mistakes = 0) DESC,
+    AVG(f.mistakes) ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE seasons IS 'College basketball seasons, keyed by the year the season ends (2026 = 2025-26)';
+COMMENT ON VIEW season_date_ranges IS 'Dates owned by each season, including the offseason before it';
+COMMENT ON FUNCTION season_year_for_date IS 'Aug-Jul season year for a date, used past the last seeded season';
+COMMENT ON FUNCTION season_for_date IS 'Season a date belongs to; offseason dates belong to the next season';
+COMMENT ON FUNCTION ensure_season IS 'Adds a season with estimated opening-night and title-game dates if it is missing';
+COMMENT ON FUNCTION current_season_id IS 'Season today (Eastern Time) belongs to, added to seasons if missing';
+COMMENT ON FUNCTION in_season IS 'Whether a date belongs to a season; always true when the season is NULL';
+COMMENT ON COLUMN fantasy_seasons.season_id IS 'The college basketball season this fantasy season is played in';
+COMMENT ON FUNCTION get_user_overall_stats IS 'Spread record for a user in a season (NULL = all time)';
+COMMENT ON FUNCTION get_all_users_overall_stats IS 'Spread records for every user in a season (NULL = all time)';
+COMMENT ON FUNCTION get_league_users_overall_stats IS 'Spread records for every member of a league in a season (caller must be a member)';
+COMMENT ON FUNCTION get_user_potd_stats IS 'Returns statistics for user''s Pick of the Day picks in a season';
+COMMENT ON FUNCTION get_user_potd_streak IS 'Returns current (or season-ending) streak for Pick of the Day picks';
+COMMENT ON FUNCTION get_user_potd_comparison IS 'Compares performance between Pick of the Day and regular picks';
+COMMENT ON FUNCTION get_user_totals_stats IS 'Win/loss/push record for a user''s over/under picks';
+COMMENT ON FUNCTION get_user_moneyline_stats IS 'Moneyline record plus stake-weighted profit in units and ROI (units per unit staked)';
+COMMENT ON FUNCTION get_user_clv_stats IS 'Average CLV and share of picks that beat the closing line';
+COMMENT ON FUNCTION get_user_void_counts IS 'Number of voided picks per pick type for a user';
+COMMENT ON FUNCTION get_user_bankroll_stats IS 'Units staked, net units and ROI across all graded picks';
+COMMENT ON FUNCTION get_user_bankroll_history IS 'Daily net units and running bankroll by game date';
+COMMENT ON FUNCTION get_stat_chain_leaderboard IS 'Stat Chain puzzles played, solved and solved without a mistake, per user, in a season';
@@ -0,0 +1,132 @@
+-- Migration: Per-user timezone
+-- Purpose: Slates, tip times and the Pick of the Day "day" were all Eastern Time, so
+--          West Coast users saw late games on the next day and couldn't make them their POTD.
+--          - profiles.timezone (IANA name, default America/New_York)
+--          - maintain_pick_game_date_cache() buckets picks by the picker's timezone
+--          - Reminder emails show tip times in the recipient's timezone
+--          - Changing timezone re-buckets picks on games that haven't tipped; played days
+--            keep the date they were picked on. If that would put two POTDs (or two
+--            confidence values) on one day the change is rejected.
+--          Existing profiles get the default, so existing picks keep their dates.
+-- Rollback: DROP TRIGGER trg_rebucket_picks_for_timezone ON profiles;
+--           DROP FUNCTION rebucket_picks_for_timezone, user_timezone, is_valid_timezone;
+--           restore get_notification_recipients() from 20251121000017
+--           ALTER TABLE profiles DROP COLUMN timezone;
+--           restore maintain_pick_game_date_cache() from 20251104000002
+
+-- ============================================================================
+-- PROFILES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(tz TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE profiles
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'America/New_York'
+    CONSTRAINT profiles_timezone_check CHECK (is_valid_timezone(timezone));
+
+CREATE OR REPLACE FUNCTION user_timezone(user_uuid UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT timezone FROM profiles WHERE id = user_uuid),
+    'America/New_York'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- PICK DAY BUCKETING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION maintain_pick_game_date_cache()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- The game's date in the picker's timezone, matching their slate
+  SELECT DATE(game_date AT TIME ZONE user_timezone(NEW.user_id)) INTO NEW.game_date_cache
+  FROM games WHERE id = NEW.game_id;
+
+  -- Ensure we found the game
+  IF NEW.game_date_cache IS NULL THEN
+    RAISE EXCEPTION 'Cannot find game_date for game_id %', NEW.game_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rebucket_picks_for_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE picks p
+  SET game_date_cache = DATE(g.game_date AT TIME ZONE NEW.timezone)
+  FROM games g
+  WHERE g.id = p.game_id
+    AND p.user_id = NEW.id
+    AND NOT game_is_locked(g.id)
+    AND p.game_date_cache IS DISTINCT FROM DATE(g.game_date AT TIME ZONE NEW.timezone);
+
+  RETURN NEW;
+EXCEPTION WHEN unique_violation THEN
+  RAISE EXCEPTION 'Two of your picks of the day or confidence values would fall on the same day in %', NEW.timezone
+    USING ERRCODE = 'unique_violation',
+          HINT = 'Change one of them before switching timezone';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trg_rebucket_picks_for_timezone
+  AFTER UPDATE OF timezone ON profiles
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION rebucket_picks_for_timezone();
+
+-- ============================================================================
+-- EMAIL RECIPIENTS
+-- ============================================================================
+
+-- Adds the recipient's timezone for tip times in reminder emails
+DROP FUNCTION get_notification_recipients(TEXT);
+
+CREATE FUNCTION get_notification_recipients(notification_kind TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  username TEXT,
+  timezone TEXT
+) AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the service role can list notification recipients';
+  END IF;
+
+  RETURN QUERY
+  SELECT np.user_id, u.email::TEXT, p.username, p.timezone
+  FROM notification_preferences np
+  JOIN auth.users u ON u.id = np.user_id
+  JOIN profiles p ON p.id = np.user_id
+  WHERE u.email IS NOT NULL
+    AND CASE notification_kind
+      WHEN 'pick_reminder' THEN np.pick_reminders
+      WHEN 'results_digest' THEN np.results_digest
+      ELSE false
+    END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Everyone starts on the default, so this only touches picks whose cache drifted
+UPDATE picks p
+SET game_date_cache = DATE(g.game_date AT TIME ZONE user_timezone(p.user_id))
+FROM games g
+WHERE g.id = p.game_id
+  AND p.game_date_cache IS DISTINCT FROM DATE(g.game_date AT TIME ZONE user_timezone(p.user_id));
+
+COMMENT ON COLUMN profiles.timezone IS 'IANA timezone for the user''s slates, tip times and Pick of the Day day';
+COMMENT ON FUNCTION user_timezone IS 'A user''s timezone, America/New_York when they have no profile';
+COMMENT ON FUNCTION maintain_pick_game_date_cache() IS 'Maintains game_date_cache as the game''s date in the picker''s timezone';
+COMMENT ON FUNCTION rebucket_picks_for_timezone IS 'Moves picks on unplayed games to their day in the user''s new timezone';
+COMMENT ON FUNCTION get_notification_recipients IS 'Service-role only: opted-in users with their email and timezone for a notification kind';
+COMMENT ON COLUMN picks.game_date_cache IS 'Game date in the picker''s timezone, for POTD and slate lookups (maintained by trigger)';
@@ -0,0 +1,9 @@
+-- Migration: Realtime game scores
+-- Purpose: Scores only reached users when they reloaded the slate after the
+--          update-scores cron ran. Publishing games to Supabase Realtime lets the
+--          slate subscribe to score and status updates (app/hooks/useLiveGames.ts).
+--          games is readable by everyone, so the existing RLS policy covers the
+--          change feed too.
+-- Rollback: ALTER PUBLICATION supabase_realtime DROP TABLE games;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE games;
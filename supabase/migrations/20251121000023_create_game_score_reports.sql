@@ -0,0 +1,43 @@
+-- Migration: Multi-provider scores
+-- Purpose: Scores came only from The Odds API, polled every 30 minutes in a fixed
+--          window to fit its monthly quota, so late tips and early-season games could
+--          sit ungraded for hours. update-scores now asks several providers
+--          (lib/scores: The Odds API, ESPN's scoreboard, NCAA.com) and reconciles them.
+--          - game_score_reports: the latest report from each provider for a game, kept
+--            so disagreements can be audited
+--          - games.score_provider / score_finalized_at: which provider's final score the
+--            game was graded on, and when
+-- Rollback: DROP TABLE game_score_reports;
+--           ALTER TABLE games DROP COLUMN score_provider, DROP COLUMN score_finalized_at;
+
+-- ============================================================================
+-- GAMES
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN score_provider TEXT CHECK (score_provider IN ('odds_api', 'espn', 'ncaa')),
+  ADD COLUMN score_finalized_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- PROVIDER REPORTS
+-- ============================================================================
+
+CREATE TABLE game_score_reports (
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('odds_api', 'espn', 'ncaa')),
+  provider_event_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('scheduled', 'in_progress', 'completed', 'postponed', 'cancelled')),
+  home_score INTEGER,
+  away_score INTEGER,
+  reported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (game_id, provider)
+);
+
+ALTER TABLE game_score_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view game score reports" ON game_score_reports
+  FOR SELECT USING (true);
+
+COMMENT ON TABLE game_score_reports IS 'Latest score each provider reported for a game (written by update-scores with the service role)';
+COMMENT ON COLUMN games.score_provider IS 'Provider whose final score the game was graded on; NULL for games finalized before providers were tracked';
+COMMENT ON COLUMN games.score_finalized_at IS 'When update-scores first marked the game completed';
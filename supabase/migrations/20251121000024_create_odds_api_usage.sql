@@ -0,0 +1,37 @@
+-- Migration: Odds API quota tracking
+-- Purpose: The Odds API's monthly call budget was managed only by a hand-tuned cron
+--          expression in update-scores. Every call from scrape-games and update-scores
+--          now records the quota headers the API returns (x-requests-used,
+--          x-requests-remaining, x-requests-last) so lib/odds-api/quota.ts can pace
+--          polling against what is actually left, and /admin/pipeline can chart it.
+-- Rollback: DROP TABLE odds_api_usage;
+
+-- ============================================================================
+-- USAGE
+-- ============================================================================
+
+CREATE TABLE odds_api_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  called_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  caller TEXT NOT NULL CHECK (caller IN ('scrape-games', 'update-scores')),
+  endpoint TEXT NOT NULL,
+  status_code INTEGER NOT NULL,
+
+  -- Quota headers; NULL when the API didn't send them (e.g. network errors upstream)
+  requests_used INTEGER,
+  requests_remaining INTEGER,
+  request_cost INTEGER
+);
+
+CREATE INDEX idx_odds_api_usage_called_at ON odds_api_usage(called_at DESC);
+CREATE INDEX idx_odds_api_usage_caller ON odds_api_usage(caller, called_at DESC);
+
+ALTER TABLE odds_api_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view odds api usage" ON odds_api_usage
+  FOR SELECT USING (true);
+
+COMMENT ON TABLE odds_api_usage IS 'One row per Odds API call with the quota headers it returned (written by inngest functions with the service role)';
+COMMENT ON COLUMN odds_api_usage.requests_used IS 'x-requests-used: credits used this month, after this call';
+COMMENT ON COLUMN odds_api_usage.requests_remaining IS 'x-requests-remaining: credits left this month, after this call';
+COMMENT ON COLUMN odds_api_usage.request_cost IS 'x-requests-last: credits this call cost';
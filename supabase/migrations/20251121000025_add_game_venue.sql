@@ -0,0 +1,39 @@
+-- Migration: Game venue and neutral site
+-- Purpose: ESPN reports a venue and a neutralSite flag for every game, but games had
+--          nowhere to keep them, so every matchup was treated as home/away. That is
+--          wrong for multi-team events and all of March: the "home" team in an NCAA
+--          tournament game is just the better seed. Ingestion (scrape-games via ESPN's
+--          scoreboard, the tournament importers and the bracket builder) now fills these,
+--          and the slate, analytics and matchup analysis read them.
+-- Rollback: ALTER TABLE games DROP COLUMN venue, DROP COLUMN neutral_site;
+
+-- ============================================================================
+-- GAMES
+-- ============================================================================
+
+ALTER TABLE games
+  ADD COLUMN venue TEXT,
+  ADD COLUMN neutral_site BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- NCAA tournament games are always at neutral sites
+UPDATE games g
+SET neutral_site = true
+FROM tournaments t
+WHERE g.tournament_id = t.id
+  AND t.type = 'ncaa';
+
+-- MTEs and conference tournaments with a single location were played there
+UPDATE games g
+SET neutral_site = true,
+    venue = COALESCE(g.venue, t.location)
+FROM tournaments t
+WHERE g.tournament_id = t.id
+  AND t.type IN ('mte', 'conference')
+  AND t.location IS NOT NULL;
+
+COMMENT ON COLUMN games.venue IS 'Arena name as reported by ESPN, or the tournament location for bracket-builder games';
+COMMENT ON COLUMN games.neutral_site IS 'Neither team is at home; home/away are listing order only';
@@ -0,0 +1,117 @@
+-- Migration: Conference-game detection
+-- Purpose: scrape-games set games.conference_id to the home team's conference, so every
+--          non-conference game was credited to the home team's league. That skewed
+--          get_user_conference_stats (and the weekly and CLV breakdowns built the same way),
+--          the power/mid-major filters and /metrics.
+--          - Non-conference games now point at one of three bucket rows in conferences
+--            (conferences.nonconference_matchup): Power vs Power, Power vs Mid-Major,
+--            Mid-Major vs Mid-Major. Every existing breakdown joins games.conference_id,
+--            so they pick the buckets up unchanged.
+--          - A bucket's is_power_conference means "a power-conference team is playing",
+--            so the power and mid-major filters split the slate cleanly.
+--          - games.is_conference_game, and a trigger that classifies every game from both
+--            teams' conferences, whichever path inserted it.
+--          Existing games are reclassified from the teams' current conferences.
+-- Rollback: DROP TRIGGER trg_classify_game_conference ON games;
+--           DROP FUNCTION classify_game_conference, game_conference;
+--           ALTER TABLE games DROP COLUMN is_conference_game;
+--           UPDATE games g SET conference_id = t.conference_id FROM teams t WHERE t.id = g.home_team_id;
+--           DELETE FROM conferences WHERE nonconference_matchup IS NOT NULL;
+--           ALTER TABLE conferences DROP COLUMN nonconference_matchup;
+
+-- ============================================================================
+-- NON-CONFERENCE BUCKETS
+-- ============================================================================
+
+ALTER TABLE conferences
+  ADD COLUMN nonconference_matchup TEXT UNIQUE
+    CHECK (nonconference_matchup IN ('power_vs_power', 'power_vs_mid_major', 'mid_major_vs_mid_major'));
+
+INSERT INTO conferences (name, short_name, is_power_conference, nonconference_matchup) VALUES
+  ('Non-Conference: Power vs Power', 'P v P', true, 'power_vs_power'),
+  ('Non-Conference: Power vs Mid-Major', 'P v MM', true, 'power_vs_mid_major'),
+  ('Non-Conference: Mid-Major vs Mid-Major', 'MM v MM', false, 'mid_major_vs_mid_major')
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================================================
+-- CLASSIFICATION
+-- ============================================================================
+
+ALTER TABLE games ADD COLUMN is_conference_game BOOLEAN NOT NULL DEFAULT false;
+
+-- The conference a game belongs to: the teams' shared conference, or a bucket
+-- Independents share a conferences row but don't play a conference schedule, and two
+-- league-mates meeting in an MTE or the NCAA tournament isn't a conference game.
+CREATE OR REPLACE FUNCTION game_conference(
+  home UUID,
+  away UUID,
+  tournament UUID DEFAULT NULL
+)
+RETURNS TABLE (conference_id UUID, is_conference_game BOOLEAN) AS $$
+DECLARE
+  home_conf conferences%ROWTYPE;
+  away_conf conferences%ROWTYPE;
+  tournament_kind tournament_type;
+BEGIN
+  SELECT c.* INTO home_conf FROM teams t JOIN conferences c ON c.id = t.conference_id WHERE t.id = home;
+  SELECT c.* INTO away_conf FROM teams t JOIN conferences c ON c.id = t.conference_id WHERE t.id = away;
+  SELECT tr.type INTO tournament_kind FROM tournaments tr WHERE tr.id = tournament;
+
+  IF home_conf.id = away_conf.id
+    AND home_conf.short_name <> 'IND'
+    AND (tournament_kind IS NULL OR tournament_kind = 'conference') THEN
+    RETURN QUERY SELECT home_conf.id, true;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, false
+  FROM conferences c
+  WHERE c.nonconference_matchup = CASE
+    WHEN COALESCE(home_conf.is_power_conference, false) AND COALESCE(away_conf.is_power_conference, false)
+      THEN 'power_vs_power'
+    WHEN COALESCE(home_conf.is_power_conference, false) OR COALESCE(away_conf.is_power_conference, false)
+      THEN 'power_vs_mid_major'
+    ELSE 'mid_major_vs_mid_major'
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION classify_game_conference()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Bracket shells with TBD teams keep what their creator set until both teams are known
+  IF NEW.home_team_id IS NULL OR NEW.away_team_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT gc.conference_id, gc.is_conference_game
+  INTO NEW.conference_id, NEW.is_conference_game
+  FROM game_conference(NEW.home_team_id, NEW.away_team_id, NEW.tournament_id) gc;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- conference_id is in the column list so writers that still set it get overridden
+CREATE TRIGGER trg_classify_game_conference
+  BEFORE INSERT OR UPDATE OF home_team_id, away_team_id, tournament_id, conference_id ON games
+  FOR EACH ROW
+  EXECUTE FUNCTION classify_game_conference();
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+UPDATE games g
+SET conference_id = gc.conference_id,
+    is_conference_game = gc.is_conference_game
+FROM games src
+CROSS JOIN LATERAL game_conference(src.home_team_id, src.away_team_id, src.tournament_id) gc
+WHERE src.id = g.id
+  AND g.home_team_id IS NOT NULL
+  AND g.away_team_id IS NOT NULL;
+
+COMMENT ON COLUMN conferences.nonconference_matchup IS 'Set on the three non-conference bucket rows; NULL for real conferences';
+COMMENT ON COLUMN games.is_conference_game IS 'Both teams are in the same (non-independent) conference, outside MTEs and the NCAA tournament; maintained by trg_classify_game_conference';
+COMMENT ON COLUMN games.conference_id IS 'The shared conference for conference games, otherwise a non-conference bucket (see conferences.nonconference_matchup)';